@@ -62,14 +62,36 @@ async function main() {
 		],
 	});
 
+	// Build the standalone CLI (NO vscode dependency)
+	const cliCtx = await esbuild.context({
+		entryPoints: [
+			'src/cli.ts'
+		],
+		bundle: true,
+		format: 'cjs',
+		minify: production,
+		sourcemap: !production,
+		sourcesContent: false,
+		platform: 'node',
+		outfile: 'dist/cli.js',
+		banner: { js: '#!/usr/bin/env node' },
+		logLevel: 'silent',
+		plugins: [
+			esbuildProblemMatcherPlugin,
+		],
+	});
+
 	if (watch) {
 		await ctx.watch();
 		await workerCtx.watch();
+		await cliCtx.watch();
 	} else {
 		await ctx.rebuild();
 		await workerCtx.rebuild();
+		await cliCtx.rebuild();
 		await ctx.dispose();
 		await workerCtx.dispose();
+		await cliCtx.dispose();
 	}
 }
 
@@ -0,0 +1,442 @@
+/* ==================================================================
+   COMMAND-LINE INTERFACE (NO VSCODE DEPENDENCIES)
+   `fsn generate <dir>` / `fsn sync <file.md>` – runs the generators
+   outside VS Code
+   ================================================================== */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { once } from 'events';
+import { finished } from 'stream/promises';
+import { StructureGenerator } from './core/generator';
+import { StreamingGenerator } from './core/streaming-generator';
+import { splitGlobs } from './core/filters';
+import { parseQuery, QueryError } from './core/query';
+import { StreamingFormatter } from './utils/streaming-formatter';
+import { StructureConfig } from './models/config.interface';
+import { readTemplates } from './utils/template-store';
+import { isValidDirectory } from './utils/fs-helpers';
+import { syncStructureBlocks } from './core/structure-block';
+import { GitRevisionSource } from './sources/git-revision-source';
+
+/* ==================================================================
+   EXIT CODES
+   ================================================================== */
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;      // generation / IO error, stale block in --check mode
+export const EXIT_USAGE = 2;        // bad arguments
+
+const FORMATS = ['tree', 'json', 'markdown', 'xml', 'csv', 'du', 'mermaid', 'dot', 'html', 'yaml', 'toml'] as const;
+const SORTS = ['name', 'size', 'modified', 'type'] as const;
+const ICON_STYLES = ['emoji', 'unicode', 'ascii', 'none'] as const;
+
+const HELP = `Usage: fsn generate <dir> [options]
+       fsn sync <file.md> [--check] [options]
+
+Commands:
+  generate                    print or write the structure of <dir>
+  sync                        refresh <!-- structure:start --> blocks in a markdown file
+
+Options:
+  -f, --format <fmt>          ${FORMATS.join(' | ')} (default: tree)
+  -d, --max-depth <n>         maximum depth, 0 = unlimited
+      --max-items <n>         stop after n entries and print what was scanned, 0 = unlimited
+      --max-duration <ms>     stop after scanning this long and print what was scanned
+      --max-entries <n>       list at most n entries per folder, 0 = unlimited
+  -e, --exclude <names>       folder names to exclude (repeatable, comma-separated)
+  -x, --exclude-pattern <g>   glob patterns to exclude (repeatable, comma-separated)
+  -i, --include <globs>       only include entries matching these globs, e.g. 'src/**,docs/**'
+                              (repeatable, comma-separated, relative to <dir>)
+      --ext <exts>            only include these file extensions (comma-separated)
+  -q, --query <expr>          only entries matching the expression (and their folders), e.g.
+                              'size > 1MB and ext in (ts, tsx) and modified < 30d'
+  -t, --template <name>       start from a template in .vscode/folder-navigator-templates.json
+  -w, --workspace <dir>       where to look for templates (default: current directory)
+  -o, --output <file>         write to a file instead of stdout
+  -r, --rev <revision>        read <dir> from a branch, tag or commit (no checkout needed)
+      --sort <key>            ${SORTS.join(' | ')}
+      --icons <style>         ${ICON_STYLES.join(' | ')}
+      --hidden                include hidden files
+      --no-gitignore          do not respect .gitignore
+      --no-structureignore    do not respect .structureignore files
+  -L, --follow-symlinks       descend into symlinked folders (loops are detected)
+      --size                  include sizes (folders: total of their contents)
+      --allocated             sizes in allocated disk blocks instead of apparent bytes
+      --top <n>               du format: number of heaviest folders to list (default: 20)
+      --permissions           include permissions
+      --modified              include modified dates
+      --git                   git status and last commit (hash, date, author) per entry
+      --git-churn             commit count per folder
+      --no-compress           never collapse large directories
+      --streaming             stream output (low memory, for huge trees)
+      --check                 sync: only report stale blocks (exit 1), write nothing
+  -h, --help                  show this help
+`;
+
+/* ==================================================================
+   ARGUMENT PARSING
+   ================================================================== */
+
+export class CliUsageError extends Error {}
+
+export interface CliOptions {
+    command: 'generate' | 'sync' | 'help';
+    dir?: string;                      // generate: folder, sync: markdown file
+    check?: boolean;
+    template?: string;
+    workspace?: string;
+    output?: string;
+    revision?: string;                 // generate: git revision to read instead of the working tree
+    config: StructureConfig;           // values given explicitly on the command line
+}
+
+export function parseCliArgs(argv: string[]): CliOptions {
+    const opts: CliOptions = { command: 'help', config: {} };
+    const cfg = opts.config;
+    const positionals: string[] = [];
+
+    const list = (v: string) => v.split(',').map(s => s.trim()).filter(Boolean);
+    const oneOf = <T extends string>(flag: string, v: string, allowed: readonly T[]): T => {
+        if (!allowed.includes(v as T)) {
+            throw new CliUsageError(`${flag} must be one of: ${allowed.join(', ')}`);
+        }
+        return v as T;
+    };
+    const limit = (flag: string, v: string) => {
+        const n = Number(v);
+        if (!Number.isInteger(n) || n < 0) {
+            throw new CliUsageError(`${flag} must be a non-negative integer`);
+        }
+        return n;
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = () => {
+            const v = argv[++i];
+            if (v === undefined || v.startsWith('-')) {
+                throw new CliUsageError(`Missing value for ${arg}`);
+            }
+            return v;
+        };
+
+        switch (arg) {
+            case '-h':
+            case '--help':
+                return { command: 'help', config: {} };
+            case '-f':
+            case '--format':
+                cfg.outputFormat = oneOf(arg, value(), FORMATS);
+                break;
+            case '-d':
+            case '--max-depth':
+                cfg.maxDepth = limit(arg, value());
+                break;
+            case '--max-items':
+                cfg.maxItems = limit(arg, value());
+                break;
+            case '--max-duration':
+                cfg.maxDurationMs = limit(arg, value());
+                break;
+            case '--max-entries':
+                cfg.maxEntriesPerDirectory = limit(arg, value());
+                break;
+            case '-e':
+            case '--exclude':
+                cfg.excludeFolders = [...(cfg.excludeFolders ?? []), ...list(value())];
+                break;
+            case '-x':
+            case '--exclude-pattern':
+                cfg.excludePatterns = [...(cfg.excludePatterns ?? []), ...list(value())];
+                break;
+            case '-i':
+            case '--include':
+                cfg.includePatterns = [...(cfg.includePatterns ?? []), ...splitGlobs(value())];
+                break;
+            case '-q':
+            case '--query': {
+                const expression = value();
+                try {
+                    parseQuery(expression);
+                } catch (e) {
+                    if (e instanceof QueryError) {
+                        throw new CliUsageError(`${arg}: ${e.message}`);
+                    }
+                    throw e;
+                }
+                cfg.filterExpression = expression;
+                break;
+            }
+            case '--ext':
+                cfg.extensionFilter = list(value()).map(e => e.replace(/^\./, '').toLowerCase());
+                break;
+            case '-t':
+            case '--template':
+                opts.template = value();
+                break;
+            case '-w':
+            case '--workspace':
+                opts.workspace = value();
+                break;
+            case '-o':
+            case '--output':
+                opts.output = value();
+                break;
+            case '-r':
+            case '--rev':
+                opts.revision = value();
+                break;
+            case '--sort':
+                cfg.sortBy = oneOf(arg, value(), SORTS);
+                break;
+            case '--icons':
+                cfg.iconStyle = oneOf(arg, value(), ICON_STYLES);
+                break;
+            case '--hidden':
+                cfg.includeHidden = true;
+                break;
+            case '--no-gitignore':
+                cfg.respectGitignore = false;
+                break;
+            case '--no-structureignore':
+                cfg.respectStructureIgnore = false;
+                break;
+            case '-L':
+            case '--follow-symlinks':
+                cfg.followSymlinks = true;
+                break;
+            case '--size':
+                cfg.includeSize = true;
+                break;
+            case '--allocated':
+                cfg.sizeMode = 'allocated';
+                break;
+            case '--top': {
+                const n = Number(value());
+                if (!Number.isInteger(n) || n < 1) {
+                    throw new CliUsageError(`${arg} must be a positive integer`);
+                }
+                cfg.diskUsageTopN = n;
+                break;
+            }
+            case '--permissions':
+                cfg.includePermissions = true;
+                break;
+            case '--modified':
+                cfg.includeModifiedDate = true;
+                break;
+            case '--git':
+                cfg.includeGitInfo = true;
+                break;
+            case '--git-churn':
+                cfg.gitChurn = true;
+                break;
+            case '--no-compress':
+                cfg.compressLargeDirs = false;
+                break;
+            case '--streaming':
+                cfg.useStreaming = true;
+                break;
+            case '--check':
+                opts.check = true;
+                break;
+            default:
+                if (arg.startsWith('-')) {
+                    throw new CliUsageError(`Unknown option ${arg}`);
+                }
+                positionals.push(arg);
+        }
+    }
+
+    if (!positionals.length) {
+        return opts;
+    }
+    const command = positionals[0];
+    if (command !== 'generate' && command !== 'sync') {
+        throw new CliUsageError(`Unknown command "${command}"`);
+    }
+    if (positionals.length !== 2) {
+        throw new CliUsageError(command === 'generate'
+            ? 'generate expects exactly one <dir>'
+            : 'sync expects exactly one <file.md>');
+    }
+    opts.command = command;
+    opts.dir = positionals[1];
+    return opts;
+}
+
+/* ==================================================================
+   RUNNER
+   ================================================================== */
+
+export interface CliIO {
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+    cwd: string;
+}
+
+const defaultIO: CliIO = {
+    stdout: t => process.stdout.write(t),
+    stderr: t => process.stderr.write(t),
+    cwd: process.cwd()
+};
+
+/** Open a file for streamed output – a path that cannot be created rejects instead of emitting 'error' */
+function openOutput(p: string): Promise<fs.WriteStream> {
+    return new Promise((resolve, reject) => {
+        const file = fs.createWriteStream(p, 'utf8');
+        file.once('error', reject);
+        file.once('open', () => {
+            file.off('error', reject);
+            resolve(file);
+        });
+    });
+}
+
+/** Run the CLI and resolve with the process exit code */
+export async function runCli(argv: string[], io: CliIO = defaultIO): Promise<number> {
+    let opts: CliOptions;
+    try {
+        opts = parseCliArgs(argv);
+    } catch (e) {
+        if (e instanceof CliUsageError) {
+            io.stderr(`fsn: ${e.message}\n\n${HELP}`);
+            return EXIT_USAGE;
+        }
+        throw e;
+    }
+
+    if (opts.command === 'help') {
+        io.stdout(HELP);
+        return EXIT_OK;
+    }
+
+    if (opts.command === 'sync') {
+        return runSync(opts, io);
+    }
+
+    try {
+        const dir = path.resolve(io.cwd, opts.dir!);
+        if (!(await isValidDirectory(dir))) {
+            io.stderr(`fsn: not a directory: ${dir}\n`);
+            return EXIT_FAILURE;
+        }
+
+        // template first, explicit flags win
+        let cfg: StructureConfig = { ...opts.config };
+        if (opts.template) {
+            const workspace = path.resolve(io.cwd, opts.workspace ?? '.');
+            const templates = await readTemplates(workspace);
+            const template = templates[opts.template];
+            if (!template) {
+                io.stderr(`fsn: template "${opts.template}" not found in ${workspace}\n`);
+                return EXIT_FAILURE;
+            }
+            cfg = { ...template, ...opts.config };
+        }
+
+        // a disk-usage ranking needs every total before its first line
+        if (cfg.useStreaming && cfg.outputFormat === 'du') {
+            io.stderr('fsn: --streaming does not support the du format\n');
+            return EXIT_USAGE;
+        }
+
+        const source = opts.revision ? await GitRevisionSource.open(dir, opts.revision) : undefined;
+
+        const outPath = opts.output ? path.resolve(io.cwd, opts.output) : null;
+        if (outPath) {
+            await fs.promises.mkdir(path.dirname(outPath), { recursive: true });
+        }
+
+        if (cfg.useStreaming) {
+            // write chunks as they are produced – nothing is buffered: when the
+            // file falls behind, the scan waits for it to drain
+            const file = outPath ? await openOutput(outPath) : null;
+            let writeError: Error | null = null;
+            file?.on('error', e => { writeError ??= e; });
+            try {
+                const formatter = new StreamingFormatter(cfg);
+                for await (const event of new StreamingGenerator(cfg, undefined, undefined, source).generate(dir)) {
+                    if (writeError) {
+                        throw writeError;
+                    }
+                    const text = formatter.format(event);
+                    if (!file) {
+                        io.stdout(text);
+                    } else if (!file.write(text)) {
+                        // rejects when the stream fails instead of draining
+                        await once(file, 'drain');
+                    }
+                }
+            } finally {
+                if (file) {
+                    file.end();
+                    await finished(file);
+                }
+            }
+        } else {
+            const output = await new StructureGenerator(cfg, undefined, undefined, { source }).generate(dir);
+            if (outPath) {
+                await fs.promises.writeFile(outPath, output, 'utf8');
+            } else {
+                io.stdout(output.endsWith('\n') ? output : output + '\n');
+            }
+        }
+        return EXIT_OK;
+    } catch (e) {
+        io.stderr(`fsn: ${e instanceof Error ? e.message : String(e)}\n`);
+        return EXIT_FAILURE;
+    }
+}
+
+async function runSync(opts: CliOptions, io: CliIO): Promise<number> {
+    const file = path.resolve(io.cwd, opts.dir!);
+    const templatesRoot = opts.workspace ? path.resolve(io.cwd, opts.workspace) : undefined;
+    try {
+        let base: StructureConfig = opts.config;
+        if (opts.template) {
+            const template = (await readTemplates(templatesRoot ?? path.dirname(file)))[opts.template];
+            if (!template) {
+                io.stderr(`fsn: template "${opts.template}" not found\n`);
+                return EXIT_FAILURE;
+            }
+            base = { ...template, ...opts.config };
+        }
+        const result = await syncStructureBlocks(file, base, { check: opts.check, templatesRoot });
+        if (!result.blocks) {
+            io.stderr(`fsn: no <!-- structure:start --> markers in ${file}\n`);
+            return EXIT_FAILURE;
+        }
+        if (opts.check) {
+            if (result.stale) {
+                io.stderr(`fsn: ${result.stale} of ${result.blocks} structure block(s) out of date in ${file}\n`);
+                return EXIT_FAILURE;
+            }
+            io.stdout(`${file}: up to date\n`);
+        } else {
+            io.stdout(`${file}: ${result.written ? `updated ${result.stale} block(s)` : 'up to date'}\n`);
+        }
+        return EXIT_OK;
+    } catch (e) {
+        io.stderr(`fsn: ${e instanceof Error ? e.message : String(e)}\n`);
+        return EXIT_FAILURE;
+    }
+}
+
+/* ==================================================================
+   ENTRY POINT (when executed as `fsn`)
+   ================================================================== */
+
+if (require.main === module) {
+    // `fsn generate . | head` closes the pipe early – that is not an error
+    process.stdout.on('error', (e: NodeJS.ErrnoException) => {
+        if (e.code === 'EPIPE') {
+            process.exit(EXIT_OK);
+        }
+        throw e;
+    });
+    runCli(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
@@ -3,15 +3,22 @@
    ================================================================== */
 
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-import * as path from 'path';
 import { StructureGenerator } from '../core/generator';
 import { analyzeProjectStructure } from '../core/analyzer';
 import { StructureConfig } from '../models/config.interface';
-import { isValidDirectory } from '../utils/fs-helpers';
+import { isSourceDirectory } from '../sources/structure-source';
+import { sourceForUri } from '../sources/workspace-fs-source';
+import { resolveCommandTarget } from '../utils/workspace-folders';
 
-export async function generateWithAnalysisCommand(uri: vscode.Uri): Promise<void> {
-    if (!uri || !(await isValidDirectory(uri.fsPath))) {
+export async function generateWithAnalysisCommand(uri?: vscode.Uri): Promise<void> {
+    // the analysis describes one project – no combined workspace option
+    const target = await resolveCommandTarget(uri, 'Analyse the structure of…', false);
+    if (target?.kind !== 'folder') {
+        return;
+    }
+    const folder = target.uri;
+    const { source, root } = sourceForUri(folder);
+    if (!(await isSourceDirectory(source, root))) {
         vscode.window.showErrorMessage('Select a folder first.');
         return;
     }
@@ -35,10 +42,11 @@ export async function generateWithAnalysisCommand(uri: vscode.Uri): Promise<void
             (increment, message) => {
                 progress.report({ message, increment });
             },
-            () => token.isCancellationRequested
+            () => token.isCancellationRequested,
+            { source }
         );
-        const struct = await gen.generate(uri.fsPath);
-        const analysis = analyzeProjectStructure(uri.fsPath, struct);
+        const struct = await gen.generate(root);
+        const analysis = analyzeProjectStructure(root, struct);
 
         const finalReport = [
             '# 📄 Project Structure + Analysis',
@@ -49,10 +57,10 @@ export async function generateWithAnalysisCommand(uri: vscode.Uri): Promise<void
         ].join('\n');
 
         const ts = new Date().toISOString().replace(/[:.]/g, '-');
-        const outPath = path.join(uri.fsPath, `structure-analysis_${ts}.md`);
-        await fs.promises.writeFile(outPath, finalReport, 'utf8');
+        const outUri = vscode.Uri.joinPath(folder, `structure-analysis_${ts}.md`);
+        await vscode.workspace.fs.writeFile(outUri, new TextEncoder().encode(finalReport));
 
-        const doc = await vscode.workspace.openTextDocument(outPath);
+        const doc = await vscode.workspace.openTextDocument(outUri);
         await vscode.window.showTextDocument(doc);
     });
 }
@@ -6,6 +6,7 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { StructureGenerator } from '../core/generator';
 import { showAdvancedConfigurationWizard } from '../utils/config';
+import { sourceForUri } from '../sources/workspace-fs-source';
 
 export async function batchProcessCommand(): Promise<void> {
     const dirs = await vscode.window.showOpenDialog({
@@ -42,12 +43,14 @@ export async function batchProcessCommand(): Promise<void> {
             });
 
             try {
+                const { source, root } = sourceForUri(folder);
                 const gen = new StructureGenerator(
                     cfg,
                     undefined,
-                    () => token.isCancellationRequested
+                    () => token.isCancellationRequested,
+                    { source }
                 );
-                const out = await gen.generate(folder.fsPath);
+                const out = await gen.generate(root);
                 parts.push(`## 📁 ${path.basename(folder.fsPath)}\n\`\`\`\n${out}\n\`\`\`\n`);
             } catch (e) {
                 parts.push(`## ❌ ${path.basename(folder.fsPath)}\n*Error:* ${e instanceof Error ? e.message : String(e)}\n`);
@@ -3,24 +3,64 @@
    ================================================================== */
 
 import * as vscode from 'vscode';
-import * as path from 'path';
 import { StructureGenerator } from '../core/generator';
+import { diffStructures } from '../core/diff';
 import { StructureConfig } from '../models/config.interface';
+import { formatDiffJSON, formatDiffMarkdown } from '../utils/diff-formatting';
+import { gitRefs } from '../utils/git';
+import { GitRevisionSource } from '../sources/git-revision-source';
+import { pickWorkspaceFolder } from '../utils/workspace-folders';
+
+/** One side of a comparison: a folder, optionally as of a git revision */
+interface CompareSide {
+    dir: string;
+    revision?: string;
+}
 
 export async function compareDirectoryStructures(): Promise<void> {
-    const panes = await vscode.window.showOpenDialog({
-        canSelectFolders: true,
-        canSelectMany: true,
-        openLabel: 'Select two folders to compare'
-    });
-    if (!panes || panes.length !== 2) {
-        vscode.window.showErrorMessage('Please pick **exactly two** folders.');
+    const mode = await vscode.window.showQuickPick(
+        [
+            { label: '📁 Two folders', value: 'folders' },
+            { label: '🌿 Two git revisions of a folder', value: 'revisions' }
+        ],
+        { placeHolder: 'What do you want to compare?' }
+    );
+    if (!mode) {
+        return;
+    }
+
+    const sides = mode.value === 'revisions' ? await pickRevisions() : await pickFolders();
+    if (!sides) {
         return;
     }
 
-    const [a, b] = panes;
+    const output = await vscode.window.showQuickPick(
+        [
+            { label: '📝 Markdown report (merged tree + summary)', value: 'markdown' },
+            { label: '📋 JSON (for tooling)', value: 'json' }
+        ],
+        { placeHolder: 'Comparison output' }
+    );
+    if (!output) {
+        return;
+    }
+
+    // git objects carry no modified dates
+    const criteria = mode.value === 'revisions' ? { value: false } : await vscode.window.showQuickPick(
+        [
+            { label: '📏 Type and size', value: false },
+            { label: '⏰ Type, size and modified date', value: true }
+        ],
+        { placeHolder: 'What counts as a change?' }
+    );
+    if (!criteria) {
+        return;
+    }
+
+    const [a, b] = sides;
     const cfg: StructureConfig = {
         includeSize: true,
+        includeModifiedDate: criteria.value,
         sortBy: 'name',
         outputFormat: 'tree'
     };
@@ -31,49 +71,93 @@ export async function compareDirectoryStructures(): Promise<void> {
         cancellable: true
     };
 
-    await vscode.window.withProgress(progressOpts, async (progress, token) => {
-        progress.report({ message: `Scanning ${a.fsPath}` });
-        const genA = new StructureGenerator(
-            cfg,
-            undefined,
-            () => token.isCancellationRequested
-        );
-        const structA = await genA.generate(a.fsPath);
-
-        if (token.isCancellationRequested) {
-            return;
-        }
-
-        progress.report({ message: `Scanning ${b.fsPath}` });
-        const genB = new StructureGenerator(
-            cfg,
-            undefined,
-            () => token.isCancellationRequested
-        );
-        const structB = await genB.generate(b.fsPath);
-
-        const report = [
-            `# 📁 Directory Comparison`,
-            `**Folder 1:** \`${a.fsPath}\``,
-            `**Folder 2:** \`${b.fsPath}\``,
-            '',
-            `## 📂 ${path.basename(a.fsPath)}`,
-            '```',
-            structA,
-            '```',
-            '',
-            `## 📂 ${path.basename(b.fsPath)}`,
-            '```',
-            structB,
-            '```',
-            '',
-            '_Generated by Folder Structure Navigator_'
-        ].join('\n');
-
-        const doc = await vscode.workspace.openTextDocument(
-            vscode.Uri.parse('untitled:directory-compare.md')
-        );
-        const editor = await vscode.window.showTextDocument(doc);
-        await editor.edit(e => e.insert(new vscode.Position(0, 0), report));
+    try {
+        await vscode.window.withProgress(progressOpts, async (progress, token) => {
+            const scan = async (side: CompareSide) => {
+                progress.report({ message: `Scanning ${sideLabel(side)}` });
+                const source = side.revision ? await GitRevisionSource.open(side.dir, side.revision) : undefined;
+                const generator = new StructureGenerator(
+                    cfg,
+                    undefined,
+                    () => token.isCancellationRequested,
+                    { source }
+                );
+                return generator.scan(side.dir);
+            };
+
+            const treeA = await scan(a);
+            if (token.isCancellationRequested) {
+                return;
+            }
+            const treeB = await scan(b);
+
+            progress.report({ message: 'Computing differences' });
+            const diff = diffStructures(treeA, treeB, { compareModified: criteria.value });
+            diff.left = sideLabel(a);
+            diff.right = sideLabel(b);
+
+            const isJson = output.value === 'json';
+            const report = isJson ? formatDiffJSON(diff) : formatDiffMarkdown(diff);
+
+            const doc = await vscode.workspace.openTextDocument(
+                vscode.Uri.parse(isJson ? 'untitled:directory-compare.json' : 'untitled:directory-compare.md')
+            );
+            const editor = await vscode.window.showTextDocument(doc);
+            await editor.edit(e => e.insert(new vscode.Position(0, 0), report));
+        });
+    } catch (e) {
+        vscode.window.showErrorMessage(`❗ Compare failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+}
+
+function sideLabel(side: CompareSide): string {
+    return side.revision ? `${side.dir}@${side.revision}` : side.dir;
+}
+
+async function pickFolders(): Promise<[CompareSide, CompareSide] | undefined> {
+    const panes = await vscode.window.showOpenDialog({
+        canSelectFolders: true,
+        canSelectMany: true,
+        openLabel: 'Select two folders to compare'
     });
+    if (!panes || panes.length !== 2) {
+        vscode.window.showErrorMessage('Please pick **exactly two** folders.');
+        return undefined;
+    }
+    return [{ dir: panes[0].fsPath }, { dir: panes[1].fsPath }];
+}
+
+/* -----------------------------------------------------------------
+   REVISIONS: a workspace folder, then a base and a compared ref
+   ----------------------------------------------------------------- */
+async function pickRevisions(): Promise<[CompareSide, CompareSide] | undefined> {
+    const folder = await pickWorkspaceFolder('Repository to compare');
+    if (!folder) {
+        return undefined;
+    }
+
+    const refs = await gitRefs(folder.uri.fsPath);
+    if (refs === undefined) {
+        vscode.window.showErrorMessage(`❗ ${folder.name} is not a git repository.`);
+        return undefined;
+    }
+
+    const base = await pickRevision(refs, 'Base revision (left)');
+    if (!base) {
+        return undefined;
+    }
+    const compared = await pickRevision(refs.filter(r => r !== base), `Compare ${base} with (right)`);
+    if (!compared) {
+        return undefined;
+    }
+    return [{ dir: folder.uri.fsPath, revision: base }, { dir: folder.uri.fsPath, revision: compared }];
+}
+
+async function pickRevision(refs: string[], placeHolder: string): Promise<string | undefined> {
+    const other = '$(edit) Other commit, tag or ref…';
+    const pick = await vscode.window.showQuickPick(['HEAD', ...refs, other], { placeHolder });
+    if (pick !== other) {
+        return pick;
+    }
+    return vscode.window.showInputBox({ prompt: placeHolder, placeHolder: 'e.g. v1.2.0, HEAD~3, a1b2c3d' });
 }
@@ -0,0 +1,62 @@
+/* ==================================================================
+   DISK USAGE COMMAND
+   Heaviest folders below the selected directory
+   ================================================================== */
+
+import * as vscode from 'vscode';
+import { StructureGenerator } from '../core/generator';
+import { getConfigFromSettings } from '../utils/config';
+import { isSourceDirectory } from '../sources/structure-source';
+import { sourceForUri } from '../sources/workspace-fs-source';
+import { resolveCommandTarget, scanWorkspaceFolders } from '../utils/workspace-folders';
+
+export async function showDiskUsageCommand(uri?: vscode.Uri): Promise<void> {
+    const target = await resolveCommandTarget(uri, 'Measure disk usage of…');
+    if (!target) {
+        return;
+    }
+    if (target.kind === 'folder') {
+        const { source, root } = sourceForUri(target.uri);
+        if (!(await isSourceDirectory(source, root))) {
+            vscode.window.showErrorMessage('Select a valid folder first.');
+            return;
+        }
+    }
+
+    // sizes need the whole subtree – depth and compression only affect display elsewhere
+    const cfg = await getConfigFromSettings(target.kind === 'folder' ? target.uri : undefined);
+    cfg.outputFormat = 'du';
+    cfg.maxDepth = 0;
+
+    const progressOpts = {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Measuring disk usage…',
+        cancellable: true
+    };
+
+    await vscode.window.withProgress(progressOpts, async (progress, token) => {
+        try {
+            const onProgress = (increment: number, message: string) => {
+                progress.report({ message, increment });
+            };
+            const isCancelled = () => token.isCancellationRequested;
+
+            let report: string;
+            if (target.kind === 'workspace') {
+                // every folder as a top-level entry of one ranking
+                const { root, itemsProcessed } = await scanWorkspaceFolders(target.folders, cfg, onProgress, isCancelled);
+                report = new StructureGenerator(cfg).render(root, 0, itemsProcessed);
+            } else {
+                const { source, root } = sourceForUri(target.uri);
+                report = await new StructureGenerator(cfg, onProgress, isCancelled, { source }).generate(root);
+            }
+
+            const doc = await vscode.workspace.openTextDocument({ content: report, language: 'plaintext' });
+            await vscode.window.showTextDocument(doc);
+        } catch (e) {
+            vscode.window.showErrorMessage(
+                `❗ Disk usage failed: ${e instanceof Error ? e.message : String(e)}`
+            );
+        }
+    });
+}
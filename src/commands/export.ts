@@ -3,33 +3,64 @@
    ================================================================== */
 
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-import * as path from 'path';
 import { StructureGenerator } from '../core/generator';
 import { getConfigFromSettings } from '../utils/config';
-import { isValidDirectory } from '../utils/fs-helpers';
+import { outputFileExtension } from '../utils/formatting';
+import { OutputFormat } from '../models/config.interface';
+import { isSourceDirectory } from '../sources/structure-source';
+import { sourceForUri } from '../sources/workspace-fs-source';
+import { resolveCommandTarget, scanWorkspaceFolders, workspaceOutputFolder } from '../utils/workspace-folders';
 
-export async function exportStructureCommand(uri: vscode.Uri): Promise<void> {
-    if (!uri || !(await isValidDirectory(uri.fsPath))) {
-        vscode.window.showErrorMessage('Select a valid folder first.');
+export async function exportStructureCommand(uri?: vscode.Uri): Promise<void> {
+    const target = await resolveCommandTarget(uri, 'Export the structure of…');
+    if (!target) {
         return;
     }
+    if (target.kind === 'folder') {
+        const { source, root } = sourceForUri(target.uri);
+        if (!(await isSourceDirectory(source, root))) {
+            vscode.window.showErrorMessage('Select a valid folder first.');
+            return;
+        }
+    }
 
     const format = await vscode.window.showQuickPick(
-        ['Tree View', 'JSON', 'Markdown', 'XML', 'CSV'],
+        [
+            { label: 'Tree View', value: 'tree' },
+            { label: 'JSON', value: 'json' },
+            { label: 'YAML', value: 'yaml' },
+            { label: 'TOML', value: 'toml' },
+            { label: 'Markdown', value: 'markdown' },
+            { label: 'XML', value: 'xml' },
+            { label: 'CSV', value: 'csv' },
+            { label: 'Disk Usage', value: 'du' },
+            { label: 'Mermaid Diagram', value: 'mermaid' },
+            { label: 'Graphviz DOT', value: 'dot' },
+            { label: 'Interactive HTML', value: 'html' }
+        ] as { label: string; value: OutputFormat }[],
         { placeHolder: 'Export format' }
     );
     if (!format) {
         return;
     }
 
-    const cfg = await getConfigFromSettings();
-    cfg.outputFormat = format.toLowerCase().replace(' view', '') as any;
+    const cfg = await getConfigFromSettings(target.kind === 'folder' ? target.uri : undefined);
+    cfg.outputFormat = format.value;
 
-    const gen = new StructureGenerator(cfg);
-    const result = await gen.generate(uri.fsPath);
+    let result: string;
+    let outFolder: vscode.Uri;
+    if (target.kind === 'workspace') {
+        // one combined structure, saved next to the workspace file
+        const { root, itemsProcessed } = await scanWorkspaceFolders(target.folders, cfg);
+        result = new StructureGenerator(cfg).render(root, 0, itemsProcessed);
+        outFolder = workspaceOutputFolder()!;
+    } else {
+        const { source, root } = sourceForUri(target.uri);
+        result = await new StructureGenerator(cfg, undefined, undefined, { source }).generate(root);
+        outFolder = target.uri;
+    }
 
-    const outPath = path.join(uri.fsPath, `exported_structure.${cfg.outputFormat}`);
-    await fs.promises.writeFile(outPath, result, 'utf8');
-    vscode.window.showInformationMessage(`Structure exported to ${outPath}`);
+    const outUri = vscode.Uri.joinPath(outFolder, `exported_structure.${outputFileExtension(cfg.outputFormat)}`);
+    await vscode.workspace.fs.writeFile(outUri, new TextEncoder().encode(result));
+    vscode.window.showInformationMessage(`Structure exported to ${outUri.scheme === 'file' ? outUri.fsPath : outUri.toString()}`);
 }
@@ -4,23 +4,39 @@
    ================================================================== */
 
 import * as vscode from 'vscode';
-import * as fs from 'fs';
 import * as path from 'path';
-import { Worker } from 'worker_threads';
 import { StructureGenerator } from '../core/generator';
+import { WorkerPool } from '../core/worker-pool';
 import { StreamingGenerator } from '../core/streaming-generator';
 import { StreamingFormatter } from '../utils/streaming-formatter';
+import { outputFileExtension } from '../utils/formatting';
 import { StructureConfig } from '../models/config.interface';
 import { getConfigFromSettings, showAdvancedConfigurationWizard } from '../utils/config';
-import { isValidDirectory } from '../utils/fs-helpers';
 import { PerformanceMonitor } from '../utils/performance';
+import { PluginRegistry } from '../core/plugin-registry';
+import { syncMarkdownFile } from './sync-block';
+import { isSourceDirectory, StructureSource } from '../sources/structure-source';
+import { sourceForUri } from '../sources/workspace-fs-source';
+import { resolveCommandTarget, scanWorkspaceFolders, workspaceOutputFolder } from '../utils/workspace-folders';
 
 /* ==================================================================
    MAIN GENERATE COMMAND (with optional interactive wizard)
    ================================================================== */
 
-export async function mainGenerate(uri: vscode.Uri, interactiveWizard: boolean): Promise<void> {
-    if (!uri || !(await isValidDirectory(uri.fsPath))) {
+export async function mainGenerate(uri: vscode.Uri | undefined, interactiveWizard: boolean): Promise<void> {
+    // from the palette: the only folder, a picked one or all of them combined
+    const target = await resolveCommandTarget(uri, 'Generate the structure of…');
+    if (!target) {
+        return;
+    }
+    if (target.kind === 'workspace') {
+        return generateForWorkspace(target.folders, interactiveWizard);
+    }
+
+    // remote and virtual folders are read through vscode.workspace.fs
+    const folder = target.uri;
+    const { source, root } = sourceForUri(folder);
+    if (!(await isSourceDirectory(source, root))) {
         vscode.window.showErrorMessage('Please select a valid directory.');
         return;
     }
@@ -28,13 +44,25 @@ export async function mainGenerate(uri: vscode.Uri, interactiveWizard: boolean):
     // 1️⃣ Pick config: either from Settings or from the wizard
     const config = interactiveWizard
         ? await showAdvancedConfigurationWizard()
-        : await getConfigFromSettings();
+        : await getConfigFromSettings(folder);
 
     if (!config) {
         // user cancelled the wizard
         return;
     }
 
+    // Marker-block mode: refresh <root>/<markerFile> instead of writing a new file
+    const settings = vscode.workspace.getConfiguration('advanced-folder-structure-navigator');
+    if (settings.get<string>('outputTarget') === 'markerBlock') {
+        if (folder.scheme !== 'file') {
+            vscode.window.showErrorMessage('❗ Structure blocks can only be synced in local folders.');
+            return;
+        }
+        const markerFile = settings.get<string>('markerFile') ?? 'README.md';
+        await syncMarkdownFile(path.join(folder.fsPath, markerFile), false, config);
+        return;
+    }
+
     const progressOpts = {
         location: vscode.ProgressLocation.Notification,
         title: interactiveWizard
@@ -48,13 +76,20 @@ export async function mainGenerate(uri: vscode.Uri, interactiveWizard: boolean):
         const startTime = Date.now();
         try {
             let structure: string;
+            let partial = false;
+            let itemsProcessed = 0;
+
+            if (config.useStreaming && config.outputFormat === 'du') {
+                // a disk-usage ranking needs every total before its first line
+                vscode.window.showInformationMessage('The du format cannot be streamed – generating it in one pass.');
+            }
 
-            if (config.useStreaming) {
+            if (config.useStreaming && config.outputFormat !== 'du') {
                 // -------------- streaming mode (memory-efficient) -----------------
-                structure = await generateWithStreaming(uri.fsPath, config, progress, token);
-            } else if (config.useWorker) {
-                // -------------- worker thread -----------------
-                structure = await generateInWorker(uri.fsPath, config, progress, token);
+                structure = await generateWithStreaming(root, source, config, progress, token);
+            } else if (config.useWorker && folder.scheme === 'file') {
+                // -------------- warm worker thread (Node fs only) -----------------
+                ({ structure, partial, itemsProcessed } = await generateInWorker(root, config, progress, token));
             } else {
                 // -------------- same thread ------------------
                 const generator = new StructureGenerator(
@@ -62,9 +97,19 @@ export async function mainGenerate(uri: vscode.Uri, interactiveWizard: boolean):
                     (increment, message) => {
                         progress.report({ message, increment });
                     },
-                    () => token.isCancellationRequested
+                    () => token.isCancellationRequested,
+                    { partialOnCancel: true, source }
                 );
-                structure = await generator.generate(uri.fsPath);
+                structure = await generator.generate(root);
+                // a budget that ran out is not a cancellation – its result is kept as is
+                partial = generator.truncation === 'cancelled';
+                itemsProcessed = generator.itemsProcessed;
+            }
+
+            // Cancelled – the user decides whether what was scanned is worth keeping
+            if (partial && !(await keepPartialResult(itemsProcessed))) {
+                vscode.window.showInformationMessage('Folder-structure generation cancelled.');
+                return;
             }
 
             // Record performance metrics
@@ -72,7 +117,7 @@ export async function mainGenerate(uri: vscode.Uri, interactiveWizard: boolean):
             PerformanceMonitor.getInstance().recordOperation('generateStructure', duration);
 
             // 3️⃣ Save / present the result (auto-save/open respected)
-            await saveAndPresentResults(uri.fsPath, structure, config);
+            await saveAndPresentResults(folder, structure, config);
         } catch (e) {
             if (e instanceof vscode.CancellationError) {
                 vscode.window.showInformationMessage('Folder-structure generation cancelled.');
@@ -85,12 +130,82 @@ export async function mainGenerate(uri: vscode.Uri, interactiveWizard: boolean):
     });
 }
 
+/* ==================================================================
+   MULTI-ROOT: one combined structure with a root per workspace folder
+   ================================================================== */
+
+async function generateForWorkspace(
+    folders: readonly vscode.WorkspaceFolder[],
+    interactiveWizard: boolean
+): Promise<void> {
+    const config = interactiveWizard
+        ? await showAdvancedConfigurationWizard()
+        : await getConfigFromSettings();
+    if (!config) {
+        return;
+    }
+
+    // Marker-block mode: each folder refreshes its own <markerFile>
+    const settings = vscode.workspace.getConfiguration('advanced-folder-structure-navigator');
+    if (settings.get<string>('outputTarget') === 'markerBlock') {
+        const markerFile = settings.get<string>('markerFile') ?? 'README.md';
+        for (const folder of folders.filter(f => f.uri.scheme === 'file')) {
+            await syncMarkdownFile(path.join(folder.uri.fsPath, markerFile), false, config);
+        }
+        return;
+    }
+
+    const progressOpts = {
+        location: vscode.ProgressLocation.Notification,
+        title: `Generating the structure of ${folders.length} workspace folders…`,
+        cancellable: true
+    };
+
+    await vscode.window.withProgress(progressOpts, async (progress, token) => {
+        const startTime = Date.now();
+        try {
+            const { root, partial, itemsProcessed } = await scanWorkspaceFolders(
+                folders,
+                config,
+                (increment, message) => {
+                    progress.report({ message, increment });
+                },
+                () => token.isCancellationRequested
+            );
+            if (partial && !(await keepPartialResult(itemsProcessed))) {
+                vscode.window.showInformationMessage('Folder-structure generation cancelled.');
+                return;
+            }
+
+            const duration = Date.now() - startTime;
+            const structure = new StructureGenerator(config).render(root, duration, itemsProcessed);
+            PerformanceMonitor.getInstance().recordOperation('generateStructure', duration);
+
+            await saveAndPresentResults(workspaceOutputFolder()!, structure, config);
+        } catch (e) {
+            vscode.window.showErrorMessage(
+                `❗ Generation failed: ${e instanceof Error ? e.message : String(e)}`
+            );
+        }
+    });
+}
+
+async function keepPartialResult(itemsProcessed: number): Promise<boolean> {
+    const choice = await vscode.window.showWarningMessage(
+        `Generation cancelled after ${itemsProcessed} items. Keep the partial structure?`,
+        'Keep Partial Result',
+        'Discard'
+    );
+    return choice === 'Keep Partial Result';
+}
+
 /* ==================================================================
    STREAMING GENERATION (Memory-Efficient for Large Repos)
    ================================================================== */
 
 async function generateWithStreaming(
     rootPath: string,
+    source: StructureSource,
     cfg: StructureConfig,
     progress: vscode.Progress<{ message?: string; increment?: number }>,
     token: vscode.CancellationToken
@@ -100,7 +215,8 @@ async function generateWithStreaming(
         (processed, message) => {
             progress.report({ message: `${message} (${processed} items)` });
         },
-        () => token.isCancellationRequested
+        () => token.isCancellationRequested,
+        source
     );
 
     const formatter = new StreamingFormatter(cfg);
@@ -120,53 +236,45 @@ async function generateWithStreaming(
         }
     }
 
-    return chunks.join('');
+    return PluginRegistry.getInstance().formatOutput(chunks.join(''), cfg.outputFormat ?? 'tree');
 }
 
 /* ==================================================================
-   WORKER THREAD GENERATION (FIXED - no more crashes!)
+   WORKER THREAD GENERATION (warm workers reused across runs)
    ================================================================== */
 
-function generateInWorker(
+let workerPool: WorkerPool | undefined;
+
+function getWorkerPool(size: number): WorkerPool {
+    // Use the compiled worker file path (after bundling, __dirname = dist/)
+    workerPool ??= new WorkerPool(path.join(__dirname, 'core/worker.js'), size);
+    workerPool.resize(size);
+    return workerPool;
+}
+
+/** Stop the warm workers (extension deactivation) */
+export async function disposeWorkerPool(): Promise<void> {
+    await workerPool?.dispose();
+    workerPool = undefined;
+}
+
+async function generateInWorker(
     rootPath: string,
     cfg: StructureConfig,
     progress: vscode.Progress<{ message?: string; increment?: number }>,
     token: vscode.CancellationToken
-): Promise<string> {
-    return new Promise((resolve, reject) => {
-        // Use the compiled worker file path (after bundling, __dirname = dist/)
-        const workerPath = path.join(__dirname, 'core/worker.js');
-
-        const worker = new Worker(workerPath);
-
-        // Forward cancellation → kill the worker
-        token.onCancellationRequested(() => worker.terminate());
-
-        worker.on('message', (msg: any) => {
-            if (msg.type === 'progress') {
-                progress.report({ message: msg.message, increment: msg.increment });
-            } else if (msg.type === 'result') {
-                resolve(msg.data);
-                worker.terminate();
-            } else if (msg.type === 'error') {
-                reject(new Error(msg.error));
-                worker.terminate();
-            }
-        });
-
-        worker.on('error', (err) => {
-            reject(err);
-        });
-
-        worker.on('exit', (code) => {
-            if (code !== 0) {
-                reject(new Error(`Worker stopped with exit code ${code}`));
-            }
-        });
+): Promise<{ structure: string; partial: boolean; itemsProcessed: number }> {
+    const onProgress = (increment: number, message: string) => {
+        progress.report({ message, increment });
+    };
+    const pool = getWorkerPool(cfg.workerPoolSize ?? 1);
 
-        // Send the message to start processing
-        worker.postMessage({ rootPath, config: cfg });
-    });
+    // top-level folders are scanned on the workers (one or several); the root
+    // listing, plugins and formatting stay on this thread, where plugins live
+    const { data, partial, itemsProcessed } = await pool.generate(
+        rootPath, cfg, onProgress, () => token.isCancellationRequested
+    );
+    return { structure: data, partial, itemsProcessed };
 }
 
 /* ==================================================================
@@ -174,16 +282,16 @@ function generateInWorker(
    ================================================================== */
 
 async function saveAndPresentResults(
-    rootFolder: string,
+    rootFolder: vscode.Uri,
     content: string,
     cfg: StructureConfig
 ): Promise<void> {
     const stamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const ext = cfg.outputFormat === 'tree' ? 'txt' : cfg.outputFormat;
+    const ext = outputFileExtension(cfg.outputFormat ?? 'tree');
     const fileName = `structure_${stamp}.${ext}`;
-    const filePath = path.join(rootFolder, fileName);
+    const fileUri = vscode.Uri.joinPath(rootFolder, fileName);
 
-    await fs.promises.writeFile(filePath, content, 'utf8');
+    await vscode.workspace.fs.writeFile(fileUri, new TextEncoder().encode(content));
 
     const actions = ['Copy to Clipboard'];
     if (cfg.autoOpen) {
@@ -195,7 +303,7 @@ async function saveAndPresentResults(
     );
 
     if (chosen === 'Open File') {
-        const doc = await vscode.workspace.openTextDocument(filePath);
+        const doc = await vscode.workspace.openTextDocument(fileUri);
         await vscode.window.showTextDocument(doc);
     } else if (chosen === 'Copy to Clipboard') {
         await vscode.env.clipboard.writeText(content);
@@ -0,0 +1,118 @@
+/* ==================================================================
+   PLUGIN LOADING COMMANDS
+   Discovers workspace plugins and exposes the registration API
+   ================================================================== */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PluginRegistry } from '../core/plugin-registry';
+import { StructurePlugin } from '../models/file-entry.interface';
+
+/* ==================================================================
+   PUBLIC EXTENSION API (returned from activate)
+   ================================================================== */
+
+export interface FolderStructureNavigatorApi {
+    registerPlugin(plugin: StructurePlugin): vscode.Disposable;
+}
+
+export function createPluginApi(context: vscode.ExtensionContext): FolderStructureNavigatorApi {
+    return {
+        registerPlugin(plugin: StructurePlugin): vscode.Disposable {
+            const unregister = PluginRegistry.getInstance().register(plugin);
+            plugin.addCommands?.(context);
+            return new vscode.Disposable(unregister);
+        }
+    };
+}
+
+/* ==================================================================
+   WORKSPACE PLUGIN DISCOVERY
+   ================================================================== */
+
+/** What each plugin file registered through `addCommands` – disposed before the file is reloaded */
+const pluginSubscriptions = new Map<string, vscode.Disposable[]>();
+let pluginCleanupRegistered = false;
+
+function disposePluginCommands(dir: string): void {
+    for (const [source, subscriptions] of pluginSubscriptions) {
+        if (path.dirname(source) === dir) {
+            subscriptions.forEach(d => d.dispose());
+            pluginSubscriptions.delete(source);
+        }
+    }
+}
+
+/** The extension context, except that `subscriptions` is a list owned by the plugin file */
+function contextFor(context: vscode.ExtensionContext, source: string): vscode.ExtensionContext {
+    if (!pluginCleanupRegistered) {
+        // dispose whatever plugins still hold when the extension deactivates
+        pluginCleanupRegistered = true;
+        context.subscriptions.push(new vscode.Disposable(() => {
+            pluginSubscriptions.forEach(list => list.forEach(d => d.dispose()));
+            pluginSubscriptions.clear();
+        }));
+    }
+    let subscriptions = pluginSubscriptions.get(source);
+    if (!subscriptions) {
+        subscriptions = [];
+        pluginSubscriptions.set(source, subscriptions);
+    }
+    const own = subscriptions;
+    return new Proxy(context, {
+        get: (target, key) => key === 'subscriptions' ? own : Reflect.get(target, key)
+    });
+}
+
+export async function loadWorkspacePlugins(
+    context: vscode.ExtensionContext,
+    showSummary = false
+): Promise<void> {
+    const folders = vscode.workspace.workspaceFolders;
+    const relDir = vscode.workspace
+        .getConfiguration('advanced-folder-structure-navigator')
+        .get<string>('pluginDirectory') ?? '.vscode/structure-plugins';
+
+    if (!folders?.length || !relDir) {
+        return;
+    }
+
+    // Workspace plugins are arbitrary code – only run them in trusted folders
+    if (!vscode.workspace.isTrusted) {
+        if (showSummary) {
+            vscode.window.showWarningMessage('Structure plugins are disabled in untrusted workspaces.');
+        }
+        return;
+    }
+
+    const registry = PluginRegistry.getInstance();
+    let loaded = 0;
+
+    for (const folder of folders) {
+        const dir = path.join(folder.uri.fsPath, relDir);
+        // commands of the previous load would clash with the reloaded ones
+        disposePluginCommands(dir);
+        const results = await registry.loadFromDirectory(dir);
+
+        for (const r of results) {
+            if (r.error) {
+                vscode.window.showWarningMessage(
+                    `Structure plugin **${path.basename(r.source)}** failed to load: ${r.error}`
+                );
+                continue;
+            }
+            loaded++;
+            try {
+                r.plugin!.addCommands?.(contextFor(context, r.source));
+            } catch (e) {
+                vscode.window.showWarningMessage(
+                    `Structure plugin **${r.plugin!.name}** failed to add commands: ${e instanceof Error ? e.message : String(e)}`
+                );
+            }
+        }
+    }
+
+    if (showSummary) {
+        vscode.window.showInformationMessage(`Loaded ${loaded} structure plugin(s).`);
+    }
+}
@@ -0,0 +1,123 @@
+/* ==================================================================
+   SCAFFOLD COMMAND
+   Create folders and empty files from a structure document
+   ================================================================== */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { parseStructure, ParseFormat } from '../utils/parsing';
+import { applyScaffold, formatScaffoldPlan, planScaffold, SnippetMap } from '../core/scaffold';
+
+/* ==================================================================
+   RESOLVE THE STRUCTURE FILE
+   ================================================================== */
+
+async function readStructureSource(uri?: vscode.Uri): Promise<{ text: string; name: string; format?: ParseFormat } | undefined> {
+    let file = uri;
+    if (!file) {
+        const editor = vscode.window.activeTextEditor;
+        if (editor && !editor.document.isUntitled) {
+            file = editor.document.uri;
+        } else if (editor) {
+            return { text: editor.document.getText(), name: 'untitled document' };
+        }
+    }
+    if (!file) {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectFiles: true,
+            canSelectMany: false,
+            filters: { 'Structure files': ['txt', 'md', 'json', 'xml', 'csv'] },
+            openLabel: 'Select structure file'
+        });
+        file = picked?.[0];
+    }
+    if (!file) {
+        return undefined;
+    }
+
+    const text = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+    const ext = path.extname(file.fsPath).toLowerCase();
+    const byExtension: Record<string, ParseFormat> = { '.json': 'json', '.md': 'markdown', '.xml': 'xml', '.csv': 'csv' };
+    const format: ParseFormat | undefined = byExtension[ext];
+    return { text, name: path.basename(file.fsPath), format };
+}
+
+/* ==================================================================
+   MAIN COMMAND
+   ================================================================== */
+
+export async function scaffoldFromStructureCommand(uri?: vscode.Uri): Promise<void> {
+    try {
+        const source = await readStructureSource(uri);
+        if (!source) {
+            return;
+        }
+        const root = parseStructure(source.text, { format: source.format });
+        if (!root.children?.length) {
+            vscode.window.showWarningMessage(`No folders or files found in ${source.name}.`);
+            return;
+        }
+
+        // ---- target folder --------------------------------------------
+        const picked = await vscode.window.showOpenDialog({
+            canSelectFolders: true,
+            canSelectFiles: false,
+            canSelectMany: false,
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            openLabel: `Scaffold "${root.name}" here`
+        });
+        const target = picked?.[0]?.fsPath;
+        if (!target) {
+            return;
+        }
+
+        // ---- optional snippet seeding -----------------------------------
+        const snippets = vscode.workspace
+            .getConfiguration('advanced-folder-structure-navigator')
+            .get<SnippetMap>('scaffoldSnippets') ?? {};
+        let seed: SnippetMap = {};
+        if (Object.keys(snippets).length) {
+            const choice = await vscode.window.showQuickPick(
+                [
+                    { label: 'Seed files from snippets', description: `${Object.keys(snippets).length} patterns in scaffoldSnippets`, seed: true },
+                    { label: 'Create empty files', seed: false }
+                ],
+                { placeHolder: 'Initial file content' }
+            );
+            if (!choice) {
+                return;
+            }
+            seed = choice.seed ? snippets : {};
+        }
+
+        // ---- dry run, then confirm --------------------------------------
+        const plan = await planScaffold(root, target, seed);
+        const preview = await vscode.workspace.openTextDocument({ content: formatScaffoldPlan(plan), language: 'plaintext' });
+        await vscode.window.showTextDocument(preview, { preview: true });
+
+        const toCreate = plan.actions.filter(a => a.status === 'create').length;
+        const conflicts = plan.actions.filter(a => a.status === 'conflict').length;
+        if (!toCreate) {
+            vscode.window.showInformationMessage('Nothing to create – everything already exists.');
+            return;
+        }
+        const confirm = await vscode.window.showWarningMessage(
+            `Create ${toCreate} item(s) in ${path.basename(target)}?` +
+                (conflicts ? ` ${conflicts} conflicting item(s) will be skipped.` : ''),
+            { modal: true },
+            'Create'
+        );
+        if (confirm !== 'Create') {
+            return;
+        }
+
+        const created = await applyScaffold(plan);
+        vscode.window.showInformationMessage(
+            `Scaffolded ${created.directories} folder(s) and ${created.files} file(s) in ${target}.`
+        );
+    } catch (e) {
+        vscode.window.showErrorMessage(
+            `❗ Scaffolding failed: ${e instanceof Error ? e.message : String(e)}`
+        );
+    }
+}
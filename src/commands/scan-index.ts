@@ -0,0 +1,72 @@
+/* ==================================================================
+   SCAN INDEX LIFECYCLE
+   Loads the persistent index from global storage and keeps it (and
+   the in-memory caches) in sync with a workspace file watcher
+   ================================================================== */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ScanIndex } from '../utils/scan-index';
+import { gitignoreCache, statsCache } from '../utils/cache';
+
+const INDEX_FILE = 'scan-index.json';
+
+function indexEnabled(): boolean {
+    return vscode.workspace
+        .getConfiguration('advanced-folder-structure-navigator')
+        .get<boolean>('useScanIndex') ?? true;
+}
+
+/**
+ * Enable the index (if the setting allows it) and register the watcher
+ * that invalidates statsCache, gitignoreCache and the index on change.
+ */
+export async function initScanIndex(context: vscode.ExtensionContext): Promise<void> {
+    const index = ScanIndex.getInstance();
+    const indexFile = vscode.Uri.joinPath(context.globalStorageUri, INDEX_FILE).fsPath;
+
+    const invalidate = (uri: vscode.Uri) => {
+        const p = uri.fsPath;
+        statsCache.delete(p);
+        statsCache.delete(path.dirname(p));
+        if (path.basename(p) === '.gitignore' || path.basename(p) === 'exclude') {
+            gitignoreCache.clear();
+        }
+        index.invalidate(p);
+    };
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+    context.subscriptions.push(
+        watcher,
+        watcher.onDidCreate(invalidate),
+        watcher.onDidChange(invalidate),
+        watcher.onDidDelete(invalidate),
+        vscode.workspace.onDidChangeConfiguration(async e => {
+            if (!e.affectsConfiguration('advanced-folder-structure-navigator.useScanIndex')) {
+                return;
+            }
+            if (indexEnabled()) {
+                await index.load(indexFile);
+            } else {
+                await index.disable();
+                await fs.promises.rm(indexFile, { force: true });
+            }
+        })
+    );
+
+    if (indexEnabled()) {
+        await index.load(indexFile);
+    }
+}
+
+/** Drop every indexed listing – the next generation rescans from disk */
+export async function clearScanIndexCommand(): Promise<void> {
+    const index = ScanIndex.getInstance();
+    const { directories } = index.getStats();
+    index.clear();
+    statsCache.clear();
+    gitignoreCache.clear();
+    await index.flush();
+    vscode.window.showInformationMessage(`🗑️ Scan index cleared (${directories} directories).`);
+}
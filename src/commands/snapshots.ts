@@ -0,0 +1,129 @@
+/* ==================================================================
+   SNAPSHOT & TIMELINE COMMANDS
+   Save the current structure under a name; compare any two snapshots
+   ================================================================== */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { StructureGenerator } from '../core/generator';
+import { compareTimeline } from '../core/timeline';
+import { getConfigFromSettings } from '../utils/config';
+import { isValidDirectory } from '../utils/fs-helpers';
+import { gitHead } from '../utils/git';
+import { listSnapshots, loadSnapshot, saveSnapshot, SNAPSHOTS_DIR } from '../utils/snapshot-store';
+import { formatTimelineMarkdown } from '../utils/timeline-formatting';
+import { pickWorkspaceFolder } from '../utils/workspace-folders';
+
+/* ==================================================================
+   SAVE SNAPSHOT
+   ================================================================== */
+
+export async function saveStructureSnapshotCommand(uri?: vscode.Uri): Promise<void> {
+    const target = uri ?? (await pickWorkspaceFolder('Folder to snapshot'))?.uri;
+    if (!target) {
+        return;
+    }
+    if (!(await isValidDirectory(target.fsPath))) {
+        vscode.window.showErrorMessage('Select a valid folder first.');
+        return;
+    }
+    // snapshots live with the workspace folder that contains the target
+    const workspaceRoot = vscode.workspace.getWorkspaceFolder(target)?.uri.fsPath ?? target.fsPath;
+
+    const commit = await gitHead(target.fsPath);
+    const name = await vscode.window.showInputBox({
+        prompt: 'Snapshot name (e.g. a milestone or release)',
+        value: commit ? `${path.basename(target.fsPath)} @ ${commit.slice(0, 8)}` : path.basename(target.fsPath),
+        validateInput: v => (v.trim() ? null : 'Enter a name')
+    });
+    if (!name) {
+        return;
+    }
+
+    // folder totals need sizes; depth stays as configured (hidden contents still count)
+    const cfg = await getConfigFromSettings(target);
+    cfg.includeSize = true;
+
+    const progressOpts = {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Taking structure snapshot…',
+        cancellable: true
+    };
+
+    await vscode.window.withProgress(progressOpts, async (progress, token) => {
+        try {
+            const generator = new StructureGenerator(
+                cfg,
+                (increment, message) => {
+                    progress.report({ message, increment });
+                },
+                () => token.isCancellationRequested
+            );
+            const root = await generator.scan(target.fsPath);
+            if (token.isCancellationRequested) {
+                return;
+            }
+
+            const info = await saveSnapshot(workspaceRoot, name.trim(), root, commit);
+            vscode.window.showInformationMessage(
+                `📸 Saved snapshot "${info.name}" to ${path.join(SNAPSHOTS_DIR, path.basename(info.file))}.`
+            );
+        } catch (e) {
+            vscode.window.showErrorMessage(
+                `❗ Snapshot failed: ${e instanceof Error ? e.message : String(e)}`
+            );
+        }
+    });
+}
+
+/* ==================================================================
+   TIMELINE
+   ================================================================== */
+
+export async function showStructureTimelineCommand(): Promise<void> {
+    const folder = await pickWorkspaceFolder('Folder whose snapshots to compare');
+    if (!folder) {
+        return;
+    }
+
+    try {
+        const snapshots = await listSnapshots(folder.uri.fsPath);
+        if (snapshots.length < 2) {
+            vscode.window.showInformationMessage(
+                `The timeline needs at least two snapshots in ${SNAPSHOTS_DIR} (found ${snapshots.length}).`
+            );
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            snapshots.map(s => ({
+                label: s.name,
+                description: s.createdAt.toLocaleString(),
+                detail: s.commit ? `commit ${s.commit.slice(0, 8)}` : undefined,
+                snapshot: s
+            })),
+            { canPickMany: true, placeHolder: 'Pick two snapshots to compare' }
+        );
+        if (!picked) {
+            return;
+        }
+        if (picked.length !== 2) {
+            vscode.window.showErrorMessage('Please pick **exactly two** snapshots.');
+            return;
+        }
+
+        // compare older → newer whatever the pick order
+        const [from, to] = picked
+            .map(p => p.snapshot)
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        const [before, after] = await Promise.all([loadSnapshot(from), loadSnapshot(to)]);
+        const report = formatTimelineMarkdown(snapshots, from, to, compareTimeline(before.root, after.root));
+
+        const doc = await vscode.workspace.openTextDocument({ content: report, language: 'markdown' });
+        await vscode.window.showTextDocument(doc);
+    } catch (e) {
+        vscode.window.showErrorMessage(
+            `❗ Timeline failed: ${e instanceof Error ? e.message : String(e)}`
+        );
+    }
+}
@@ -0,0 +1,97 @@
+/* ==================================================================
+   SYNC STRUCTURE BLOCK COMMANDS
+   Update (or check) <!-- structure:start --> blocks in markdown files
+   ================================================================== */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { syncStructureBlocks } from '../core/structure-block';
+import { getConfigFromSettings } from '../utils/config';
+import { StructureConfig } from '../models/config.interface';
+
+/* ==================================================================
+   RESOLVE THE MARKDOWN FILE
+   ================================================================== */
+
+async function pickMarkdownFile(uri?: vscode.Uri): Promise<vscode.Uri | undefined> {
+    if (uri?.fsPath.toLowerCase().endsWith('.md')) {
+        return uri;
+    }
+
+    // configured file in the workspace folders – pick one when several have it
+    const markerFile = vscode.workspace
+        .getConfiguration('advanced-folder-structure-navigator')
+        .get<string>('markerFile') ?? 'README.md';
+    const candidates: { label: string; description: string; uri: vscode.Uri }[] = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        const candidate = vscode.Uri.joinPath(folder.uri, markerFile);
+        try {
+            await vscode.workspace.fs.stat(candidate);
+            candidates.push({ label: folder.name, description: markerFile, uri: candidate });
+        } catch {
+            // not in this folder
+        }
+    }
+    if (candidates.length === 1) {
+        return candidates[0].uri;
+    }
+    if (candidates.length > 1) {
+        return (await vscode.window.showQuickPick(candidates, { placeHolder: `Which ${markerFile}?` }))?.uri;
+    }
+
+    const picked = await vscode.window.showOpenDialog({
+        canSelectFiles: true,
+        canSelectMany: false,
+        filters: { Markdown: ['md'] },
+        openLabel: 'Select markdown file with structure markers'
+    });
+    return picked?.[0];
+}
+
+/* ==================================================================
+   MAIN COMMAND
+   ================================================================== */
+
+export async function syncStructureBlockCommand(uri: vscode.Uri | undefined, checkOnly: boolean): Promise<void> {
+    const file = await pickMarkdownFile(uri);
+    if (!file) {
+        return;
+    }
+    await syncMarkdownFile(file.fsPath, checkOnly);
+}
+
+/**
+ * Regenerate (or only check) the structure blocks of one markdown file
+ * using `config` (e.g. the wizard's choices) or else the current settings
+ * as the base configuration.
+ */
+export async function syncMarkdownFile(file: string, checkOnly: boolean, config?: StructureConfig): Promise<void> {
+    const name = path.basename(file);
+    try {
+        const cfg = config ?? await getConfigFromSettings();
+        const templatesRoot = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(file))?.uri.fsPath;
+        const result = await syncStructureBlocks(file, cfg, { check: checkOnly, templatesRoot });
+
+        if (!result.blocks) {
+            vscode.window.showWarningMessage(
+                `No <!-- structure:start --> / <!-- structure:end --> markers found in ${name}.`
+            );
+        } else if (checkOnly) {
+            if (result.stale) {
+                vscode.window.showWarningMessage(`${result.stale} of ${result.blocks} structure block(s) in ${name} are out of date.`);
+            } else {
+                vscode.window.showInformationMessage(`Structure block(s) in ${name} are up to date.`);
+            }
+        } else {
+            vscode.window.showInformationMessage(
+                result.written
+                    ? `Updated ${result.stale} structure block(s) in ${name}.`
+                    : `Structure block(s) in ${name} were already up to date.`
+            );
+        }
+    } catch (e) {
+        vscode.window.showErrorMessage(
+            `❗ Structure block sync failed: ${e instanceof Error ? e.message : String(e)}`
+        );
+    }
+}
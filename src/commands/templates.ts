@@ -3,9 +3,10 @@
    ================================================================== */
 
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-import * as path from 'path';
+import { StructureConfig } from '../models/config.interface';
 import { getConfigFromSettings, loadWorkspaceTemplates, saveWorkspaceTemplate } from '../utils/config';
+import { writeTemplates } from '../utils/template-store';
+import { pickWorkspaceFolder } from '../utils/workspace-folders';
 
 /* ==================================================================
    MAIN TEMPLATE MANAGER
@@ -46,17 +47,19 @@ export async function manageTemplatesCommand(): Promise<void> {
    ================================================================== */
 
 async function listTemplates(): Promise<void> {
-    const wsTemplates = await loadWorkspaceTemplates();
+    const byFolder = (await loadWorkspaceTemplates()).filter(f => Object.keys(f.templates).length);
 
     let txt = '# 📚 Available templates\n\n';
 
-    if (Object.keys(wsTemplates).length) {
-        txt += '## Workspace templates\n';
-        for (const [n, cfg] of Object.entries(wsTemplates)) {
+    // one section per workspace folder that has templates
+    for (const { folder, templates } of byFolder) {
+        txt += `## ${folder.name}\n`;
+        for (const [n, cfg] of Object.entries(templates)) {
             txt += `- **${n}** (format: ${cfg.outputFormat ?? 'tree'}, depth: ${cfg.maxDepth ?? '∞'})\n`;
         }
         txt += '\n';
-    } else {
+    }
+    if (!byFolder.length) {
         txt += 'No workspace templates found.\n';
     }
 
@@ -79,9 +82,32 @@ async function saveCurrentConfigAsTemplate(): Promise<void> {
     if (!name) {
         return;
     }
+    const folder = await pickWorkspaceFolder(`Save template ${name} in…`);
+    if (!folder) {
+        return;
+    }
 
     const cfg = await getConfigFromSettings();
-    await saveWorkspaceTemplate(name, cfg);
+    await saveWorkspaceTemplate(folder, name, cfg);
+}
+
+/** Pick one template across all workspace folders (labelled with their folder when there are several) */
+async function pickTemplate(placeHolder: string): Promise<
+    { folder: vscode.WorkspaceFolder; name: string; templates: Record<string, StructureConfig> } | undefined
+> {
+    const byFolder = await loadWorkspaceTemplates();
+    const multiRoot = byFolder.length > 1;
+    const choice = await vscode.window.showQuickPick(
+        byFolder.flatMap(({ folder, templates }) => Object.keys(templates).map(name => ({
+            label: name,
+            description: multiRoot ? folder.name : undefined,
+            detail: templates[name].outputFormat,
+            folder,
+            templates
+        }))),
+        { placeHolder }
+    );
+    return choice && { folder: choice.folder, name: choice.label, templates: choice.templates };
 }
 
 /* ==================================================================
@@ -89,22 +115,18 @@ async function saveCurrentConfigAsTemplate(): Promise<void> {
    ================================================================== */
 
 async function loadTemplate(): Promise<void> {
-    const wsTemplates = await loadWorkspaceTemplates();
-    const choice = await vscode.window.showQuickPick(
-        Object.keys(wsTemplates).map(k => ({ label: k, detail: wsTemplates[k].outputFormat })),
-        { placeHolder: 'Select a template to load' }
-    );
+    const choice = await pickTemplate('Select a template to load');
     if (!choice) {
         return;
     }
 
-    const cfg = wsTemplates[choice.label];
+    const cfg = choice.templates[choice.name];
     const ws = vscode.workspace.getConfiguration('advanced-folder-structure-navigator');
 
     for (const [k, v] of Object.entries(cfg)) {
         await ws.update(k, v, vscode.ConfigurationTarget.Workspace);
     }
-    vscode.window.showInformationMessage(`Template **${choice.label}** loaded.`);
+    vscode.window.showInformationMessage(`Template **${choice.name}** loaded.`);
 }
 
 /* ==================================================================
@@ -112,17 +134,13 @@ async function loadTemplate(): Promise<void> {
    ================================================================== */
 
 async function deleteTemplate(): Promise<void> {
-    const wsTemplates = await loadWorkspaceTemplates();
-    const choice = await vscode.window.showQuickPick(
-        Object.keys(wsTemplates),
-        { placeHolder: 'Select a template to delete' }
-    );
+    const choice = await pickTemplate('Select a template to delete');
     if (!choice) {
         return;
     }
 
     const confirm = await vscode.window.showWarningMessage(
-        `Delete template **${choice}**?`,
+        `Delete template **${choice.name}** from ${choice.folder.name}?`,
         { modal: true },
         'Delete'
     );
@@ -130,11 +148,8 @@ async function deleteTemplate(): Promise<void> {
         return;
     }
 
-    delete wsTemplates[choice];
-    const wsFolders = vscode.workspace.workspaceFolders;
-    if (wsFolders?.length) {
-        const file = path.join(wsFolders[0].uri.fsPath, '.vscode', 'folder-navigator-templates.json');
-        await fs.promises.writeFile(file, JSON.stringify(wsTemplates, null, 2), 'utf8');
-        vscode.window.showInformationMessage(`Template **${choice}** deleted.`);
-    }
+    // only the folder the template came from is rewritten
+    delete choice.templates[choice.name];
+    await writeTemplates(choice.folder.uri.fsPath, choice.templates);
+    vscode.window.showInformationMessage(`Template **${choice.name}** deleted.`);
 }
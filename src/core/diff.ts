@@ -0,0 +1,323 @@
+/* ==================================================================
+   STRUCTURE DIFF ENGINE (NO VSCODE DEPENDENCIES)
+   Compares two FileEntry trees path by path
+   ================================================================== */
+
+import { FileEntry } from '../models/file-entry.interface';
+
+/* ==================================================================
+   DIFF MODEL
+   ================================================================== */
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged' | 'moved' | 'renamed';
+export type DiffChange = 'type' | 'size' | 'modified';
+
+export interface DiffSide {
+    type: FileEntry['type'];
+    size?: number;
+    modified?: Date;
+}
+
+export interface DiffNode {
+    name: string;
+    path: string;                   // relative to the compared roots, '/'-separated
+    status: DiffStatus;
+    changes?: DiffChange[];         // only for status 'changed'
+    before?: DiffSide;              // left-hand entry (absent when added)
+    after?: DiffSide;               // right-hand entry (absent when removed)
+    movedFrom?: string;             // set on the destination of a move/rename
+    movedTo?: string;               // set on the source of a move/rename
+    hasChanges: boolean;            // true if this node or any descendant differs
+    children?: DiffNode[];
+}
+
+export interface DiffMove {
+    kind: 'moved' | 'renamed';
+    from: string;
+    to: string;
+    size?: number;
+}
+
+export interface DiffSummary {
+    added: number;
+    removed: number;
+    changed: number;
+    moved: number;
+    renamed: number;
+    unchanged: number;
+}
+
+export interface StructureDiff {
+    left: string;
+    right: string;
+    root: DiffNode;
+    moves: DiffMove[];
+    summary: DiffSummary;
+}
+
+export interface DiffOptions {
+    compareModified?: boolean;      // treat differing mtimes as a change (default: true)
+    detectMoves?: boolean;          // pair removed/added files into moves & renames (default: true)
+}
+
+/* ==================================================================
+   MAIN DIFF FUNCTION
+   ================================================================== */
+
+export function diffStructures(left: FileEntry, right: FileEntry, opts: DiffOptions = {}): StructureDiff {
+    const compareModified = opts.compareModified ?? true;
+
+    const root: DiffNode = {
+        name: right.name,
+        path: '',
+        status: 'unchanged',
+        before: side(left),
+        after: side(right),
+        hasChanges: false,
+        children: diffChildren(left.children ?? [], right.children ?? [], '', compareModified)
+    };
+    root.hasChanges = root.children!.some(c => c.hasChanges);
+
+    const moves = (opts.detectMoves ?? true) ? detectMoves(root) : [];
+    if (moves.length) {
+        refreshHasChanges(root);
+    }
+
+    return {
+        left: left.path,
+        right: right.path,
+        root,
+        moves,
+        summary: summarize(root)
+    };
+}
+
+/* -----------------------------------------------------------------
+   MERGE TWO CHILD LISTS BY NAME
+   ----------------------------------------------------------------- */
+function diffChildren(
+    left: FileEntry[],
+    right: FileEntry[],
+    parentPath: string,
+    compareModified: boolean
+): DiffNode[] {
+    const byName = new Map<string, { l?: FileEntry; r?: FileEntry }>();
+    for (const l of left) {
+        byName.set(l.name, { l });
+    }
+    for (const r of right) {
+        const pair = byName.get(r.name);
+        if (pair) {
+            pair.r = r;
+        } else {
+            byName.set(r.name, { r });
+        }
+    }
+
+    const out: DiffNode[] = [];
+    for (const [name, { l, r }] of byName) {
+        const relPath = parentPath ? `${parentPath}/${name}` : name;
+
+        if (l && !r) {
+            out.push(oneSided(l, relPath, 'removed'));
+        } else if (r && !l) {
+            out.push(oneSided(r, relPath, 'added'));
+        } else {
+            out.push(diffPair(l!, r!, relPath, compareModified));
+        }
+    }
+
+    // deterministic order: directories first, then by name
+    out.sort((a, b) => {
+        const aDir = (a.after ?? a.before)!.type === 'directory';
+        const bDir = (b.after ?? b.before)!.type === 'directory';
+        if (aDir !== bDir) {
+            return aDir ? -1 : 1;
+        }
+        return a.name.localeCompare(b.name, undefined, { numeric: true });
+    });
+    return out;
+}
+
+function diffPair(l: FileEntry, r: FileEntry, relPath: string, compareModified: boolean): DiffNode {
+    const node: DiffNode = {
+        name: r.name,
+        path: relPath,
+        status: 'unchanged',
+        before: side(l),
+        after: side(r),
+        hasChanges: false
+    };
+
+    // type change → the old subtree is gone, the new one appears
+    if (l.type !== r.type) {
+        node.status = 'changed';
+        node.changes = ['type'];
+        node.hasChanges = true;
+        const removed = (l.children ?? []).map(c => oneSided(c, `${relPath}/${c.name}`, 'removed'));
+        const added = (r.children ?? []).map(c => oneSided(c, `${relPath}/${c.name}`, 'added'));
+        if (removed.length || added.length) {
+            node.children = [...removed, ...added];
+        }
+        return node;
+    }
+
+    if (l.type === 'directory') {
+        node.children = diffChildren(l.children ?? [], r.children ?? [], relPath, compareModified);
+        node.hasChanges = node.children.some(c => c.hasChanges);
+        return node;
+    }
+
+    // a directory's own size/mtime only mirrors its contents, so files only
+    const changes: DiffChange[] = [];
+    if (l.size !== undefined && r.size !== undefined && l.size !== r.size) {
+        changes.push('size');
+    }
+    if (compareModified && l.modified && r.modified && l.modified.getTime() !== r.modified.getTime()) {
+        changes.push('modified');
+    }
+    if (changes.length) {
+        node.status = 'changed';
+        node.changes = changes;
+        node.hasChanges = true;
+    }
+    return node;
+}
+
+function oneSided(entry: FileEntry, relPath: string, status: 'added' | 'removed'): DiffNode {
+    const node: DiffNode = {
+        name: entry.name,
+        path: relPath,
+        status,
+        hasChanges: true
+    };
+    node[status === 'added' ? 'after' : 'before'] = side(entry);
+    if (entry.children?.length) {
+        node.children = entry.children.map(c => oneSided(c, `${relPath}/${c.name}`, status));
+    }
+    return node;
+}
+
+function side(entry: FileEntry): DiffSide {
+    return { type: entry.type, size: entry.size, modified: entry.modified };
+}
+
+/* -----------------------------------------------------------------
+   MOVE & RENAME DETECTION
+   A removed file and an added file are paired when:
+   • moved   – same name and size, different parent folder
+   • renamed – same parent folder and size, different name
+   Only unambiguous (1:1) candidates are paired.
+   ----------------------------------------------------------------- */
+function detectMoves(root: DiffNode): DiffMove[] {
+    const removed: DiffNode[] = [];
+    const added: DiffNode[] = [];
+    walkDiff(root, n => {
+        if (n.status === 'removed' && n.before?.type === 'file' && n.before.size !== undefined) {
+            removed.push(n);
+        } else if (n.status === 'added' && n.after?.type === 'file' && n.after.size !== undefined) {
+            added.push(n);
+        }
+    });
+
+    const moves: DiffMove[] = [];
+    const used = new Set<DiffNode>();
+
+    /**
+     * Pair within buckets: `key` groups the nodes that may match (computed
+     * once per side, so big renames stay linear), `accept` checks the rest.
+     */
+    const pair = (
+        kind: 'moved' | 'renamed',
+        key: (node: DiffNode, size: number) => string,
+        accept: (from: DiffNode, to: DiffNode) => boolean
+    ) => {
+        const bucket = (nodes: DiffNode[], sizeOf: (n: DiffNode) => number) => {
+            const map = new Map<string, DiffNode[]>();
+            for (const n of nodes) {
+                const k = key(n, sizeOf(n));
+                const list = map.get(k);
+                if (list) {
+                    list.push(n);
+                } else {
+                    map.set(k, [n]);
+                }
+            }
+            return map;
+        };
+        const removedByKey = bucket(removed.filter(n => !used.has(n)), n => n.before!.size!);
+        const addedByKey = bucket(added.filter(n => !used.has(n)), n => n.after!.size!);
+
+        for (const from of removed) {
+            if (used.has(from)) {
+                continue;
+            }
+            const k = key(from, from.before!.size!);
+            const candidates = (addedByKey.get(k) ?? []).filter(to => !used.has(to) && accept(from, to));
+            if (candidates.length !== 1) {
+                continue;
+            }
+            // the candidate must not have a better match on the removed side either
+            const to = candidates[0];
+            const rivals = (removedByKey.get(k) ?? []).filter(r => !used.has(r) && accept(r, to));
+            if (rivals.length !== 1) {
+                continue;
+            }
+            used.add(from);
+            used.add(to);
+            from.status = kind;
+            from.movedTo = to.path;
+            to.status = kind;
+            to.movedFrom = from.path;
+            moves.push({ kind, from: from.path, to: to.path, size: to.after!.size });
+        }
+    };
+
+    // moved: same name and size, different parent folder
+    pair('moved',
+        (n, size) => `${size}\0${n.name}`,
+        (from, to) => parentOf(from.path) !== parentOf(to.path)
+    );
+    // renamed: same parent folder and size, different name – empty files
+    // are too common to pair by size alone
+    pair('renamed',
+        (n, size) => `${size}\0${parentOf(n.path)}`,
+        (from, to) => from.name !== to.name && from.before!.size! > 0
+    );
+
+    return moves;
+}
+
+function parentOf(relPath: string): string {
+    const i = relPath.lastIndexOf('/');
+    return i === -1 ? '' : relPath.slice(0, i);
+}
+
+/* -----------------------------------------------------------------
+   SUMMARY & HELPERS
+   ----------------------------------------------------------------- */
+function summarize(root: DiffNode): DiffSummary {
+    const summary: DiffSummary = { added: 0, removed: 0, changed: 0, moved: 0, renamed: 0, unchanged: 0 };
+    walkDiff(root, n => {
+        if (n === root) {
+            return;
+        }
+        // moves and renames are counted once, on their destination
+        if ((n.status === 'moved' || n.status === 'renamed') && n.movedTo) {
+            return;
+        }
+        summary[n.status]++;
+    });
+    return summary;
+}
+
+function refreshHasChanges(node: DiffNode): boolean {
+    const childChanged = (node.children ?? []).map(refreshHasChanges).some(Boolean);
+    node.hasChanges = node.status !== 'unchanged' || childChanged;
+    return node.hasChanges;
+}
+
+export function walkDiff(node: DiffNode, visit: (n: DiffNode) => void): void {
+    visit(node);
+    node.children?.forEach(c => walkDiff(c, visit));
+}
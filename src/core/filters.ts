@@ -0,0 +1,178 @@
+/* ==================================================================
+   ENTRY FILTERS (NO VSCODE DEPENDENCIES)
+   Which directory items make it into a structure – shared by the
+   StructureGenerator and the StreamingGenerator so both apply the
+   same rules in the same order
+   ================================================================== */
+
+import * as path from 'path';
+import { Minimatch } from 'minimatch';
+import { StructureConfig } from '../models/config.interface';
+import { DirItem, IgnoreRule } from '../models/file-entry.interface';
+import { StructureSource } from '../sources/structure-source';
+import { matchesPattern } from '../utils/fs-helpers';
+import { parseIgnoreFile, isPathIgnored } from '../utils/ignore-rules';
+
+/** Per-folder rules file – gitignore syntax, cascades from the scanned root down */
+export const STRUCTURE_IGNORE_FILE = '.structureignore';
+
+/** A compiled glob (the CommonJS typings only expose Minimatch as a value) */
+export type Glob = InstanceType<typeof Minimatch>;
+
+/**
+ * Compile root-relative globs (`src/**`, `docs/*.{md,mdx}`, `lib/[a-c]*.ts`)
+ * – braces, character classes and globstars included. A leading `./` or `/`
+ * and a trailing `/` are dropped.
+ */
+export function compileGlobs(patterns: string[]): Glob[] {
+    return patterns
+        .map(p => p.trim().replace(/\\/g, '/').replace(/^\.?\/+/, '').replace(/\/+$/, ''))
+        .filter(Boolean)
+        .map(p => new Minimatch(p, { dot: true }));
+}
+
+/** Split a comma-separated glob list – commas inside `{a,b}` belong to the glob */
+export function splitGlobs(list: string): string[] {
+    const globs: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of list) {
+        if (ch === ',' && depth === 0) {
+            globs.push(current);
+            current = '';
+            continue;
+        }
+        depth += ch === '{' ? 1 : ch === '}' && depth > 0 ? -1 : 0;
+        current += ch;
+    }
+    globs.push(current);
+    return globs.map(g => g.trim()).filter(Boolean);
+}
+
+/**
+ * The filters of one scan. Globs and `.structureignore` files are relative
+ * to `root`, also when only a subtree below it is walked (worker threads).
+ * Order: hidden → excludeFolders → extensionFilter → excludePatterns →
+ * includePatterns → editorExcludes → .gitignore → .structureignore.
+ */
+export class EntryFilter {
+    private readonly includes: Glob[] | null;
+    private readonly editorExcludes: Glob[];
+    /** root-relative folder → matched by an include pattern (itself or an ancestor) */
+    private readonly includedDirs = new Map<string, boolean>();
+    /** folder → cascaded `.structureignore` rules */
+    private readonly structureIgnores = new Map<string, Promise<IgnoreRule[]>>();
+
+    constructor(
+        private readonly cfg: Required<StructureConfig>,
+        private readonly source: StructureSource,
+        private readonly root: string
+    ) {
+        this.includes = cfg.includePatterns?.length ? compileGlobs(cfg.includePatterns) : null;
+        this.editorExcludes = compileGlobs(cfg.editorExcludes ?? []);
+    }
+
+    /** The items of `dir` that pass every filter (in their original order) */
+    async apply(items: DirItem[], dir: string): Promise<DirItem[]> {
+        const cfg = this.cfg;
+
+        // ---- hidden files -------------------------------------------------
+        let out = items.filter(i => cfg.includeHidden || !i.name.startsWith('.'));
+
+        // ---- folder exclusion list ----------------------------------------
+        if (cfg.excludeFolders) {
+            out = out.filter(i => !(i.isDirectory() && cfg.excludeFolders!.includes(i.name)));
+        }
+
+        // ---- extension whitelist -------------------------------------------
+        if (cfg.extensionFilter && out.some(i => i.isFile())) {
+            out = out.filter(i =>
+                i.isFile()
+                    ? cfg.extensionFilter!.includes(path.extname(i.name).slice(1).toLowerCase())
+                    : true
+            );
+        }
+
+        // ---- glob-pattern exclusions ---------------------------------------
+        if (cfg.excludePatterns) {
+            out = out.filter(i => !cfg.excludePatterns!.some(p => matchesPattern(path.join(dir, i.name), p)));
+        }
+
+        // ---- include patterns (folders stay while they can hold a match) ----
+        if (this.includes) {
+            const relDir = this.relative(dir);
+            if (!this.isIncludedDir(relDir)) {
+                out = out.filter(i => {
+                    const rel = relDir ? `${relDir}/${i.name}` : i.name;
+                    return this.includes!.some(m => m.match(rel) || (i.isDirectory() && m.match(rel, true)));
+                });
+            }
+        }
+
+        // ---- files.exclude / search.exclude --------------------------------
+        if (this.editorExcludes.length) {
+            const relDir = this.relative(dir);
+            out = out.filter(i => {
+                const rel = relDir ? `${relDir}/${i.name}` : i.name;
+                return !this.editorExcludes.some(m => m.match(rel));
+            });
+        }
+
+        // ---- .gitignore handling -------------------------------------------
+        if (cfg.respectGitignore) {
+            const rules = await this.source.ignoreRules(dir);
+            if (rules) {
+                out = out.filter(i => !rules.isIgnored(path.join(dir, i.name), i.isDirectory()));
+            }
+        }
+
+        // ---- .structureignore ----------------------------------------------
+        if (cfg.respectStructureIgnore) {
+            const rules = await this.structureIgnoreRules(dir);
+            if (rules.length) {
+                out = out.filter(i => !isPathIgnored(rules, path.join(dir, i.name), i.isDirectory()));
+            }
+        }
+
+        return out;
+    }
+
+    /** `/`-separated path of `p` below the root ('' for the root itself) */
+    private relative(p: string): string {
+        return path.relative(this.root, p).split(path.sep).join('/');
+    }
+
+    /** True when an include pattern matches the folder itself or one of its parents */
+    private isIncludedDir(rel: string): boolean {
+        if (!rel) {
+            return false;
+        }
+        let included = this.includedDirs.get(rel);
+        if (included === undefined) {
+            const slash = rel.lastIndexOf('/');
+            included = this.includes!.some(m => m.match(rel))
+                || (slash >= 0 && this.isIncludedDir(rel.slice(0, slash)));
+            this.includedDirs.set(rel, included);
+        }
+        return included;
+    }
+
+    /** `.structureignore` files from the root down to `dir` (lowest → highest precedence) */
+    private structureIgnoreRules(dir: string): Promise<IgnoreRule[]> {
+        let rules = this.structureIgnores.get(dir);
+        if (!rules) {
+            rules = this.loadStructureIgnore(dir);
+            this.structureIgnores.set(dir, rules);
+        }
+        return rules;
+    }
+
+    private async loadStructureIgnore(dir: string): Promise<IgnoreRule[]> {
+        const rel = path.relative(this.root, dir);
+        const inherited = rel && !rel.startsWith('..') && !path.isAbsolute(rel)
+            ? await this.structureIgnoreRules(path.dirname(dir))
+            : [];
+        const own = parseIgnoreFile(await this.source.readText(path.join(dir, STRUCTURE_IGNORE_FILE)), dir);
+        return own.length ? [...inherited, ...own] : inherited;
+    }
+}
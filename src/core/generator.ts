@@ -1,14 +1,25 @@
 /* ==================================================================
    STRUCTURE GENERATOR (CORE LOGIC - NO VSCODE DEPENDENCIES)
-   Pure filesystem logic that can run in Worker threads
+   Pure tree-walking logic that can run in Worker threads – folders
+   come from a StructureSource (the local filesystem by default)
    ================================================================== */
 
-import * as fs from 'fs';
 import * as path from 'path';
-import { FileEntry } from '../models/file-entry.interface';
+import { DirItem, FileEntry, ScanError, TruncationReason } from '../models/file-entry.interface';
 import { StructureConfig } from '../models/config.interface';
-import { getGitignoreRules, getStats, permissionsString, matchesPattern } from '../utils/fs-helpers';
-import { formatTree, formatJSON, formatMarkdown, formatXML, formatCSV } from '../utils/formatting';
+import { SharedBudget } from '../models/worker.interface';
+import { describeReadError, inodeKey, permissionsString, VANISHED } from '../utils/fs-helpers';
+import {
+    formatTree, formatJSON, formatMarkdown, formatXML, formatCSV, formatDiskUsage, formatMermaid, formatDot
+} from '../utils/formatting';
+import { formatHTML } from '../utils/html-formatter';
+import { formatTOML, formatYAML } from '../utils/serializers';
+import { PluginRegistry } from './plugin-registry';
+import { annotateGit } from './git-info';
+import { EntryFilter } from './filters';
+import { EntryQuery, parseQuery } from './query';
+import { SourceStats, StructureSource } from '../sources/structure-source';
+import { FileSystemSource } from '../sources/fs-source';
 
 /* ==================================================================
    PROGRESS AND CANCELLATION CALLBACKS (replaces vscode types)
@@ -17,6 +28,37 @@ import { formatTree, formatJSON, formatMarkdown, formatXML, formatCSV } from '..
 export type ProgressCallback = (increment: number, message: string) => void;
 export type CancellationCheck = () => boolean;
 
+/**
+ * Builds the subtree of one top-level directory somewhere else (e.g. on a
+ * worker thread). `entry.children` is used as-is; `itemsProcessed` is added
+ * to this generator's count.
+ */
+export type SubtreeBuilder = (dir: string, depth: number) => Promise<{ entry: FileEntry; itemsProcessed: number }>;
+
+export interface GeneratorOptions {
+    /**
+     * On cancellation, stop and return what was scanned so far (directories
+     * left incomplete are marked `truncated`) instead of throwing.
+     */
+    partialOnCancel?: boolean;
+    /** Where folders are read from (default: the local filesystem) */
+    source?: StructureSource;
+    /**
+     * maxItems / maxDurationMs shared with the other generators of a pooled
+     * scan – entries are counted into it and its deadline replaces this
+     * generator's own.
+     */
+    budget?: SharedBudget;
+}
+
+/** Totals of a folder hidden by maxDepth (see StructureGenerator.measure) */
+interface Measurement {
+    size: number;
+    fileCount: number;
+    error?: ScanError;
+    truncated?: boolean;
+}
+
 /* ==================================================================
    STRUCTURE GENERATOR CLASS
    ================================================================== */
@@ -25,13 +67,29 @@ export class StructureGenerator {
     private readonly cfg: Required<StructureConfig>;
     private readonly onProgress?: ProgressCallback;
     private readonly isCancelled?: CancellationCheck;
+    private readonly opts: GeneratorOptions;
+    private readonly source: StructureSource;
+    /** filterExpression, parsed once (throws QueryError when invalid) */
+    private readonly query: EntryQuery | null;
 
     private processed = 0;
+    /** Entries walked below maxDepth for totals only – not in the tree, but they count against maxItems */
+    private measured = 0;
+    private stopReason: TruncationReason | null = null;
+    /** maxDurationMs: when the current scan has to stop (0 = never) */
+    private deadline = 0;
+    /** Inodes of the directories on the current path (followSymlinks cycle detection) */
+    private readonly ancestors = new Set<string>();
+    /** Filters of the current scan (globs and .structureignore are relative to its root) */
+    private filter: EntryFilter | null = null;
+    /** Root of the current scan – query paths are relative to it */
+    private scanRoot = '';
 
     constructor(
         cfg: StructureConfig,
         onProgress?: ProgressCallback,
-        isCancelled?: CancellationCheck
+        isCancelled?: CancellationCheck,
+        opts: GeneratorOptions = {}
     ) {
         // Fill every optional flag with a concrete default
         this.cfg = {
@@ -39,15 +97,28 @@ export class StructureGenerator {
             extensionFilter: cfg.extensionFilter ?? null,
             excludeFolders: cfg.excludeFolders ?? null,
             excludePatterns: cfg.excludePatterns ?? null,
+            includePatterns: cfg.includePatterns ?? null,
+            editorExcludes: cfg.editorExcludes ?? null,
+            filterExpression: cfg.filterExpression ?? null,
             maxDepth: cfg.maxDepth ?? 0,               // 0 = unlimited
             respectGitignore: cfg.respectGitignore ?? true,
+            respectStructureIgnore: cfg.respectStructureIgnore ?? true,
+            followSymlinks: cfg.followSymlinks ?? false,
+            maxItems: cfg.maxItems ?? 0,
+            maxDurationMs: cfg.maxDurationMs ?? 0,
+            maxEntriesPerDirectory: cfg.maxEntriesPerDirectory ?? 0,
             includeSize: cfg.includeSize ?? false,
             includePermissions: cfg.includePermissions ?? false,
             includeModifiedDate: cfg.includeModifiedDate ?? false,
+            sizeMode: cfg.sizeMode ?? 'apparent',
+            includeGitInfo: cfg.includeGitInfo ?? false,
+            gitChurn: cfg.gitChurn ?? false,
             sortBy: cfg.sortBy ?? 'name',
             outputFormat: cfg.outputFormat ?? 'tree',
+            diskUsageTopN: cfg.diskUsageTopN ?? 20,
             useWorker: cfg.useWorker ?? false,
             useStreaming: cfg.useStreaming ?? false,
+            workerPoolSize: cfg.workerPoolSize ?? 1,
             iconStyle: cfg.iconStyle ?? 'emoji',
             customIcons: cfg.customIcons ?? {},
             compressLargeDirs: cfg.compressLargeDirs ?? true,
@@ -58,36 +129,132 @@ export class StructureGenerator {
 
         this.onProgress = onProgress;
         this.isCancelled = isCancelled;
+        this.opts = opts;
+        this.source = opts.source ?? FileSystemSource.getInstance();
+        this.query = this.cfg.filterExpression?.trim() ? parseQuery(this.cfg.filterExpression) : null;
+    }
+
+    /** Effective configuration (every option filled with its default) */
+    get config(): Required<StructureConfig> {
+        return this.cfg;
+    }
+
+    /** Number of entries visited by the last scan */
+    get itemsProcessed(): number {
+        return this.processed;
+    }
+
+    /** Set when the last scan stopped early and returned a partial tree */
+    get truncation(): TruncationReason | null {
+        return this.stopReason;
     }
 
     /** Public entry – returns **already formatted** text (tree / json / …) */
-    async generate(rootPath: string): Promise<string> {
+    async generate(rootPath: string, buildSubtree?: SubtreeBuilder): Promise<string> {
         // Build the in-memory tree (OPTIMIZATION: removed countItems double-scan)
         const start = Date.now();
-        const root = await this.buildTree(rootPath, 0);
-        const generationTime = Date.now() - start;
+        const root = await this.scan(rootPath, buildSubtree);
+        return this.render(root, Date.now() - start);
+    }
+
+    /**
+     * Format a scanned tree (e.g. several workspace roots combined) with the
+     * selected outputFormat, then let plugins post-process the text.
+     */
+    render(root: FileEntry, generationTime = 0, itemsProcessed = this.processed): string {
+        return PluginRegistry.getInstance().formatOutput(
+            this.formatOutput(root, generationTime, itemsProcessed),
+            this.cfg.outputFormat
+        );
+    }
 
-        // Format the result according to the selected outputFormat
-        return this.formatOutput(root, generationTime);
+    /**
+     * Public entry – returns the filtered, sorted `FileEntry` tree (no formatting).
+     * With `buildSubtree`, top-level directories are delegated to it and built
+     * concurrently; their results are merged back in this generator's order.
+     */
+    async scan(rootPath: string, buildSubtree?: SubtreeBuilder): Promise<FileEntry> {
+        this.start(rootPath);
+        const root = await this.buildTree(rootPath, 0, buildSubtree);
+        root.name = this.source.rootName(rootPath);
+        if (this.stopReason) {
+            root.truncation = this.stopReason;
+        }
+        // one repository read for the whole tree, after worker subtrees are merged
+        if (this.cfg.includeGitInfo || this.cfg.gitChurn) {
+            await annotateGit(root, rootPath, {
+                info: this.cfg.includeGitInfo,
+                churn: this.cfg.gitChurn,
+                revision: this.source.revision
+            });
+        }
+        return PluginRegistry.getInstance().processEntry(root);
+    }
+
+    /**
+     * Build the subtree below `dir` as if it sat at `depth` in a full scan of
+     * `root` (used by workers serving a SubtreeBuilder – no plugin hook on `dir`).
+     * Budgets apply to the subtree on its own unless a shared `budget` was
+     * passed in; a stopped subtree carries `truncation` so the merging
+     * generator learns why.
+     */
+    async scanSubtree(dir: string, depth: number, root: string): Promise<FileEntry> {
+        this.start(root);
+        const entry = await this.buildTree(dir, depth);
+        if (this.stopReason) {
+            entry.truncation = this.stopReason;
+        }
+        return entry;
+    }
+
+    /** Reset the per-scan state */
+    private start(root: string): void {
+        this.processed = 0;
+        this.measured = 0;
+        this.stopReason = null;
+        this.deadline = this.opts.budget?.deadline ?? (this.cfg.maxDurationMs ? Date.now() + this.cfg.maxDurationMs : 0);
+        this.ancestors.clear();
+        this.filter = new EntryFilter(this.cfg, this.source, root);
+        this.scanRoot = root;
     }
 
     /* -----------------------------------------------------------------
        BUILD THE TREE (recursive)
        ----------------------------------------------------------------- */
-    private async buildTree(dir: string, depth: number): Promise<FileEntry> {
+    private async buildTree(dir: string, depth: number, buildSubtree?: SubtreeBuilder): Promise<FileEntry> {
         // cancellation check
-        if (this.isCancelled && this.isCancelled()) {
-            throw new Error('Operation cancelled');
+        if (this.shouldStop()) {
+            return {
+                name: path.basename(dir) || dir,
+                path: dir,
+                type: 'directory',
+                children: [],
+                truncated: true
+            };
         }
 
         // depth limit (0 = unlimited)
         if (this.cfg.maxDepth && depth >= this.cfg.maxDepth) {
-            return {
+            const collapsed: FileEntry = {
                 name: path.basename(dir) || dir,
                 path: dir,
                 type: 'directory',
                 children: [] // collapsed
             };
+            // hidden contents still count towards sizes
+            if (this.aggregateSizes) {
+                const { size, fileCount, error, truncated } = await this.measure(dir);
+                Object.assign(collapsed, { size, fileCount });
+                if (truncated) {
+                    collapsed.truncated = true;
+                }
+                if (error) {
+                    collapsed.error = error.path === dir
+                        ? error.error
+                        : `${error.error} in ${path.relative(dir, error.path).split(path.sep).join('/')} (partial totals)`;
+                }
+            }
+            return collapsed;
         }
 
         const entry: FileEntry = {
@@ -97,17 +264,24 @@ export class StructureGenerator {
             children: []
         };
 
+        // remember this folder while its contents are scanned (see followLink)
+        const dirStats = this.cfg.followSymlinks || this.needsStats ? await this.source.stat(dir) : null;
+        const dirKey = this.cfg.followSymlinks && dirStats ? inodeKey(dirStats) : null;
+        if (dirKey) {
+            this.ancestors.add(dirKey);
+        }
+
         // -----------------------------------------------------------------
         // OPTIONAL METADATA (size / permissions / modified)
         // -----------------------------------------------------------------
-        if (this.cfg.includeSize || this.cfg.includePermissions || this.cfg.includeModifiedDate) {
-            const stats = await getStats(dir);
+        if (this.needsStats) {
+            const stats = dirStats;
             if (stats) {
-                entry.size = stats.size;
-                if (this.cfg.includePermissions) {
+                entry.size = this.sizeOf(stats);
+                if (this.cfg.includePermissions && stats.mode !== undefined) {
                     entry.permissions = permissionsString(stats.mode);
                 }
-                if (this.cfg.includeModifiedDate) {
+                if (this.wantsModified && stats.mtime) {
                     entry.modified = stats.mtime;
                 }
             }
@@ -116,15 +290,39 @@ export class StructureGenerator {
         // -----------------------------------------------------------------
         // READ DIR CONTENTS + APPLY ALL FILTERS
         // -----------------------------------------------------------------
-        const rawItems = await fs.promises.readdir(dir, { withFileTypes: true });
+        let rawItems: DirItem[];
+        try {
+            rawItems = await this.source.readDir(dir);
+        } catch (e) {
+            // the scanned folder itself must be readable – below it, failures are recorded and skipped
+            if (dir === this.scanRoot) {
+                throw e;
+            }
+            entry.error = describeReadError(e);
+            rawItems = [];
+        }
         const filtered = await this.filterAndSort(rawItems, dir);
+        // other sort orders need the scanned entries (folder sizes), so their cap waits for the scan
+        const limit = this.cfg.maxEntriesPerDirectory;
+        if (limit && filtered.length > limit && this.cfg.sortBy === 'name') {
+            entry.omitted = filtered.length - limit;
+            filtered.length = limit;
+        }
+        const delegated: Promise<void>[] = [];
+        /** per child: the query matched the entry itself (not just something inside) */
+        let matched: boolean[] = [];
 
         for (let i = 0; i < filtered.length; i++) {
+            if (this.shouldStop()) {
+                entry.truncated = true;
+                break;
+            }
             const item = filtered[i];
             const itemPath = path.join(dir, item.name);
 
             // progress update
             this.processed++;
+            this.countShared();
             if (this.onProgress) {
                 this.onProgress(1, `Processing ${item.name}`);
             }
@@ -142,26 +340,96 @@ export class StructureGenerator {
                         : 'file'
             };
 
-            // per-item metadata (if requested)
-            if (this.cfg.includeSize || this.cfg.includePermissions || this.cfg.includeModifiedDate) {
-                const stats = await getStats(itemPath);
+            // symlinks: record the target, flag broken links
+            let linkStats: SourceStats | null = null;
+            if (item.isSymbolicLink()) {
+                const link = await this.source.readLink(itemPath);
+                if (link.target !== undefined) {
+                    child.target = link.target;
+                }
+                linkStats = link.stats;
+                if (!linkStats) {
+                    child.broken = true;
+                }
+            }
+            // following needs the target's identity to tell loops apart
+            const follow = this.cfg.followSymlinks && linkStats !== null && inodeKey(linkStats) !== undefined;
+
+            // per-item metadata (if requested) – an unfollowed link describes itself
+            if (this.needsStats) {
+                const stats = item.isSymbolicLink() && !follow ? await this.source.lstat(itemPath) : await this.source.stat(itemPath);
                 if (stats) {
-                    child.size = stats.size;
-                    if (this.cfg.includePermissions) {
+                    child.size = this.sizeOf(stats);
+                    if (this.cfg.includePermissions && stats.mode !== undefined) {
                         child.permissions = permissionsString(stats.mode);
                     }
-                    if (this.cfg.includeModifiedDate) {
+                    if (this.wantsModified && stats.mtime) {
                         child.modified = stats.mtime;
                     }
+                } else if (item.isFile() || item.isDirectory()) {
+                    child.error = VANISHED;
                 }
             }
 
-            // recursion for sub-folders
+            // the query sees the entry as scanned – before plugins, as on worker threads
+            const selfMatch = !this.query || this.query.matches(child, this.scanRoot);
+
+            // delegated sub-folder: keep its slot so the merge order stays deterministic
+            if (item.isDirectory() && buildSubtree) {
+                const slot = entry.children!.push(child) - 1;
+                matched[slot] = selfMatch;
+                delegated.push(buildSubtree(itemPath, depth + 1).then(({ entry: sub, itemsProcessed }) => {
+                    this.processed += itemsProcessed;
+                    this.mergeSubtree(entry, child, sub);
+                    entry.children![slot] = PluginRegistry.getInstance().processEntry(child);
+                }));
+                continue;
+            }
+
+            // recursion for sub-folders (and followed links to folders, unless they loop)
             if (item.isDirectory()) {
-                child.children = (await this.buildTree(itemPath, depth + 1)).children;
+                this.mergeSubtree(entry, child, await this.buildTree(itemPath, depth + 1));
+            } else if (follow && linkStats!.isDirectory()) {
+                if (this.ancestors.has(inodeKey(linkStats!)!)) {
+                    child.cycle = true;
+                } else {
+                    this.mergeSubtree(entry, child, await this.buildTree(itemPath, depth + 1));
+                }
             }
 
-            entry.children!.push(child);
+            matched.push(selfMatch);
+            // plugin hook (annotations, renames, …)
+            entry.children!.push(PluginRegistry.getInstance().processEntry(child));
+        }
+        await Promise.all(delegated);
+
+        // -----------------------------------------------------------------
+        // CAP in size / modified / type order (totals only count what is listed)
+        // -----------------------------------------------------------------
+        if (limit && entry.children!.length > limit && this.cfg.sortBy !== 'name') {
+            const kept = entry.children!
+                .map((child, i) => ({ child, selfMatch: matched[i] }))
+                .sort((a, b) => this.compareEntries(a.child, b.child))
+                .slice(0, limit);
+            entry.omitted = entry.children!.length - limit;
+            entry.children = kept.map(k => k.child);
+            matched = kept.map(k => k.selfMatch);
+        }
+
+        // -----------------------------------------------------------------
+        // SIZE AGGREGATION (directory size = total of its contents)
+        // -----------------------------------------------------------------
+        if (this.aggregateSizes) {
+            this.sumChildren(entry);
+        }
+
+        // -----------------------------------------------------------------
+        // QUERY: keep matches and the folders leading to them (totals stay whole);
+        // unreadable folders stay too – they may hold matches
+        // -----------------------------------------------------------------
+        if (this.query) {
+            entry.children = entry.children!.filter((c, i) =>
+                matched[i] || (c.children?.length ?? 0) > 0 || (c.children !== undefined && c.error !== undefined));
         }
 
         // -----------------------------------------------------------------
@@ -171,57 +439,171 @@ export class StructureGenerator {
             this.sortEntries(entry.children!);
         }
 
+        if (dirKey) {
+            this.ancestors.delete(dirKey);
+        }
         return entry;
     }
 
+    private mergeSubtree(parent: FileEntry, child: FileEntry, sub: FileEntry): void {
+        child.children = sub.children;
+        if (sub.error) {
+            child.error = sub.error;
+        }
+        if (this.aggregateSizes) {
+            child.size = sub.size;
+            child.fileCount = sub.fileCount;
+        }
+        if (sub.truncated) {
+            child.truncated = true;
+            parent.truncated = true;
+            this.stopReason ??= sub.truncation ?? 'cancelled';
+        }
+    }
+
     /* -----------------------------------------------------------------
-       FILTERING & SORTING
+       SIZE AGGREGATION
        ----------------------------------------------------------------- */
-    private async filterAndSort(
-        items: fs.Dirent[],
-        parentPath: string
-    ): Promise<fs.Dirent[]> {
-        // ---- hidden files -------------------------------------------------
-        let out = items.filter(i =>
-            this.cfg.includeHidden || !i.name.startsWith('.')
-        );
 
-        // ---- folder exclusion list ----------------------------------------
-        if (this.cfg.excludeFolders) {
-            out = out.filter(i =>
-                !(i.isDirectory() && this.cfg.excludeFolders!.includes(i.name))
-            );
+    /** The directory inode size is meaningless – sum the contents instead */
+    private get aggregateSizes(): boolean {
+        return this.cfg.includeSize || this.cfg.sortBy === 'size' || this.cfg.outputFormat === 'du';
+    }
+
+    private get needsStats(): boolean {
+        return this.aggregateSizes || this.cfg.includePermissions || this.wantsModified
+            || (this.query?.fields.has('size') ?? false);
+    }
+
+    /** Modified dates are read when shown or when the query compares them */
+    private get wantsModified(): boolean {
+        return this.cfg.includeModifiedDate || (this.query?.fields.has('modified') ?? false);
+    }
+
+    /** Apparent size (bytes in the file) or allocated size (512-byte blocks on disk) */
+    private sizeOf(stats: SourceStats): number {
+        if (this.cfg.sizeMode === 'allocated' && stats.blocks !== undefined) {
+            return stats.blocks * 512;
         }
+        return stats.size;
+    }
 
-        // ---- extension whitelist -------------------------------------------
-        if (this.cfg.extensionFilter && out.some(i => i.isFile())) {
-            out = out.filter(i =>
-                i.isFile()
-                    ? this.cfg.extensionFilter!.includes(
-                        path.extname(i.name).slice(1).toLowerCase()
-                    )
-                    : true
-            );
+    /** Totals and percentage-of-parent for `entry` (symlinks only count when followed) */
+    private sumChildren(entry: FileEntry): void {
+        let size = 0;
+        let fileCount = 0;
+        for (const c of entry.children!) {
+            const followed = this.isFollowed(c);
+            if (c.type === 'directory' || (followed && c.children)) {
+                size += c.size ?? 0;
+                fileCount += c.fileCount ?? 0;
+            } else if (c.type === 'file' || followed) {
+                size += c.size ?? 0;
+                fileCount++;
+            }
+        }
+        entry.size = size;
+        entry.fileCount = fileCount;
+        for (const c of entry.children!) {
+            if (c.type !== 'symlink' || this.isFollowed(c)) {
+                c.percentOfParent = size ? Math.round((c.size ?? 0) / size * 1000) / 10 : 0;
+            }
         }
+    }
 
-        // ---- glob-pattern exclusions ---------------------------------------
-        if (this.cfg.excludePatterns) {
-            out = out.filter(i => {
-                const full = path.join(parentPath, i.name);
-                return !this.cfg.excludePatterns!.some(p => matchesPattern(full, p));
-            });
+    private isFollowed(entry: FileEntry): boolean {
+        return entry.type === 'symlink' && this.cfg.followSymlinks && !entry.broken && !entry.cycle;
+    }
+
+    /**
+     * Totals of a directory hidden by maxDepth – walked but not added to the
+     * tree. `error` is the first folder that could not be read (left out of
+     * the totals, as in the main walk); `truncated` means a budget or
+     * cancellation ended the walk and the totals are partial.
+     */
+    private async measure(dir: string): Promise<Measurement> {
+        const totals: Measurement = { size: 0, fileCount: 0 };
+        let items: DirItem[];
+        try {
+            items = await this.filterAndSort(await this.source.readDir(dir), dir);
+        } catch (e) {
+            totals.error = { path: dir, error: describeReadError(e) };
+            return totals;
+        }
+        for (const item of items) {
+            // a budget also ends the walk (the totals stay partial)
+            if (this.shouldStop()) {
+                totals.truncated = true;
+                break;
+            }
+            this.measured++;
+            this.countShared();
+            const itemPath = path.join(dir, item.name);
+            if (item.isDirectory()) {
+                const sub = await this.measure(itemPath);
+                totals.size += sub.size;
+                totals.fileCount += sub.fileCount;
+                totals.error ??= sub.error;
+                if (sub.truncated) {
+                    totals.truncated = true;
+                }
+            } else if (item.isFile()) {
+                const stats = await this.source.stat(itemPath);
+                totals.size += stats ? this.sizeOf(stats) : 0;
+                totals.fileCount++;
+            }
         }
+        return totals;
+    }
 
-        // ---- .gitignore handling -------------------------------------------
-        if (this.cfg.respectGitignore) {
-            const rules = await getGitignoreRules(parentPath);
-            if (rules) {
-                out = out.filter(i => {
-                    const full = path.join(parentPath, i.name);
-                    return !rules.isIgnored(full);
-                });
+    /**
+     * Poll cancellation and the budgets. Cancelling throws unless partial
+     * results were requested; otherwise – and whenever maxItems or
+     * maxDurationMs is reached – the scan winds down and every open
+     * directory is marked `truncated`.
+     */
+    private shouldStop(): boolean {
+        if (this.stopReason) {
+            return true;
+        }
+        if (this.isCancelled && this.isCancelled()) {
+            if (!this.opts.partialOnCancel) {
+                throw new Error('Operation cancelled');
             }
+            this.stopReason = 'cancelled';
+            return true;
+        }
+        if (this.cfg.maxItems && this.itemsSpent() >= this.cfg.maxItems) {
+            this.stopReason = 'item-budget';
+            return true;
+        }
+        if (this.deadline && Date.now() >= this.deadline) {
+            this.stopReason = 'time-budget';
+            return true;
+        }
+        return false;
+    }
+
+    /** Entries counted against maxItems – by every generator of a pooled scan */
+    private itemsSpent(): number {
+        const shared = this.opts.budget;
+        return shared ? Atomics.load(shared.items, 0) : this.processed + this.measured;
+    }
+
+    private countShared(): void {
+        if (this.opts.budget) {
+            Atomics.add(this.opts.budget.items, 0, 1);
         }
+    }
+
+    /* -----------------------------------------------------------------
+       FILTERING & SORTING
+       ----------------------------------------------------------------- */
+    private async filterAndSort(
+        items: DirItem[],
+        parentPath: string
+    ): Promise<DirItem[]> {
+        const out = await this.filter!.apply(items, parentPath);
 
         // ---- final sort ----------------------------------------------------
         out.sort((a, b) => {
@@ -242,22 +624,7 @@ export class StructureGenerator {
        SORTING (size / modified / type)
        ----------------------------------------------------------------- */
     private sortEntries(entries: FileEntry[]) {
-        entries.sort((a, b) => {
-            // directories always first (unless sortBy = 'type')
-            if (a.type === 'directory' && b.type !== 'directory') { return -1; }
-            if (a.type !== 'directory' && b.type === 'directory') { return 1; }
-
-            switch (this.cfg.sortBy) {
-                case 'size':
-                    return (b.size ?? 0) - (a.size ?? 0);
-                case 'modified':
-                    return (b.modified?.getTime() ?? 0) - (a.modified?.getTime() ?? 0);
-                case 'type':
-                    return a.type.localeCompare(b.type);
-                default:
-                    return a.name.localeCompare(b.name, undefined, { numeric: true });
-            }
-        });
+        entries.sort((a, b) => this.compareEntries(a, b));
 
         // recurse
         for (const e of entries) {
@@ -267,19 +634,48 @@ export class StructureGenerator {
         }
     }
 
+    private compareEntries(a: FileEntry, b: FileEntry): number {
+        // directories always first (unless sortBy = 'type')
+        if (a.type === 'directory' && b.type !== 'directory') { return -1; }
+        if (a.type !== 'directory' && b.type === 'directory') { return 1; }
+
+        switch (this.cfg.sortBy) {
+            case 'size':
+                return (b.size ?? 0) - (a.size ?? 0);
+            case 'modified':
+                return (b.modified?.getTime() ?? 0) - (a.modified?.getTime() ?? 0);
+            case 'type':
+                return a.type.localeCompare(b.type);
+            default:
+                return a.name.localeCompare(b.name, undefined, { numeric: true });
+        }
+    }
+
     /* -----------------------------------------------------------------
        FORMATTING (tree, json, markdown, xml, csv)
        ----------------------------------------------------------------- */
-    private formatOutput(root: FileEntry, genTime: number): string {
+    private formatOutput(root: FileEntry, genTime: number, processed: number): string {
         switch (this.cfg.outputFormat) {
             case 'json':
-                return formatJSON(root, this.cfg, genTime, this.processed);
+                return formatJSON(root, this.cfg, genTime, processed);
+            case 'yaml':
+                return formatYAML(root, this.cfg, genTime, processed);
+            case 'toml':
+                return formatTOML(root, this.cfg, genTime, processed);
             case 'markdown':
-                return formatMarkdown(root, this.cfg, genTime, this.processed);
+                return formatMarkdown(root, this.cfg, genTime, processed);
             case 'xml':
                 return formatXML(root, genTime);
             case 'csv':
                 return formatCSV(root);
+            case 'du':
+                return formatDiskUsage(root, this.cfg);
+            case 'mermaid':
+                return formatMermaid(root, this.cfg);
+            case 'dot':
+                return formatDot(root, this.cfg);
+            case 'html':
+                return formatHTML(root, this.cfg, genTime, processed);
             default:
                 return formatTree(root, this.cfg, '', genTime);
         }
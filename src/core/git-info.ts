@@ -0,0 +1,209 @@
+/* ==================================================================
+   GIT METADATA (NO VSCODE DEPENDENCIES)
+   Status, last commit and churn per path, read from the local
+   repository once per scan (`git status` + one `git log` pass)
+   ================================================================== */
+
+import * as path from 'path';
+import { FileEntry, GitEntryInfo, GitStatus } from '../models/file-entry.interface';
+import { GitError, runGit, streamGit } from '../utils/git';
+
+export interface GitInfoOptions {
+    info: boolean;              // status + last commit
+    churn: boolean;             // commit counts per folder
+    revision?: string;          // history up to this commit instead of the working tree (no status)
+}
+
+interface CommitRef {
+    hash: string;
+    author: string;
+    date: Date;
+}
+
+/** Folder status precedence – see GitStatus */
+const FOLDER_RANK: Record<GitStatus, number> = { clean: 0, untracked: 1, staged: 2, modified: 3 };
+
+export class GitIndex {
+    /** Repo-relative path ('/'-separated, '' = repo root) → status; folders hold their contents' status */
+    private readonly status = new Map<string, GitStatus>();
+    /** Folders git reports as untracked as a whole (`?? dir/`) */
+    private readonly untrackedDirs: string[] = [];
+    private readonly lastCommit = new Map<string, CommitRef>();
+    private readonly churn = new Map<string, number>();
+    /** While reading the log: the commit whose files follow, and the folders they touched */
+    private commit: CommitRef | null = null;
+    private readonly commitFolders = new Set<string>();
+
+    private constructor(
+        private readonly scanRoot: string,
+        private readonly prefix: string,        // scanRoot relative to the repo root, '' or 'a/b/'
+        private readonly opts: GitInfoOptions
+    ) {}
+
+    /**
+     * Read the repository containing `scanRoot` – null when it is not in one
+     * (or git is missing). Throws a GitError when the history cannot be read.
+     */
+    static async load(scanRoot: string, opts: GitInfoOptions): Promise<GitIndex | null> {
+        const top = (await runGit(scanRoot, ['rev-parse', '--show-toplevel']))?.trim();
+        const prefix = (await runGit(scanRoot, ['rev-parse', '--show-prefix']))?.trim();
+        if (top === undefined || prefix === undefined) {
+            return null;
+        }
+        const index = new GitIndex(scanRoot, prefix, opts);
+        const spec = prefix || '.';
+
+        if (opts.info && !opts.revision) {
+            const status = await runGit(top, ['status', '--porcelain=v1', '-z', '--untracked-files=normal', '--', spec]);
+            index.readStatus(status ?? '');
+        }
+        // a repository without commits has no history yet
+        if (!opts.revision && (await runGit(top, ['rev-parse', '--verify', '--quiet', 'HEAD'])) === undefined) {
+            return index;
+        }
+        // the full history can be far larger than any buffer – read it line by line
+        try {
+            await streamGit(top, [
+                '-c', 'core.quotePath=false', 'log', '--no-renames', '--format=%x1e%h%x1f%aI%x1f%an', '--name-only',
+                ...(opts.revision ? ['--end-of-options', opts.revision] : []), '--', spec
+            ], line => index.readLogLine(line));
+        } catch (e) {
+            throw new GitError(`Could not read the git history of ${top}: ${e instanceof Error ? e.message : String(e)}`);
+        }
+        index.endCommit();
+        return index;
+    }
+
+    /** Git metadata for a scanned path (absolute, or relative to the scan root) */
+    lookup(entryPath: string, isDirectory: boolean): GitEntryInfo | undefined {
+        const rel = path.relative(this.scanRoot, path.resolve(this.scanRoot, entryPath));
+        if (rel.startsWith('..')) {
+            return undefined;                   // e.g. reached through a followed symlink
+        }
+        const key = (this.prefix + rel.split(path.sep).join('/')).replace(/\/$/, '');
+
+        const info: GitEntryInfo = {};
+        if (this.opts.info) {
+            const commit = this.lastCommit.get(key);
+            info.status = this.status.get(key)
+                ?? (this.untrackedDirs.some(d => key.startsWith(d)) ? 'untracked' : undefined)
+                ?? (commit ? 'clean' : undefined);
+            if (commit) {
+                info.hash = commit.hash;
+                info.author = commit.author;
+                info.date = commit.date;
+            }
+        }
+        if (this.opts.churn && isDirectory) {
+            info.commits = this.churn.get(key) ?? 0;
+        }
+        // an ignored or brand-new file outside any commit gets nothing
+        return Object.values(info).some(v => v !== undefined) ? info : undefined;
+    }
+
+    /* -----------------------------------------------------------------
+       `git status --porcelain -z`: `XY path\0`, renames add `\0origPath`
+       ----------------------------------------------------------------- */
+    private readStatus(out: string): void {
+        const fields = out.split('\0');
+        for (let i = 0; i < fields.length; i++) {
+            const field = fields[i];
+            if (field.length < 4) {
+                continue;
+            }
+            const [x, y] = field;
+            const file = field.slice(3);
+            if (x === 'R' || x === 'C') {
+                i++;                            // skip the original path
+            }
+            if (x === '!') {
+                continue;
+            }
+
+            let status: GitStatus;
+            if (x === '?') {
+                status = 'untracked';
+                if (file.endsWith('/')) {
+                    this.untrackedDirs.push(file);
+                }
+            } else {
+                status = y !== ' ' ? 'modified' : 'staged';
+            }
+            const key = file.replace(/\/$/, '');
+            this.status.set(key, status);
+
+            // folders above hold their contents' state; a tracked folder with new files is modified
+            const folderStatus: GitStatus = status === 'staged' ? 'staged' : 'modified';
+            for (const dir of ancestors(key)) {
+                const current = this.status.get(dir);
+                if (!current || FOLDER_RANK[folderStatus] > FOLDER_RANK[current]) {
+                    this.status.set(dir, folderStatus);
+                }
+            }
+        }
+    }
+
+    /* -----------------------------------------------------------------
+       `git log --name-only`, newest first: a `\x1e`-prefixed header line
+       per commit, then its files. The first commit seen for a path is its
+       last commit; every commit counts once per folder
+       ----------------------------------------------------------------- */
+    private readLogLine(line: string): void {
+        if (line.startsWith('\x1e')) {
+            this.endCommit();
+            const [hash, date, author] = line.slice(1).split('\x1f');
+            this.commit = hash && author ? { hash, author, date: new Date(date) } : null;
+            return;
+        }
+        if (!line || !this.commit) {
+            return;
+        }
+        if (!this.lastCommit.has(line)) {
+            this.lastCommit.set(line, this.commit);
+        }
+        ancestors(line).forEach(d => this.commitFolders.add(d));
+    }
+
+    /** Credit the folders touched by the commit read so far */
+    private endCommit(): void {
+        if (this.commit) {
+            for (const dir of this.commitFolders) {
+                if (!this.lastCommit.has(dir)) {
+                    this.lastCommit.set(dir, this.commit);
+                }
+                this.churn.set(dir, (this.churn.get(dir) ?? 0) + 1);
+            }
+        }
+        this.commit = null;
+        this.commitFolders.clear();
+    }
+}
+
+/** 'a/b/c.ts' → ['a/b', 'a', ''] */
+function ancestors(key: string): string[] {
+    const out: string[] = [];
+    let i = key.lastIndexOf('/');
+    while (i > 0) {
+        key = key.slice(0, i);
+        out.push(key);
+        i = key.lastIndexOf('/');
+    }
+    out.push('');
+    return out;
+}
+
+/** Attach `entry.git` to every entry of a scanned tree (no-op outside a repository) */
+export async function annotateGit(root: FileEntry, scanRoot: string, opts: GitInfoOptions): Promise<void> {
+    const index = await GitIndex.load(scanRoot, opts);
+    if (!index) {
+        return;
+    }
+    const visit = (entry: FileEntry) => {
+        const git = index.lookup(entry.path, entry.type === 'directory');
+        if (git) {
+            entry.git = git;
+        }
+        entry.children?.forEach(visit);
+    };
+    visit(root);
+}
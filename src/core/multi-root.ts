@@ -0,0 +1,37 @@
+/* ==================================================================
+   MULTI-ROOT STRUCTURES (NO VSCODE DEPENDENCIES)
+   One tree for a whole workspace – each folder becomes a top-level
+   node under a virtual root named after the workspace
+   ================================================================== */
+
+import { FileEntry } from '../models/file-entry.interface';
+
+/**
+ * Combine scanned roots (in workspace order) under a virtual root.
+ * Sizes and file counts are totalled when every root carries them, and
+ * each root then gets its share of the whole.
+ */
+export function combineRoots(name: string, rootPath: string, roots: FileEntry[]): FileEntry {
+    const combined: FileEntry = {
+        name,
+        path: rootPath,
+        type: 'directory',
+        children: roots.map(r => ({ ...r }))
+    };
+
+    if (roots.length && roots.every(r => r.size !== undefined)) {
+        combined.size = roots.reduce((sum, r) => sum + r.size!, 0);
+        combined.fileCount = roots.reduce((sum, r) => sum + (r.fileCount ?? 0), 0);
+        for (const child of combined.children!) {
+            child.percentOfParent = combined.size ? Math.round(child.size! / combined.size * 1000) / 10 : 0;
+        }
+    }
+    if (roots.some(r => r.truncated)) {
+        combined.truncated = true;
+    }
+    const stopped = roots.find(r => r.truncation);
+    if (stopped) {
+        combined.truncation = stopped.truncation;
+    }
+    return combined;
+}
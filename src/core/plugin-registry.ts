@@ -0,0 +1,188 @@
+/* ==================================================================
+   PLUGIN REGISTRY (NO VSCODE DEPENDENCIES)
+   Loads StructurePlugin implementations and runs their hooks
+   ================================================================== */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileEntry, StructurePlugin } from '../models/file-entry.interface';
+
+/* ==================================================================
+   LOAD RESULT
+   ================================================================== */
+
+export interface PluginLoadResult {
+    source: string;            // file path or 'api'
+    plugin?: StructurePlugin;
+    error?: string;
+}
+
+/* ==================================================================
+   PLUGIN REGISTRY CLASS
+   ================================================================== */
+
+export class PluginRegistry {
+    private static instance: PluginRegistry;
+    private plugins: { plugin: StructurePlugin; source: string }[] = [];
+    private failures = new Map<string, string>();
+
+    private constructor() {}
+
+    static getInstance(): PluginRegistry {
+        if (!PluginRegistry.instance) {
+            PluginRegistry.instance = new PluginRegistry();
+        }
+        return PluginRegistry.instance;
+    }
+
+    /**
+     * Register a plugin directly (used by the extension API).
+     * Returns a function that removes the plugin again.
+     */
+    register(plugin: StructurePlugin, source = 'api'): () => void {
+        const problem = validatePlugin(plugin);
+        if (problem) {
+            throw new Error(`Invalid plugin from ${source}: ${problem}`);
+        }
+        const record = { plugin, source };
+        this.plugins.push(record);
+        return () => {
+            this.plugins = this.plugins.filter(r => r !== record);
+        };
+    }
+
+    /**
+     * Load every `*.js` file in `dir` as a plugin module.
+     * A module may export a single plugin (default or `module.exports`)
+     * or an array of plugins. Each file is isolated – a broken file is
+     * reported in the results and never prevents the others from loading.
+     */
+    async loadFromDirectory(dir: string): Promise<PluginLoadResult[]> {
+        let files: string[];
+        try {
+            files = (await fs.promises.readdir(dir))
+                .filter(f => f.endsWith('.js'))
+                .sort();
+        } catch {
+            return []; // no plugin folder – nothing to load
+        }
+
+        // drop plugins previously loaded from this folder (reload support)
+        this.plugins = this.plugins.filter(r => path.dirname(r.source) !== dir);
+
+        const results: PluginLoadResult[] = [];
+        for (const file of files) {
+            const full = path.join(dir, file);
+            try {
+                delete require.cache[require.resolve(full)];
+                const mod = require(full);
+                const exported = mod?.default ?? mod;
+                const list: StructurePlugin[] = Array.isArray(exported) ? exported : [exported];
+                for (const plugin of list) {
+                    this.register(plugin, full);
+                    results.push({ source: full, plugin });
+                }
+                this.failures.delete(full);
+            } catch (e) {
+                const error = e instanceof Error ? e.message : String(e);
+                this.failures.set(full, error);
+                results.push({ source: full, error });
+            }
+        }
+        return results;
+    }
+
+    /** Run every plugin's `processEntry` hook in registration order */
+    processEntry(entry: FileEntry): FileEntry {
+        let current = entry;
+        for (const { plugin, source } of this.plugins) {
+            if (!plugin.processEntry) {
+                continue;
+            }
+            try {
+                current = plugin.processEntry(current) ?? current;
+            } catch (e) {
+                this.recordFailure(plugin, source, 'processEntry', e);
+            }
+        }
+        return current;
+    }
+
+    /**
+     * Run `processEntry` on every descendant of `root` (children first, the
+     * order a local scan uses) – for subtrees built where plugins are not
+     * loaded, e.g. on a worker thread. `root` itself is left alone.
+     */
+    processDescendants(root: FileEntry): FileEntry {
+        if (!this.plugins.length || !root.children) {
+            return root;
+        }
+        root.children = root.children.map(child => this.processEntry(this.processDescendants(child)));
+        return root;
+    }
+
+    /** Run every plugin's `formatOutput` hook in registration order */
+    formatOutput(structure: string, format: string): string {
+        let current = structure;
+        for (const { plugin, source } of this.plugins) {
+            if (!plugin.formatOutput) {
+                continue;
+            }
+            try {
+                const out = plugin.formatOutput(current, format);
+                if (typeof out === 'string') {
+                    current = out;
+                }
+            } catch (e) {
+                this.recordFailure(plugin, source, 'formatOutput', e);
+            }
+        }
+        return current;
+    }
+
+    getPlugins(): StructurePlugin[] {
+        return this.plugins.map(r => r.plugin);
+    }
+
+    /** Load and runtime failures, keyed by plugin source */
+    getFailures(): Map<string, string> {
+        return new Map(this.failures);
+    }
+
+    hasPlugins(): boolean {
+        return this.plugins.length > 0;
+    }
+
+    clear(): void {
+        this.plugins = [];
+        this.failures.clear();
+    }
+
+    private recordFailure(plugin: StructurePlugin, source: string, hook: string, e: unknown): void {
+        const msg = e instanceof Error ? e.message : String(e);
+        this.failures.set(source, `${plugin.name}.${hook} failed: ${msg}`);
+    }
+}
+
+/* ==================================================================
+   VALIDATION
+   ================================================================== */
+
+function validatePlugin(plugin: unknown): string | null {
+    if (!plugin || typeof plugin !== 'object') {
+        return 'export is not an object';
+    }
+    const p = plugin as Partial<StructurePlugin>;
+    if (typeof p.name !== 'string' || !p.name) {
+        return 'missing "name"';
+    }
+    if (typeof p.version !== 'string') {
+        return 'missing "version"';
+    }
+    for (const hook of ['processEntry', 'formatOutput', 'addCommands'] as const) {
+        if (p[hook] !== undefined && typeof p[hook] !== 'function') {
+            return `"${hook}" must be a function`;
+        }
+    }
+    return null;
+}
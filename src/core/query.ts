@@ -0,0 +1,419 @@
+/* ==================================================================
+   QUERY LANGUAGE (NO VSCODE DEPENDENCIES)
+   Filter expressions over scanned entries, e.g.
+     size > 1MB and ext in (ts, tsx) and modified < 30d and not path ~ /test/
+   Parsed once per generator and evaluated against every FileEntry
+   ================================================================== */
+
+import * as path from 'path';
+import { FileEntry } from '../models/file-entry.interface';
+
+export type QueryField = 'name' | 'path' | 'ext' | 'type' | 'size' | 'modified';
+
+/** A filterExpression that cannot be parsed – the message names the column */
+export class QueryError extends Error {}
+
+/**
+ * A parsed expression. `fields` tells the generators which metadata must be
+ * read even when it is not displayed (size, modified).
+ */
+export interface EntryQuery {
+    readonly fields: ReadonlySet<QueryField>;
+    /** `root` is the scanned folder – `path` is matched relative to it, with `/` */
+    matches(entry: FileEntry, root: string): boolean;
+}
+
+/* ==================================================================
+   TOKENIZER
+   ================================================================== */
+
+type TokenKind = 'word' | 'string' | 'regex' | 'op' | '(' | ')' | ',' | 'end';
+
+interface Token {
+    kind: TokenKind;
+    text: string;
+    pos: number;
+    flags?: string;                 // regex
+}
+
+const OPERATORS = ['>=', '<=', '!=', '!~', '==', '=', '>', '<', '~'];
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+        const ch = text[i];
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+        const pos = i;
+
+        if (ch === '(' || ch === ')' || ch === ',') {
+            tokens.push({ kind: ch, text: ch, pos });
+            i++;
+            continue;
+        }
+
+        const op = OPERATORS.find(o => text.startsWith(o, i));
+        if (op) {
+            tokens.push({ kind: 'op', text: op, pos });
+            i += op.length;
+            continue;
+        }
+
+        // a regex literal is only expected right after ~ / !~
+        const prev = tokens[tokens.length - 1];
+        if (ch === '/' && prev?.kind === 'op' && prev.text.endsWith('~')) {
+            let j = i + 1;
+            let source = '';
+            while (j < text.length && text[j] !== '/') {
+                if (text[j] === '\\' && j + 1 < text.length) {
+                    source += text[j++];
+                }
+                source += text[j++];
+            }
+            if (j >= text.length) {
+                throw queryError('Unterminated regular expression', pos);
+            }
+            j++;
+            const flags = /^[a-z]*/.exec(text.slice(j))![0];
+            tokens.push({ kind: 'regex', text: source, flags, pos });
+            i = j + flags.length;
+            continue;
+        }
+
+        if (ch === '"' || ch === '\'') {
+            let j = i + 1;
+            let value = '';
+            while (j < text.length && text[j] !== ch) {
+                if (text[j] === '\\' && j + 1 < text.length) {
+                    j++;
+                }
+                value += text[j++];
+            }
+            if (j >= text.length) {
+                throw queryError('Unterminated string', pos);
+            }
+            tokens.push({ kind: 'string', text: value, pos });
+            i = j + 1;
+            continue;
+        }
+
+        const word = /^[^\s(),=!<>~'"]+/.exec(text.slice(i));
+        if (!word) {
+            throw queryError(`Unexpected "${ch}"`, pos);
+        }
+        tokens.push({ kind: 'word', text: word[0], pos });
+        i += word[0].length;
+    }
+
+    tokens.push({ kind: 'end', text: '', pos: text.length });
+    return tokens;
+}
+
+function queryError(message: string, pos: number): QueryError {
+    return new QueryError(`${message} (column ${pos + 1})`);
+}
+
+/* ==================================================================
+   VALUES
+   ================================================================== */
+
+const SIZE_UNITS: Record<string, number> = {
+    '': 1, b: 1, k: 1024, kb: 1024, m: 1024 ** 2, mb: 1024 ** 2, g: 1024 ** 3, gb: 1024 ** 3, t: 1024 ** 4, tb: 1024 ** 4
+};
+
+const DURATION_UNITS: Record<string, number> = {
+    s: 1000, m: 60_000, min: 60_000, h: 3_600_000, d: 86_400_000, w: 7 * 86_400_000, y: 365 * 86_400_000
+};
+
+const TYPES: Record<string, FileEntry['type']> = {
+    file: 'file', directory: 'directory', dir: 'directory', folder: 'directory', symlink: 'symlink', link: 'symlink'
+};
+
+/** `500`, `1.5MB`, `20k` – binary units, like the size column */
+function parseSize(token: Token): number {
+    const m = /^(\d+(?:\.\d+)?)([a-z]*)$/i.exec(token.text);
+    const unit = m?.[2].toLowerCase() ?? '';
+    if (!m || !(unit in SIZE_UNITS)) {
+        throw queryError(`"${token.text}" is not a size (e.g. 500, 20KB, 1.5MB)`, token.pos);
+    }
+    return Number(m[1]) * SIZE_UNITS[unit];
+}
+
+/** `30d`, `12h`, `2w` → { age } in ms; `2024-05-01` (any ISO date) → { date } */
+function parseTime(token: Token): { age?: number; date?: number } {
+    const m = /^(\d+(?:\.\d+)?)([a-z]+)$/i.exec(token.text);
+    if (m && m[2].toLowerCase() in DURATION_UNITS) {
+        return { age: Number(m[1]) * DURATION_UNITS[m[2].toLowerCase()] };
+    }
+    const date = /^\d{4}-\d{2}-\d{2}/.test(token.text) ? Date.parse(token.text) : NaN;
+    if (isNaN(date)) {
+        throw queryError(`"${token.text}" is not an age (e.g. 30d, 12h, 2w) or a date (YYYY-MM-DD)`, token.pos);
+    }
+    return { date };
+}
+
+/* ==================================================================
+   PARSER (recursive descent)
+     expr       := and ('or' and)*
+     and        := unary ('and' unary)*
+     unary      := 'not' unary | '(' expr ')' | comparison
+     comparison := field op value | field ['not'] 'in' '(' value (',' value)* ')'
+   ================================================================== */
+
+/** Evaluates against one entry; `now` and the root are fixed per scan */
+type Predicate = (entry: FileEntry, ctx: { root: string; now: number }) => boolean;
+
+const FIELDS: QueryField[] = ['name', 'path', 'ext', 'type', 'size', 'modified'];
+
+class Parser {
+    private index = 0;
+    readonly fields = new Set<QueryField>();
+
+    constructor(private readonly tokens: Token[]) {}
+
+    parse(): Predicate {
+        const predicate = this.expr();
+        const next = this.peek();
+        if (next.kind !== 'end') {
+            throw queryError(`Unexpected "${next.text}"`, next.pos);
+        }
+        return predicate;
+    }
+
+    private expr(): Predicate {
+        let left = this.and();
+        while (this.keyword('or')) {
+            const a = left;
+            const b = this.and();
+            left = (e, ctx) => a(e, ctx) || b(e, ctx);
+        }
+        return left;
+    }
+
+    private and(): Predicate {
+        let left = this.unary();
+        while (this.keyword('and')) {
+            const a = left;
+            const b = this.unary();
+            left = (e, ctx) => a(e, ctx) && b(e, ctx);
+        }
+        return left;
+    }
+
+    private unary(): Predicate {
+        if (this.keyword('not')) {
+            const inner = this.unary();
+            return (e, ctx) => !inner(e, ctx);
+        }
+        if (this.peek().kind === '(') {
+            this.index++;
+            const inner = this.expr();
+            this.expect(')');
+            return inner;
+        }
+        return this.comparison();
+    }
+
+    private comparison(): Predicate {
+        const token = this.next();
+        const field = token.text.toLowerCase() as QueryField;
+        if (token.kind !== 'word' || !FIELDS.includes(field)) {
+            throw queryError(
+                token.kind === 'end'
+                    ? 'Expression ends too early'
+                    : `Unknown field "${token.text}" (use ${FIELDS.join(', ')})`,
+                token.pos
+            );
+        }
+        this.fields.add(field);
+
+        const negated = this.keyword('not');
+        if (this.keyword('in')) {
+            return this.membership(field, token, negated);
+        }
+        if (negated) {
+            throw queryError('Expected "in" after "not"', this.peek().pos);
+        }
+
+        const op = this.next();
+        if (op.kind !== 'op') {
+            throw queryError(`Expected an operator after "${token.text}"`, op.pos);
+        }
+        const value = this.value();
+
+        switch (field) {
+            case 'size':
+                return this.compareNumber(op, parseSize(value), e => e.type === 'directory' ? undefined : e.size);
+            case 'modified':
+                return this.compareTime(op, parseTime(value));
+            case 'type':
+                return this.compareType(op, value);
+            default:
+                return this.compareText(field, op, value);
+        }
+    }
+
+    /** `field [not] in (a, b, c)` – equality against any of the values */
+    private membership(field: QueryField, fieldToken: Token, negated: boolean): Predicate {
+        if (field === 'modified') {
+            throw queryError('"in" does not work with modified', fieldToken.pos);
+        }
+        this.expect('(');
+        const values: Token[] = [this.value()];
+        while (this.peek().kind === ',') {
+            this.index++;
+            values.push(this.value());
+        }
+        this.expect(')');
+
+        const eq: Token = { kind: 'op', text: '=', pos: fieldToken.pos };
+        const tests = values.map(v =>
+            field === 'size'
+                ? this.compareNumber(eq, parseSize(v), e => e.type === 'directory' ? undefined : e.size)
+                : field === 'type' ? this.compareType(eq, v) : this.compareText(field, eq, v)
+        );
+        return (e, ctx) => tests.some(t => t(e, ctx)) !== negated;
+    }
+
+    private compareNumber(op: Token, expected: number, get: (e: FileEntry) => number | undefined): Predicate {
+        const cmp = numericComparison(op);
+        return e => {
+            const actual = get(e);
+            return actual !== undefined && cmp(actual, expected);
+        };
+    }
+
+    /** Ages compare "how long ago" (`< 30d` = recent), dates compare the timestamp */
+    private compareTime(op: Token, value: { age?: number; date?: number }): Predicate {
+        if (op.text !== '<' && op.text !== '<=' && op.text !== '>' && op.text !== '>=') {
+            throw queryError(`Use <, <=, > or >= with modified, not "${op.text}"`, op.pos);
+        }
+        const cmp = numericComparison(op);
+        return (e, ctx) => {
+            if (!e.modified) {
+                return false;
+            }
+            const time = new Date(e.modified).getTime();
+            return value.age !== undefined ? cmp(ctx.now - time, value.age) : cmp(time, value.date!);
+        };
+    }
+
+    private compareType(op: Token, value: Token): Predicate {
+        const type = TYPES[value.text.toLowerCase()];
+        if (!type) {
+            throw queryError(`Unknown type "${value.text}" (use file, directory or symlink)`, value.pos);
+        }
+        if (op.text !== '=' && op.text !== '==' && op.text !== '!=') {
+            throw queryError(`Use = or != with type, not "${op.text}"`, op.pos);
+        }
+        const equal = op.text !== '!=';
+        return e => (e.type === type) === equal;
+    }
+
+    /** name / path / ext: exact (ext ignores case and a leading dot) or `~` regular expression */
+    private compareText(field: QueryField, op: Token, value: Token): Predicate {
+        const get = (e: FileEntry, root: string): string | undefined => {
+            switch (field) {
+                case 'name': return e.name;
+                case 'path': return path.relative(root, e.path).split(path.sep).join('/');
+                default: return e.type === 'directory' ? undefined : path.extname(e.name).slice(1).toLowerCase();
+            }
+        };
+
+        if (op.text === '~' || op.text === '!~') {
+            let re: RegExp;
+            try {
+                // stateful flags would make test() depend on the previous entry
+                re = new RegExp(value.text, value.flags?.replace(/[gy]/g, ''));
+            } catch (err) {
+                throw queryError(err instanceof Error ? err.message : `Invalid regular expression: ${String(err)}`, value.pos);
+            }
+            const expected = op.text === '~';
+            return (e, ctx) => {
+                const actual = get(e, ctx.root);
+                return actual !== undefined && re.test(actual) === expected;
+            };
+        }
+        if (op.text !== '=' && op.text !== '==' && op.text !== '!=') {
+            throw queryError(`Use =, !=, ~ or !~ with ${field}, not "${op.text}"`, op.pos);
+        }
+        const wanted = field === 'ext' ? value.text.replace(/^\./, '').toLowerCase() : value.text;
+        const equal = op.text !== '!=';
+        return (e, ctx) => {
+            const actual = get(e, ctx.root);
+            return actual !== undefined && (actual === wanted) === equal;
+        };
+    }
+
+    private value(): Token {
+        const token = this.next();
+        if (token.kind !== 'word' && token.kind !== 'string' && token.kind !== 'regex') {
+            throw queryError(token.kind === 'end' ? 'Expected a value at the end' : `Expected a value, found "${token.text}"`, token.pos);
+        }
+        return token;
+    }
+
+    private keyword(word: string): boolean {
+        const token = this.peek();
+        if (token.kind === 'word' && token.text.toLowerCase() === word) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(kind: TokenKind): void {
+        const token = this.next();
+        if (token.kind !== kind) {
+            throw queryError(`Expected "${kind}"${token.kind === 'end' ? ' at the end' : `, found "${token.text}"`}`, token.pos);
+        }
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.index];
+        if (token.kind !== 'end') {
+            this.index++;
+        }
+        return token;
+    }
+}
+
+function numericComparison(op: Token): (actual: number, expected: number) => boolean {
+    switch (op.text) {
+        case '>': return (a, b) => a > b;
+        case '>=': return (a, b) => a >= b;
+        case '<': return (a, b) => a < b;
+        case '<=': return (a, b) => a <= b;
+        case '=':
+        case '==': return (a, b) => a === b;
+        case '!=': return (a, b) => a !== b;
+        default: throw queryError(`"${op.text}" does not compare numbers`, op.pos);
+    }
+}
+
+/* ==================================================================
+   PUBLIC API
+   ================================================================== */
+
+/**
+ * Parse a filter expression (throws QueryError). Ages such as `30d` are
+ * measured from `now` – fixed when the expression is parsed, so one scan
+ * uses one clock. Size and ext only match files (and symlinks); folders
+ * are kept by the generators when something inside them matches.
+ */
+export function parseQuery(text: string, now = Date.now()): EntryQuery {
+    const parser = new Parser(tokenize(text));
+    const predicate = parser.parse();
+    return {
+        fields: parser.fields,
+        matches: (entry, root) => predicate(entry, { root, now })
+    };
+}
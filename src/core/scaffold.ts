@@ -0,0 +1,123 @@
+/* ==================================================================
+   SCAFFOLDING (NO VSCODE DEPENDENCIES)
+   Creates the folders and files described by a FileEntry tree
+   ================================================================== */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileEntry } from '../models/file-entry.interface';
+import { matchesPattern } from '../utils/fs-helpers';
+
+/** Glob (matched against the relative path, or the name when it has no `/`) → initial file content */
+export type SnippetMap = Record<string, string>;
+
+export type ScaffoldStatus =
+    | 'create'          // will be created
+    | 'exists'          // already there with the right kind – left untouched
+    | 'conflict';       // a file where a folder is expected (or vice versa) – skipped
+
+export interface ScaffoldAction {
+    relPath: string;            // '/'-separated, relative to the target
+    kind: 'directory' | 'file';
+    status: ScaffoldStatus;
+    content?: string;           // seeded files only
+}
+
+export interface ScaffoldPlan {
+    target: string;
+    actions: ScaffoldAction[];
+}
+
+/**
+ * Work out what scaffolding `root` into `target` would do. The root's
+ * children are created directly inside `target`; nothing is written.
+ * Names that could escape the target (`..`, separators) are rejected.
+ */
+export async function planScaffold(root: FileEntry, target: string, snippets: SnippetMap = {}): Promise<ScaffoldPlan> {
+    const actions: ScaffoldAction[] = [];
+    const patterns = Object.keys(snippets);
+
+    const visit = async (entry: FileEntry, relPath: string, parentBlocked: boolean) => {
+        const kind = entry.type === 'directory' || entry.children?.length ? 'directory' : 'file';
+        let status: ScaffoldStatus = 'create';
+        if (parentBlocked) {
+            status = 'conflict';
+        } else {
+            const existing = await fs.promises.stat(path.join(target, relPath)).catch(() => null);
+            if (existing) {
+                status = existing.isDirectory() === (kind === 'directory') ? 'exists' : 'conflict';
+            }
+        }
+
+        const action: ScaffoldAction = { relPath, kind, status };
+        if (kind === 'file' && status === 'create') {
+            const pattern = patterns.find(p => matchesPattern(relPath, p));
+            if (pattern !== undefined) {
+                action.content = snippets[pattern];
+            }
+        }
+        actions.push(action);
+
+        for (const child of entry.children ?? []) {
+            await visit(child, `${relPath}/${checkName(child.name)}`, status === 'conflict');
+        }
+    };
+
+    for (const child of root.children ?? []) {
+        await visit(child, checkName(child.name), false);
+    }
+    return { target, actions };
+}
+
+function checkName(name: string): string {
+    if (!name || name === '.' || name === '..' || /[\\/]/.test(name) || name.includes('\0')) {
+        throw new Error(`Invalid name in structure: "${name}"`);
+    }
+    return name;
+}
+
+/** Create everything marked `create`; existing files are never overwritten */
+export async function applyScaffold(plan: ScaffoldPlan): Promise<{ directories: number; files: number }> {
+    const created = { directories: 0, files: 0 };
+    for (const action of plan.actions) {
+        if (action.status !== 'create') {
+            continue;
+        }
+        const full = path.join(plan.target, action.relPath);
+        if (action.kind === 'directory') {
+            await fs.promises.mkdir(full, { recursive: true });
+            created.directories++;
+        } else {
+            await fs.promises.mkdir(path.dirname(full), { recursive: true });
+            // 'wx' – a file that appeared since planning is left alone
+            await fs.promises.writeFile(full, action.content ?? '', { flag: 'wx' }).then(
+                () => { created.files++; },
+                (e: NodeJS.ErrnoException) => {
+                    if (e.code !== 'EEXIST') {
+                        throw e;
+                    }
+                }
+            );
+        }
+    }
+    return created;
+}
+
+/** Dry-run preview, one line per action */
+export function formatScaffoldPlan(plan: ScaffoldPlan): string {
+    const count = (status: ScaffoldStatus) => plan.actions.filter(a => a.status === status).length;
+    const marks: Record<ScaffoldStatus, string> = { create: '+', exists: '=', conflict: '!' };
+    const lines = [
+        `Scaffold into ${plan.target}`,
+        `${count('create')} to create, ${count('exists')} already present, ${count('conflict')} conflicts`,
+        '─'.repeat(50)
+    ];
+    for (const a of plan.actions) {
+        const name = a.kind === 'directory' ? `${a.relPath}/` : a.relPath;
+        const note = a.status === 'conflict'
+            ? '  (conflict – skipped)'
+            : a.content !== undefined ? '  (from snippet)' : '';
+        lines.push(`${marks[a.status]} ${name}${note}`);
+    }
+    return lines.join('\n');
+}
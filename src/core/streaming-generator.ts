@@ -4,12 +4,17 @@
    Prevents OOM on massive repositories by yielding items incrementally
    ================================================================== */
 
-import * as fs from 'fs';
 import * as path from 'path';
 import { StructureConfig } from '../models/config.interface';
-import { FileEntry } from '../models/file-entry.interface';
+import { DirItem, FileEntry, TruncationReason } from '../models/file-entry.interface';
 import { StreamEvent, StreamProgressCallback } from '../models/stream.interface';
-import { getGitignoreRules, getStats, permissionsString, matchesPattern } from '../utils/fs-helpers';
+import { describeReadError, inodeKey, permissionsString, VANISHED } from '../utils/fs-helpers';
+import { PluginRegistry } from './plugin-registry';
+import { GitIndex } from './git-info';
+import { EntryFilter } from './filters';
+import { EntryQuery, parseQuery } from './query';
+import { SourceStats, StructureSource } from '../sources/structure-source';
+import { FileSystemSource } from '../sources/fs-source';
 
 export type CancellationCheck = () => boolean;
 
@@ -21,13 +26,31 @@ export class StreamingGenerator {
     private readonly cfg: Required<StructureConfig>;
     private readonly onProgress?: StreamProgressCallback;
     private readonly isCancelled?: CancellationCheck;
+    private readonly source: StructureSource;
+    /** filterExpression, parsed once (throws QueryError when invalid) */
+    private readonly query: EntryQuery | null;
 
     private processed = 0;
+    /** Set once maxItems or maxDurationMs is reached */
+    private stopReason: TruncationReason | null = null;
+    /** maxDurationMs: when the current stream has to stop (0 = never) */
+    private deadline = 0;
+    /** Inodes of the directories being streamed (followSymlinks cycle detection) */
+    private readonly ancestors = new Set<string>();
+    /** includeGitInfo / gitChurn: read once when the stream starts */
+    private git: GitIndex | null = null;
+    /** Filters of the current stream (globs and .structureignore are relative to its root) */
+    private filter: EntryFilter | null = null;
+    /** Root of the current stream – query paths are relative to it */
+    private root = '';
+    /** Query: folder → something below it matches (looked ahead once per folder) */
+    private readonly matchBelow = new Map<string, boolean>();
 
     constructor(
         cfg: StructureConfig,
         onProgress?: StreamProgressCallback,
-        isCancelled?: CancellationCheck
+        isCancelled?: CancellationCheck,
+        source: StructureSource = FileSystemSource.getInstance()
     ) {
         // Fill defaults
         this.cfg = {
@@ -35,15 +58,28 @@ export class StreamingGenerator {
             extensionFilter: cfg.extensionFilter ?? null,
             excludeFolders: cfg.excludeFolders ?? null,
             excludePatterns: cfg.excludePatterns ?? null,
+            includePatterns: cfg.includePatterns ?? null,
+            editorExcludes: cfg.editorExcludes ?? null,
+            filterExpression: cfg.filterExpression ?? null,
             maxDepth: cfg.maxDepth ?? 0,
             respectGitignore: cfg.respectGitignore ?? true,
+            respectStructureIgnore: cfg.respectStructureIgnore ?? true,
+            followSymlinks: cfg.followSymlinks ?? false,
+            maxItems: cfg.maxItems ?? 0,
+            maxDurationMs: cfg.maxDurationMs ?? 0,
+            maxEntriesPerDirectory: cfg.maxEntriesPerDirectory ?? 0,
             includeSize: cfg.includeSize ?? false,
             includePermissions: cfg.includePermissions ?? false,
             includeModifiedDate: cfg.includeModifiedDate ?? false,
+            sizeMode: cfg.sizeMode ?? 'apparent',
+            includeGitInfo: cfg.includeGitInfo ?? false,
+            gitChurn: cfg.gitChurn ?? false,
             sortBy: cfg.sortBy ?? 'name',
             outputFormat: cfg.outputFormat ?? 'tree',
+            diskUsageTopN: cfg.diskUsageTopN ?? 20,
             useWorker: cfg.useWorker ?? false,
             useStreaming: cfg.useStreaming ?? false,
+            workerPoolSize: cfg.workerPoolSize ?? 1,
             iconStyle: cfg.iconStyle ?? 'emoji',
             customIcons: cfg.customIcons ?? {},
             compressLargeDirs: cfg.compressLargeDirs ?? true,
@@ -54,6 +90,13 @@ export class StreamingGenerator {
 
         this.onProgress = onProgress;
         this.isCancelled = isCancelled;
+        this.source = source;
+        this.query = this.cfg.filterExpression?.trim() ? parseQuery(this.cfg.filterExpression) : null;
+    }
+
+    /** Set when the last stream stopped early because a budget ran out */
+    get truncation(): TruncationReason | null {
+        return this.stopReason;
     }
 
     /**
@@ -62,23 +105,40 @@ export class StreamingGenerator {
      */
     public async *generate(rootPath: string): AsyncGenerator<StreamEvent> {
         const start = Date.now();
-
-        yield { kind: 'start', root: rootPath };
+        this.processed = 0;
+        this.stopReason = null;
+        this.deadline = this.cfg.maxDurationMs ? start + this.cfg.maxDurationMs : 0;
+        this.ancestors.clear();
+        this.filter = new EntryFilter(this.cfg, this.source, rootPath);
+        this.root = rootPath;
+        this.matchBelow.clear();
+        this.git = this.cfg.includeGitInfo || this.cfg.gitChurn
+            ? await GitIndex.load(rootPath, {
+                info: this.cfg.includeGitInfo,
+                churn: this.cfg.gitChurn,
+                revision: this.source.revision
+            })
+            : null;
+
+        yield { kind: 'start', root: rootPath, name: this.source.rootName(rootPath) };
 
         // Stream the directory tree
         yield* this.streamDir(rootPath, '', 0);
 
         const durationMs = Date.now() - start;
-        yield { kind: 'end', durationMs, totalItems: this.processed };
+        yield { kind: 'end', durationMs, totalItems: this.processed, truncation: this.stopReason ?? undefined };
     }
 
     /**
-     * Recursively stream directory contents
+     * Recursively stream directory contents. Sub-folders arrive with
+     * `items` already read (see readFolder); the root is read here and
+     * must be readable.
      */
     private async *streamDir(
         dir: string,
         prefix: string,
-        depth: number
+        depth: number,
+        items?: DirItem[]
     ): AsyncGenerator<StreamEvent> {
         // Cancellation check
         if (this.isCancelled && this.isCancelled()) {
@@ -90,22 +150,37 @@ export class StreamingGenerator {
             return;
         }
 
-        // Read directory
-        let rawItems: fs.Dirent[];
-        try {
-            rawItems = await fs.promises.readdir(dir, { withFileTypes: true });
-        } catch (error) {
-            // Skip unreadable directories
-            return;
+        // Filter and sort, then cap the listing (before the query, as the tree generator does)
+        let filtered = await this.filterAndSort(items ?? await this.source.readDir(dir), dir);
+        const limit = this.cfg.maxEntriesPerDirectory;
+        const omitted = limit && filtered.length > limit ? filtered.length - limit : 0;
+        if (omitted) {
+            filtered = filtered.slice(0, limit);
         }
 
-        // Filter and sort
-        const filtered = await this.filterAndSort(rawItems, dir);
+        // Remember this folder while its contents are streamed
+        const dirStats = this.cfg.followSymlinks ? await this.source.stat(dir) : null;
+        const dirKey = dirStats ? inodeKey(dirStats) : null;
+        if (dirKey) {
+            this.ancestors.add(dirKey);
+        }
+
+        // Query: only matches and the folders leading to them
+        if (this.query) {
+            filtered = await this.queryVisible(filtered, dir, depth);
+        }
 
         // Stream each item
+        let stopped = false;
         for (let i = 0; i < filtered.length; i++) {
+            // out of budget: close this folder with a marker and wind down
+            if (this.budgetSpent()) {
+                yield { kind: 'stopped', prefix, reason: this.stopReason! };
+                stopped = true;
+                break;
+            }
             const item = filtered[i];
-            const isLast = i === filtered.length - 1;
+            const isLast = i === filtered.length - 1 && !omitted;
             const itemPath = path.join(dir, item.name);
 
             // Update progress
@@ -117,30 +192,24 @@ export class StreamingGenerator {
                 }
             }
 
-            // Create entry
-            const entry: FileEntry = {
-                name: item.name,
-                path: itemPath,
-                type: item.isDirectory()
-                    ? 'directory'
-                    : item.isSymbolicLink()
-                        ? 'symlink'
-                        : 'file'
-            };
-
-            // Add metadata if requested
-            await this.addMetadata(entry);
-
-            if (item.isDirectory()) {
+            // Describe the entry (a folder is read first, so a failure marks it),
+            // then run the plugin hook before it is emitted
+            const described = await this.describe(item, dir);
+            const contents = described.descend ? await this.readFolder(described.entry, depth + 1) : [];
+            const entry = PluginRegistry.getInstance().processEntry(described.entry);
+
+            if (described.descend) {
                 // Check if we should compress this directory
-                const shouldCompress = await this.shouldCompressDirectory(itemPath);
+                const collapsed = this.cfg.compressLargeDirs && contents.length > this.cfg.compressionThreshold
+                    ? contents.length
+                    : 0;
 
-                yield { kind: 'directory-open', entry, prefix, isLast };
+                yield { kind: 'directory-open', entry, prefix, isLast, collapsed: collapsed || undefined };
 
-                if (!shouldCompress) {
+                if (!collapsed) {
                     // Recurse into directory
                     const nextPrefix = prefix + (isLast ? '    ' : '│   ');
-                    yield* this.streamDir(itemPath, nextPrefix, depth + 1);
+                    yield* this.streamDir(itemPath, nextPrefix, depth + 1, contents);
                 }
 
                 yield { kind: 'directory-close' };
@@ -149,95 +218,187 @@ export class StreamingGenerator {
                 yield { kind: 'file', entry, prefix, isLast };
             }
         }
+
+        if (omitted && !stopped) {
+            yield { kind: 'omitted', prefix, count: omitted };
+        }
+
+        if (dirKey) {
+            this.ancestors.delete(dirKey);
+        }
+    }
+
+    /** True once maxItems or maxDurationMs is reached (the reason is kept in stopReason) */
+    private budgetSpent(): boolean {
+        if (!this.stopReason) {
+            if (this.cfg.maxItems && this.processed >= this.cfg.maxItems) {
+                this.stopReason = 'item-budget';
+            } else if (this.deadline && Date.now() >= this.deadline) {
+                this.stopReason = 'time-budget';
+            }
+        }
+        return this.stopReason !== null;
+    }
+
+    /**
+     * Contents of a folder about to be streamed at `depth`. A failure is
+     * recorded on its entry when the folder is within maxDepth (as the
+     * non-streaming generator does) and leaves it empty.
+     */
+    private async readFolder(entry: FileEntry, depth: number): Promise<DirItem[]> {
+        const shown = !this.cfg.maxDepth || depth < this.cfg.maxDepth;
+        if (!shown && !this.cfg.compressLargeDirs) {
+            return [];
+        }
+        try {
+            return await this.source.readDir(entry.path);
+        } catch (e) {
+            if (shown) {
+                entry.error = describeReadError(e);
+            }
+            return [];
+        }
     }
 
     /**
-     * Add metadata to entry if configured
+     * Entry for a directory item (before plugins) and whether its contents
+     * are streamed – symlinks record their target, broken links and loops
      */
-    private async addMetadata(entry: FileEntry): Promise<void> {
-        if (!this.cfg.includeSize && !this.cfg.includePermissions && !this.cfg.includeModifiedDate) {
+    private async describe(item: DirItem, dir: string): Promise<{ entry: FileEntry; descend: boolean }> {
+        const itemPath = path.join(dir, item.name);
+        const entry: FileEntry = {
+            name: item.name,
+            path: itemPath,
+            type: item.isDirectory()
+                ? 'directory'
+                : item.isSymbolicLink()
+                    ? 'symlink'
+                    : 'file'
+        };
+
+        let descend = item.isDirectory();
+        let follow = false;
+        if (item.isSymbolicLink()) {
+            const link = await this.source.readLink(itemPath);
+            if (link.target !== undefined) {
+                entry.target = link.target;
+            }
+            const key = link.stats ? inodeKey(link.stats) : undefined;
+            if (!link.stats) {
+                entry.broken = true;
+            } else if (this.cfg.followSymlinks && key !== undefined) {
+                // following needs the target's identity to tell loops apart
+                follow = true;
+                if (link.stats.isDirectory()) {
+                    entry.cycle = this.ancestors.has(key) || undefined;
+                    descend = !entry.cycle;
+                }
+            }
+        }
+
+        // Add metadata if requested
+        await this.addMetadata(entry, follow);
+        const git = this.git?.lookup(itemPath, entry.type === 'directory');
+        if (git) {
+            entry.git = git;
+        }
+        return { entry, descend };
+    }
+
+    /**
+     * Add metadata to entry if configured or queried (an unfollowed symlink describes itself)
+     */
+    private async addMetadata(entry: FileEntry, follow = false): Promise<void> {
+        const size = this.cfg.includeSize || (this.query?.fields.has('size') ?? false);
+        const modified = this.cfg.includeModifiedDate || (this.query?.fields.has('modified') ?? false);
+        if (!size && !this.cfg.includePermissions && !modified) {
             return;
         }
 
-        const stats = await getStats(entry.path);
+        const stats = entry.type === 'symlink' && !follow ? await this.source.lstat(entry.path) : await this.source.stat(entry.path);
         if (stats) {
-            if (this.cfg.includeSize) {
-                entry.size = stats.size;
+            if (size) {
+                entry.size = this.sizeOf(stats);
             }
-            if (this.cfg.includePermissions) {
+            if (this.cfg.includePermissions && stats.mode !== undefined) {
                 entry.permissions = permissionsString(stats.mode);
             }
-            if (this.cfg.includeModifiedDate) {
+            if (modified && stats.mtime) {
                 entry.modified = stats.mtime;
             }
+        } else if (entry.type !== 'symlink') {
+            entry.error = VANISHED;
+        }
+    }
+
+    /** Apparent size (bytes in the file) or allocated size (512-byte blocks on disk) */
+    private sizeOf(stats: SourceStats): number {
+        if (this.cfg.sizeMode === 'allocated' && stats.blocks !== undefined) {
+            return stats.blocks * 512;
         }
+        return stats.size;
     }
 
     /**
-     * Check if directory should be compressed (too many items)
+     * Items that match the query (as scanned, before plugins) or lead to a
+     * match – the same tree the non-streaming generator keeps
      */
-    private async shouldCompressDirectory(dir: string): Promise<boolean> {
-        if (!this.cfg.compressLargeDirs) {
-            return false;
+    private async queryVisible(items: DirItem[], dir: string, depth: number): Promise<DirItem[]> {
+        const visible: DirItem[] = [];
+        for (const item of items) {
+            // the look-ahead is not counted as items, but it takes time
+            if (this.budgetSpent()) {
+                break;
+            }
+            const { entry, descend } = await this.describe(item, dir);
+            if (this.query!.matches(entry, this.root) || (descend && await this.containsMatch(entry.path, depth + 1))) {
+                visible.push(item);
+            }
         }
+        return visible;
+    }
 
-        try {
-            const items = await fs.promises.readdir(dir);
-            return items.length > this.cfg.compressionThreshold!;
-        } catch {
-            return false;
+    /** Whether anything below `dir` is visible (walked once per folder, then remembered) */
+    private async containsMatch(dir: string, depth: number): Promise<boolean> {
+        const known = this.matchBelow.get(dir);
+        if (known !== undefined) {
+            return known;
         }
+
+        let found = false;
+        if (!this.cfg.maxDepth || depth < this.cfg.maxDepth) {
+            // links inside the look-ahead must not loop either
+            const dirStats = this.cfg.followSymlinks ? await this.source.stat(dir) : null;
+            const dirKey = dirStats ? inodeKey(dirStats) : undefined;
+            const added = dirKey !== undefined && !this.ancestors.has(dirKey);
+            if (added) {
+                this.ancestors.add(dirKey!);
+            }
+            try {
+                const items = await this.filterAndSort(await this.source.readDir(dir), dir);
+                found = (await this.queryVisible(items, dir, depth)).length > 0;
+            } catch {
+                // an unreadable folder stays visible (with its error) – it may hold matches
+                found = true;
+            } finally {
+                if (added) {
+                    this.ancestors.delete(dirKey!);
+                }
+            }
+        }
+        this.matchBelow.set(dir, found);
+        return found;
     }
 
     /**
      * Filter and sort directory items
-     * (Reuses logic from non-streaming generator)
+     * (the filters are shared with the non-streaming generator)
      */
     private async filterAndSort(
-        items: fs.Dirent[],
+        items: DirItem[],
         parentPath: string
-    ): Promise<fs.Dirent[]> {
-        // Hidden files
-        let out = items.filter(i =>
-            this.cfg.includeHidden || !i.name.startsWith('.')
-        );
-
-        // Folder exclusion
-        if (this.cfg.excludeFolders) {
-            out = out.filter(i =>
-                !(i.isDirectory() && this.cfg.excludeFolders!.includes(i.name))
-            );
-        }
-
-        // Extension whitelist
-        if (this.cfg.extensionFilter && out.some(i => i.isFile())) {
-            out = out.filter(i =>
-                i.isFile()
-                    ? this.cfg.extensionFilter!.includes(
-                        path.extname(i.name).slice(1).toLowerCase()
-                    )
-                    : true
-            );
-        }
-
-        // Glob pattern exclusions
-        if (this.cfg.excludePatterns) {
-            out = out.filter(i => {
-                const full = path.join(parentPath, i.name);
-                return !this.cfg.excludePatterns!.some(p => matchesPattern(full, p));
-            });
-        }
-
-        // .gitignore handling
-        if (this.cfg.respectGitignore) {
-            const rules = await getGitignoreRules(parentPath);
-            if (rules) {
-                out = out.filter(i => {
-                    const full = path.join(parentPath, i.name);
-                    return !rules.isIgnored(full);
-                });
-            }
-        }
+    ): Promise<DirItem[]> {
+        const out = await this.filter!.apply(items, parentPath);
 
         // Sort
         out.sort((a, b) => {
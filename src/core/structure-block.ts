@@ -0,0 +1,178 @@
+/* ==================================================================
+   STRUCTURE BLOCKS (NO VSCODE DEPENDENCIES)
+   Keeps the content between <!-- structure:start --> and
+   <!-- structure:end --> markers of a markdown file up to date
+   ================================================================== */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { StructureGenerator } from './generator';
+import { FileEntry } from '../models/file-entry.interface';
+import { StructureConfig } from '../models/config.interface';
+import { formatMermaid, formatTree } from '../utils/formatting';
+import { readTemplates } from '../utils/template-store';
+
+/* ==================================================================
+   MARKER PARSING
+   ================================================================== */
+
+const START_RE = /<!--\s*structure:start\b([\s\S]*?)-->/g;
+const END_RE = /<!--\s*structure:end\s*-->/g;
+
+export interface StructureBlock {
+    attributes: Record<string, string>;
+    contentStart: number;       // index right after the start marker
+    contentEnd: number;         // index of the end marker
+    content: string;            // current text between the markers
+}
+
+/** Parse `depth=3 format="tree" template=docs` into a key → value map */
+export function parseMarkerAttributes(text: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    const re = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|(\S+))/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(text))) {
+        attrs[m[1]] = m[2] ?? m[3] ?? m[4];
+    }
+    return attrs;
+}
+
+export function findStructureBlocks(markdown: string): StructureBlock[] {
+    const blocks: StructureBlock[] = [];
+    START_RE.lastIndex = 0;
+
+    let start: RegExpExecArray | null;
+    while ((start = START_RE.exec(markdown))) {
+        const contentStart = start.index + start[0].length;
+        END_RE.lastIndex = contentStart;
+        const end = END_RE.exec(markdown);
+        if (!end) {
+            throw new Error(`Unclosed structure block at offset ${start.index} (missing <!-- structure:end -->)`);
+        }
+        blocks.push({
+            attributes: parseMarkerAttributes(start[1]),
+            contentStart,
+            contentEnd: end.index,
+            content: markdown.slice(contentStart, end.index)
+        });
+        START_RE.lastIndex = end.index + end[0].length;
+    }
+    return blocks;
+}
+
+/* ==================================================================
+   RENDERING (deterministic – no timestamps or timings)
+   ================================================================== */
+
+export type BlockFormat = 'tree' | 'list' | 'mermaid';
+
+export function renderStructureBlock(
+    root: FileEntry,
+    cfg: Required<StructureConfig>,
+    format: BlockFormat
+): string {
+    let body: string;
+    switch (format) {
+        case 'list':
+            body = renderList(root.children ?? [], '');
+            break;
+        case 'mermaid':
+            body = ['```mermaid', formatMermaid(root, cfg), '```'].join('\n');
+            break;
+        default:
+            body = ['```text', formatTree(root, cfg), '```'].join('\n');
+    }
+    return `\n${body}\n`;
+}
+
+function renderList(entries: FileEntry[], indent: string): string {
+    return entries
+        .map(e => {
+            const line = e.type === 'directory' ? `${indent}- **${e.name}/**` : `${indent}- ${e.name}`;
+            return e.children?.length ? `${line}\n${renderList(e.children, indent + '  ')}` : line;
+        })
+        .join('\n');
+}
+
+/* ==================================================================
+   SYNC A MARKDOWN FILE
+   ================================================================== */
+
+export interface BlockSyncResult {
+    file: string;
+    blocks: number;
+    stale: number;              // blocks whose content differed
+    written: boolean;
+}
+
+/**
+ * Regenerate every structure block in `file`.
+ * Start-marker attributes (all optional):
+ *   path     – folder to scan, relative to the markdown file (default: its folder)
+ *   depth    – maximum depth
+ *   format   – `tree` (fenced tree), `list` (nested markdown list) or `mermaid` (diagram)
+ *   template – template name from .vscode/folder-navigator-templates.json
+ *   exclude  – comma-separated folder names to exclude
+ * In `check` mode nothing is written; `stale` tells whether it would be.
+ */
+export async function syncStructureBlocks(
+    file: string,
+    baseConfig: StructureConfig,
+    opts: { check?: boolean; templatesRoot?: string } = {}
+): Promise<BlockSyncResult> {
+    const markdown = await fs.promises.readFile(file, 'utf8');
+    const blocks = findStructureBlocks(markdown);
+    const templates = await readTemplates(opts.templatesRoot ?? path.dirname(file));
+
+    let out = '';
+    let cursor = 0;
+    let stale = 0;
+
+    for (const block of blocks) {
+        const attrs = block.attributes;
+
+        let cfg: StructureConfig = { ...baseConfig };
+        if (attrs.template) {
+            const template = templates[attrs.template];
+            if (!template) {
+                throw new Error(`Template "${attrs.template}" not found`);
+            }
+            cfg = { ...cfg, ...template };
+        }
+        if (attrs.depth !== undefined) {
+            const depth = Number(attrs.depth);
+            if (!Number.isInteger(depth) || depth < 0) {
+                throw new Error(`Invalid depth "${attrs.depth}" in structure marker`);
+            }
+            cfg.maxDepth = depth;
+        }
+        if (attrs.exclude) {
+            cfg.excludeFolders = attrs.exclude.split(',').map(s => s.trim()).filter(Boolean);
+        }
+        const format = (attrs.format ?? 'tree') as BlockFormat;
+        if (format !== 'tree' && format !== 'list' && format !== 'mermaid') {
+            throw new Error(`Invalid format "${attrs.format}" in structure marker (use tree, list or mermaid)`);
+        }
+
+        const generator = new StructureGenerator(cfg);
+        const root = await generator.scan(path.resolve(path.dirname(file), attrs.path ?? '.'));
+        const rendered = renderStructureBlock(root, generator.config, format);
+
+        if (normalize(rendered) !== normalize(block.content)) {
+            stale++;
+        }
+        out += markdown.slice(cursor, block.contentStart) + rendered;
+        cursor = block.contentEnd;
+    }
+    out += markdown.slice(cursor);
+
+    const written = !opts.check && stale > 0;
+    if (written) {
+        await fs.promises.writeFile(file, out, 'utf8');
+    }
+    return { file, blocks: blocks.length, stale, written };
+}
+
+function normalize(text: string): string {
+    return text.replace(/\r\n/g, '\n').trim();
+}
@@ -0,0 +1,93 @@
+/* ==================================================================
+   STRUCTURE TIMELINE (NO VSCODE DEPENDENCIES)
+   Folder-level growth between two snapshots of the same tree
+   ================================================================== */
+
+import { FileEntry } from '../models/file-entry.interface';
+
+export type FolderTrend = 'appeared' | 'disappeared' | 'grew' | 'shrank' | 'unchanged';
+
+export interface FolderTotals {
+    size: number;               // bytes below the folder
+    files: number;              // files below the folder, recursively
+}
+
+export interface FolderChange {
+    path: string;               // relative to the snapshot root, '/'-separated ('' = root)
+    trend: FolderTrend;
+    before?: FolderTotals;      // absent when the folder appeared
+    after?: FolderTotals;       // absent when it disappeared
+}
+
+export interface TimelineComparison {
+    total: FolderChange;        // the root folder
+    folders: FolderChange[];    // every other folder present on either side
+}
+
+/**
+ * Compare the folders of two snapshots by relative path. A folder grew
+ * when its size went up (or, at equal size, its file count did). Folder
+ * totals come from the scan (`size`/`fileCount`); snapshots taken without
+ * sizes fall back to counting the files they contain.
+ */
+export function compareTimeline(before: FileEntry, after: FileEntry): TimelineComparison {
+    const left = collectFolders(before);
+    const right = collectFolders(after);
+
+    const folders: FolderChange[] = [];
+    for (const p of new Set([...left.keys(), ...right.keys()])) {
+        if (p) {
+            folders.push(folderChange(p, left.get(p), right.get(p)));
+        }
+    }
+    // biggest movers first, then by path
+    folders.sort((a, b) => Math.abs(sizeDelta(b)) - Math.abs(sizeDelta(a)) || a.path.localeCompare(b.path));
+
+    return { total: folderChange('', left.get(''), right.get('')), folders };
+}
+
+export function sizeDelta(change: FolderChange): number {
+    return (change.after?.size ?? 0) - (change.before?.size ?? 0);
+}
+
+export function fileDelta(change: FolderChange): number {
+    return (change.after?.files ?? 0) - (change.before?.files ?? 0);
+}
+
+function folderChange(p: string, before?: FolderTotals, after?: FolderTotals): FolderChange {
+    let trend: FolderTrend;
+    if (!before) {
+        trend = 'appeared';
+    } else if (!after) {
+        trend = 'disappeared';
+    } else {
+        const diff = after.size - before.size || after.files - before.files;
+        trend = diff > 0 ? 'grew' : diff < 0 ? 'shrank' : 'unchanged';
+    }
+    return { path: p, trend, before, after };
+}
+
+/** Relative path → totals for every directory in the tree */
+function collectFolders(root: FileEntry): Map<string, FolderTotals> {
+    const folders = new Map<string, FolderTotals>();
+    const visit = (entry: FileEntry, relPath: string): FolderTotals => {
+        let size = 0;
+        let files = 0;
+        for (const c of entry.children ?? []) {
+            if (c.type === 'directory') {
+                const sub = visit(c, relPath ? `${relPath}/${c.name}` : c.name);
+                size += sub.size;
+                files += sub.files;
+            } else if (c.type === 'file') {
+                size += c.size ?? 0;
+                files++;
+            }
+        }
+        // the scan's totals also cover contents hidden by maxDepth
+        const totals = { size: entry.size ?? size, files: entry.fileCount ?? files };
+        folders.set(relPath, totals);
+        return totals;
+    };
+    visit(root, '');
+    return folders;
+}
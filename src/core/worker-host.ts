@@ -0,0 +1,198 @@
+/* ==================================================================
+   WORKER HOST (NO VSCODE DEPENDENCIES)
+   Keeps one warm worker thread and runs generation jobs on it with
+   SharedArrayBuffer-backed cancellation
+   ================================================================== */
+
+import { Worker } from 'worker_threads';
+import { StructureConfig } from '../models/config.interface';
+import { FileEntry } from '../models/file-entry.interface';
+import { SharedBudget, WorkerRequest, WorkerResponse } from '../models/worker.interface';
+import { ProgressCallback } from './generator';
+
+/* ==================================================================
+   JOB TYPES
+   ================================================================== */
+
+export interface WorkerJobResult {
+    data: string;              // formatted output (plugins not applied yet)
+    partial: boolean;          // true when cancelled – data holds what was scanned so far
+    itemsProcessed: number;
+}
+
+export interface WorkerSubtreeResult {
+    entry: FileEntry;          // `truncated` when cancelled
+    itemsProcessed: number;
+    durationMs: number;        // time spent in the worker
+}
+
+export interface WorkerJob<T = WorkerJobResult> {
+    result: Promise<T>;
+    cancel(): void;
+}
+
+interface PendingJob {
+    resolve: (result: WorkerJobResult | WorkerSubtreeResult) => void;
+    reject: (error: Error) => void;
+    onProgress?: ProgressCallback;
+}
+
+/* ==================================================================
+   WORKER HOST CLASS
+   ================================================================== */
+
+export class WorkerHost {
+    private worker: Worker | null = null;
+    private jobs = new Map<number, PendingJob>();
+    private nextId = 1;
+    private idleTimer: NodeJS.Timeout | undefined;
+
+    /**
+     * @param workerPath  compiled worker.js
+     * @param idleTimeout ms without jobs before the thread is shut down
+     */
+    constructor(
+        private readonly workerPath: string,
+        private readonly idleTimeout = 60_000
+    ) {}
+
+    /** Thread id of the warm worker (undefined while none is running) */
+    get threadId(): number | undefined {
+        return this.worker?.threadId;
+    }
+
+    get busy(): boolean {
+        return this.jobs.size > 0;
+    }
+
+    /** Start a generation job on the warm worker (spawned on first use) */
+    run(rootPath: string, config: StructureConfig, onProgress?: ProgressCallback): WorkerJob {
+        return this.start<WorkerJobResult>(onProgress, (id, cancelFlag) =>
+            ({ type: 'run', id, rootPath, config, cancelFlag }));
+    }
+
+    /** Build the unformatted subtree below `dir` of a scan of `rootPath` (see StructureGenerator.scanSubtree) */
+    scan(
+        rootPath: string,
+        dir: string,
+        depth: number,
+        config: StructureConfig,
+        onProgress?: ProgressCallback,
+        budget?: SharedBudget
+    ): WorkerJob<WorkerSubtreeResult> {
+        return this.start<WorkerSubtreeResult>(onProgress, (id, cancelFlag) =>
+            ({ type: 'scan', id, rootPath, dir, depth, config, cancelFlag, budget }));
+    }
+
+    /** Terminate the thread; running jobs are rejected */
+    async dispose(): Promise<void> {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = undefined;
+        }
+        const worker = this.worker;
+        this.worker = null;
+        this.failAll(new Error('Worker host disposed'));
+        if (worker) {
+            await worker.terminate();
+        }
+    }
+
+    /* -----------------------------------------------------------------
+       INTERNALS
+       ----------------------------------------------------------------- */
+
+    private start<T extends WorkerJobResult | WorkerSubtreeResult>(
+        onProgress: ProgressCallback | undefined,
+        request: (id: number, cancelFlag: Int32Array) => WorkerRequest
+    ): WorkerJob<T> {
+        const worker = this.ensureWorker();
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = undefined;
+        }
+        worker.ref();
+
+        const id = this.nextId++;
+        const cancelFlag = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT));
+        const result = new Promise<T>((resolve, reject) => {
+            this.jobs.set(id, { resolve: resolve as PendingJob['resolve'], reject, onProgress });
+        });
+        this.post(request(id, cancelFlag));
+
+        return {
+            result,
+            cancel: () => {
+                // the flag is seen immediately; the message covers a worker that re-reads it later
+                Atomics.store(cancelFlag, 0, 1);
+                if (this.jobs.has(id)) {
+                    this.post({ type: 'cancel', id });
+                }
+            }
+        };
+    }
+
+    private ensureWorker(): Worker {
+        if (this.worker) {
+            return this.worker;
+        }
+        const worker = new Worker(this.workerPath);
+        worker.on('message', (msg: WorkerResponse) => this.onMessage(msg));
+        worker.on('error', err => {
+            this.worker = null;
+            this.failAll(err);
+        });
+        worker.on('exit', code => {
+            if (this.worker === worker) {
+                this.worker = null;
+                this.failAll(new Error(`Worker stopped with exit code ${code}`));
+            }
+        });
+        this.worker = worker;
+        return worker;
+    }
+
+    private post(msg: WorkerRequest): void {
+        this.worker?.postMessage(msg);
+    }
+
+    private onMessage(msg: WorkerResponse): void {
+        const job = this.jobs.get(msg.id);
+        if (!job) {
+            return;
+        }
+        if (msg.type === 'progress') {
+            job.onProgress?.(msg.increment, msg.message);
+            return;
+        }
+
+        this.jobs.delete(msg.id);
+        if (msg.type === 'result') {
+            job.resolve({ data: msg.data, partial: msg.partial, itemsProcessed: msg.itemsProcessed });
+        } else if (msg.type === 'tree') {
+            job.resolve({ entry: msg.entry, itemsProcessed: msg.itemsProcessed, durationMs: msg.durationMs });
+        } else {
+            job.reject(new Error(msg.error));
+        }
+        if (!this.jobs.size) {
+            this.scheduleIdleShutdown();
+        }
+    }
+
+    private failAll(error: Error): void {
+        for (const job of this.jobs.values()) {
+            job.reject(error);
+        }
+        this.jobs.clear();
+    }
+
+    /** An idle worker must not keep the process alive, and is stopped after a while */
+    private scheduleIdleShutdown(): void {
+        this.worker?.unref();
+        this.idleTimer = setTimeout(() => {
+            this.idleTimer = undefined;
+            void this.dispose();
+        }, this.idleTimeout);
+        this.idleTimer.unref();
+    }
+}
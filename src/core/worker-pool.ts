@@ -0,0 +1,145 @@
+/* ==================================================================
+   WORKER POOL (NO VSCODE DEPENDENCIES)
+   Splits a scan by top-level subdirectory across several warm workers
+   ================================================================== */
+
+import * as path from 'path';
+import { StructureConfig } from '../models/config.interface';
+import { FileEntry, TruncationReason } from '../models/file-entry.interface';
+import { SharedBudget } from '../models/worker.interface';
+import { PerformanceMonitor } from '../utils/performance';
+import { CancellationCheck, ProgressCallback, StructureGenerator } from './generator';
+import { PluginRegistry } from './plugin-registry';
+import { WorkerHost, WorkerJob, WorkerJobResult, WorkerSubtreeResult } from './worker-host';
+
+const CANCEL_POLL_INTERVAL = 100;       // ms
+
+/* ==================================================================
+   WORKER POOL CLASS
+   ================================================================== */
+
+export class WorkerPool {
+    private hosts: WorkerHost[] = [];
+
+    constructor(private readonly workerPath: string, size: number) {
+        this.resize(size);
+    }
+
+    get size(): number {
+        return this.hosts.length;
+    }
+
+    /** The first worker – also used for single-threaded `run` jobs */
+    get primary(): WorkerHost {
+        return this.hosts[0];
+    }
+
+    /** Grow or shrink the pool; surviving workers stay warm */
+    resize(size: number): void {
+        const target = Math.max(1, Math.floor(size));
+        while (this.hosts.length < target) {
+            this.hosts.push(new WorkerHost(this.workerPath));
+        }
+        for (const host of this.hosts.splice(target)) {
+            void host.dispose();
+        }
+    }
+
+    /**
+     * Generate formatted output with top-level folders scanned in parallel.
+     * The root listing, merge, sort and formatting happen on this thread,
+     * so the result is identical to a sequential scan. Folders are handed
+     * out from a shared queue – a worker that finishes early takes the next
+     * one. Per-worker busy time is recorded as `workerPool.worker<n>`.
+     * maxItems and maxDurationMs cover the whole scan: every thread counts
+     * into one shared budget, and folders still queued once it is spent
+     * are not scanned.
+     */
+    async generate(
+        rootPath: string,
+        config: StructureConfig,
+        onProgress?: ProgressCallback,
+        isCancelled?: CancellationCheck
+    ): Promise<WorkerJobResult> {
+        const idle = this.hosts.map((_, i) => i);
+        const waiting: ((index: number) => void)[] = [];
+        const running = new Set<WorkerJob<WorkerSubtreeResult>>();
+        const busyTime = new Array<number>(this.hosts.length).fill(0);
+        let cancelled = false;
+        const budget: SharedBudget = {
+            items: new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT)),
+            deadline: config.maxDurationMs ? Date.now() + config.maxDurationMs : 0
+        };
+        const spent = (): TruncationReason | null => {
+            if (config.maxItems && Atomics.load(budget.items, 0) >= config.maxItems) {
+                return 'item-budget';
+            }
+            return budget.deadline && Date.now() >= budget.deadline ? 'time-budget' : null;
+        };
+
+        const acquire = () => new Promise<number>(resolve => {
+            const free = idle.pop();
+            if (free !== undefined) {
+                resolve(free);
+            } else {
+                waiting.push(resolve);
+            }
+        });
+        const release = (index: number) => {
+            const next = waiting.shift();
+            if (next) {
+                next(index);
+            } else {
+                idle.push(index);
+            }
+        };
+
+        // forward cancellation to every running job
+        const poll = setInterval(() => {
+            if (!cancelled && isCancelled?.()) {
+                cancelled = true;
+                running.forEach(job => job.cancel());
+            }
+        }, CANCEL_POLL_INTERVAL);
+
+        const buildSubtree = async (dir: string, depth: number) => {
+            const index = await acquire();
+            try {
+                const stopped = cancelled ? 'cancelled' : spent();
+                if (stopped) {
+                    const stub: FileEntry = {
+                        name: path.basename(dir), path: dir, type: 'directory', children: [], truncated: true, truncation: stopped
+                    };
+                    return { entry: stub, itemsProcessed: 0 };
+                }
+                const job = this.hosts[index].scan(rootPath, dir, depth, config, onProgress, budget);
+                running.add(job);
+                try {
+                    const { entry, itemsProcessed, durationMs } = await job.result;
+                    busyTime[index] += durationMs;
+                    return { entry: PluginRegistry.getInstance().processDescendants(entry), itemsProcessed };
+                } finally {
+                    running.delete(job);
+                }
+            } finally {
+                release(index);
+            }
+        };
+
+        try {
+            const generator = new StructureGenerator(config, onProgress, isCancelled, { partialOnCancel: true, budget });
+            const data = await generator.generate(rootPath, buildSubtree);
+
+            const monitor = PerformanceMonitor.getInstance();
+            busyTime.forEach((ms, i) => monitor.recordOperation(`workerPool.worker${i + 1}`, ms));
+
+            return { data, partial: generator.truncation === 'cancelled', itemsProcessed: generator.itemsProcessed };
+        } finally {
+            clearInterval(poll);
+        }
+    }
+
+    async dispose(): Promise<void> {
+        await Promise.all(this.hosts.splice(0).map(h => h.dispose()));
+    }
+}
@@ -5,30 +5,81 @@
 
 import { parentPort } from 'worker_threads';
 import { StructureGenerator } from './generator';
-import { StructureConfig } from '../models/config.interface';
+import { WorkerRequest, WorkerResponse } from '../models/worker.interface';
+import { gitignoreCache, statsCache } from '../utils/cache';
 
 if (!parentPort) {
     throw new Error('This module must be run as a Worker thread');
 }
 
-// Listen for messages from the main thread
-parentPort.on('message', async (msg: { rootPath: string; config: StructureConfig }) => {
-    const { rootPath, config } = msg;
+const PROGRESS_INTERVAL = 100;          // ms between progress messages
 
-    // Define a progress callback that posts back to main thread
+const post = (msg: WorkerResponse) => parentPort!.postMessage(msg);
+const cancelFlags = new Map<number, Int32Array>();
+
+// Listen for messages from the main thread (the worker stays warm between runs)
+parentPort.on('message', async (msg: WorkerRequest) => {
+    if (msg.type === 'cancel') {
+        const flag = cancelFlags.get(msg.id);
+        if (flag) {
+            Atomics.store(flag, 0, 1);
+        }
+        return;
+    }
+
+    const { id, config, cancelFlag } = msg;
+    cancelFlags.set(id, cancelFlag);
+
+    // the main thread's watcher only invalidates its own caches – a warm
+    // worker must not serve stats or ignore rules from an earlier job
+    statsCache.clear();
+    gitignoreCache.clear();
+
+    // Batch progress – one message per interval instead of one per file
+    let pending = 0;
+    let lastMessage = '';
+    let lastPost = 0;
+    const flushProgress = () => {
+        if (pending) {
+            post({ type: 'progress', id, increment: pending, message: lastMessage });
+            pending = 0;
+            lastPost = Date.now();
+        }
+    };
     const onProgress = (increment: number, message: string) => {
-        parentPort!.postMessage({ type: 'progress', increment, message });
+        pending += increment;
+        lastMessage = message;
+        if (Date.now() - lastPost >= PROGRESS_INTERVAL) {
+            flushProgress();
+        }
     };
 
-    // No cancellation in worker for now (can be added later)
-    const isCancelled = () => false;
+    const isCancelled = () => Atomics.load(cancelFlag, 0) === 1;
 
     try {
-        const generator = new StructureGenerator(config, onProgress, isCancelled);
-        const result = await generator.generate(rootPath);
-        parentPort!.postMessage({ type: 'result', data: result });
+        const budget = msg.type === 'scan' ? msg.budget : undefined;
+        const generator = new StructureGenerator(config, onProgress, isCancelled, { partialOnCancel: true, budget });
+        if (msg.type === 'scan') {
+            const start = Date.now();
+            const entry = await generator.scanSubtree(msg.dir, msg.depth, msg.rootPath);
+            flushProgress();
+            post({ type: 'tree', id, entry, itemsProcessed: generator.itemsProcessed, durationMs: Date.now() - start });
+            return;
+        }
+
+        const result = await generator.generate(msg.rootPath);
+        flushProgress();
+        post({
+            type: 'result',
+            id,
+            data: result,
+            partial: generator.truncation === 'cancelled',
+            itemsProcessed: generator.itemsProcessed
+        });
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
-        parentPort!.postMessage({ type: 'error', error: errorMessage });
+        post({ type: 'error', id, error: errorMessage });
+    } finally {
+        cancelFlags.delete(id);
     }
 });
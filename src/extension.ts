@@ -4,22 +4,32 @@
    ================================================================== */
 
 import * as vscode from 'vscode';
-import { mainGenerate } from './commands/generate';
+import { disposeWorkerPool, mainGenerate } from './commands/generate';
 import { compareDirectoryStructures } from './commands/compare';
 import { exportStructureCommand } from './commands/export';
 import { generateWithAnalysisCommand } from './commands/analysis';
 import { manageTemplatesCommand } from './commands/templates';
 import { batchProcessCommand } from './commands/batch';
 import { showPerformanceReportCommand } from './commands/performance';
+import { showDiskUsageCommand } from './commands/disk-usage';
+import { syncStructureBlockCommand } from './commands/sync-block';
+import { scaffoldFromStructureCommand } from './commands/scaffold';
+import { saveStructureSnapshotCommand, showStructureTimelineCommand } from './commands/snapshots';
+import { clearScanIndexCommand, initScanIndex } from './commands/scan-index';
+import { createPluginApi, FolderStructureNavigatorApi, loadWorkspacePlugins } from './commands/plugins';
 import { applyPreset } from './utils/config';
 import { AdvancedCache, gitignoreCache, statsCache } from './utils/cache';
 import { PerformanceMonitor } from './utils/performance';
+import { PluginRegistry } from './core/plugin-registry';
+import { ScanIndex } from './utils/scan-index';
+import { copySubtree, STRUCTURE_VIEW_ID, StructureTreeProvider } from './views/structure-view';
+import { FileEntry } from './models/file-entry.interface';
 
 /* ==================================================================
    EXTENSION ACTIVATION
    ================================================================== */
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): FolderStructureNavigatorApi {
     console.log('🚀 Advanced Folder Structure Navigator v2.0 is now active!');
 
     // -----------------------------------------------------------------
@@ -29,12 +39,12 @@ export function activate(context: vscode.ExtensionContext) {
     // Main generation commands
     const generateStructure = vscode.commands.registerCommand(
         'advanced-folder-structure-navigator.generateStructure',
-        async (uri: vscode.Uri) => mainGenerate(uri, false)
+        async (uri?: vscode.Uri) => mainGenerate(uri, false)
     );
 
     const generateInteractiveStructure = vscode.commands.registerCommand(
         'advanced-folder-structure-navigator.generateInteractiveStructure',
-        async (uri: vscode.Uri) => mainGenerate(uri, true)
+        async (uri?: vscode.Uri) => mainGenerate(uri, true)
     );
 
     // Utility commands
@@ -45,7 +55,7 @@ export function activate(context: vscode.ExtensionContext) {
 
     const exportStructure = vscode.commands.registerCommand(
         'advanced-folder-structure-navigator.exportStructure',
-        async (uri: vscode.Uri) => exportStructureCommand(uri)
+        async (uri?: vscode.Uri) => exportStructureCommand(uri)
     );
 
     const showPerformanceReport = vscode.commands.registerCommand(
@@ -65,7 +75,38 @@ export function activate(context: vscode.ExtensionContext) {
 
     const generateWithAnalysis = vscode.commands.registerCommand(
         'advanced-folder-structure-navigator.generateWithAnalysis',
-        async (uri: vscode.Uri) => generateWithAnalysisCommand(uri)
+        async (uri?: vscode.Uri) => generateWithAnalysisCommand(uri)
+    );
+
+    const showDiskUsage = vscode.commands.registerCommand(
+        'advanced-folder-structure-navigator.showDiskUsage',
+        (uri?: vscode.Uri) => showDiskUsageCommand(uri)
+    );
+
+    // Marker-block commands
+    const syncStructureBlock = vscode.commands.registerCommand(
+        'advanced-folder-structure-navigator.syncStructureBlock',
+        (uri?: vscode.Uri) => syncStructureBlockCommand(uri, false)
+    );
+    const checkStructureBlock = vscode.commands.registerCommand(
+        'advanced-folder-structure-navigator.checkStructureBlock',
+        (uri?: vscode.Uri) => syncStructureBlockCommand(uri, true)
+    );
+
+    // Structure file → folders
+    const scaffoldFromStructure = vscode.commands.registerCommand(
+        'advanced-folder-structure-navigator.scaffoldFromStructure',
+        (uri?: vscode.Uri) => scaffoldFromStructureCommand(uri)
+    );
+
+    // Snapshots & timeline
+    const saveStructureSnapshot = vscode.commands.registerCommand(
+        'advanced-folder-structure-navigator.saveStructureSnapshot',
+        (uri?: vscode.Uri) => saveStructureSnapshotCommand(uri)
+    );
+    const showStructureTimeline = vscode.commands.registerCommand(
+        'advanced-folder-structure-navigator.showStructureTimeline',
+        () => showStructureTimelineCommand()
     );
 
     // Preset commands
@@ -86,6 +127,41 @@ export function activate(context: vscode.ExtensionContext) {
         () => applyPreset('development')
     );
 
+    // Plugin commands
+    const reloadPlugins = vscode.commands.registerCommand(
+        'advanced-folder-structure-navigator.reloadPlugins',
+        () => loadWorkspacePlugins(context, true)
+    );
+
+    // Scan index commands
+    const clearScanIndex = vscode.commands.registerCommand(
+        'advanced-folder-structure-navigator.clearScanIndex',
+        () => clearScanIndexCommand()
+    );
+
+    // Live Structure view (Explorer sidebar)
+    const structureProvider = new StructureTreeProvider();
+    const structureView = vscode.window.createTreeView(STRUCTURE_VIEW_ID, {
+        treeDataProvider: structureProvider,
+        showCollapseAll: true
+    });
+    const refreshStructureView = vscode.commands.registerCommand(
+        'advanced-folder-structure-navigator.refreshStructureView',
+        () => structureProvider.refresh()
+    );
+    const copySubtreeAsTree = vscode.commands.registerCommand(
+        'advanced-folder-structure-navigator.copySubtreeAsTree',
+        (entry?: FileEntry) => copySubtree(structureProvider, entry ?? structureView.selection[0], 'tree')
+    );
+    const copySubtreeAsMarkdown = vscode.commands.registerCommand(
+        'advanced-folder-structure-navigator.copySubtreeAsMarkdown',
+        (entry?: FileEntry) => copySubtree(structureProvider, entry ?? structureView.selection[0], 'markdown')
+    );
+    const copySubtreeAsJSON = vscode.commands.registerCommand(
+        'advanced-folder-structure-navigator.copySubtreeAsJSON',
+        (entry?: FileEntry) => copySubtree(structureProvider, entry ?? structureView.selection[0], 'json')
+    );
+
     // -----------------------------------------------------------------
     // REGISTER ALL SUBSCRIPTIONS
     // -----------------------------------------------------------------
@@ -98,22 +174,53 @@ export function activate(context: vscode.ExtensionContext) {
         manageTemplates,
         batchProcess,
         generateWithAnalysis,
+        showDiskUsage,
+        syncStructureBlock,
+        checkStructureBlock,
+        scaffoldFromStructure,
+        saveStructureSnapshot,
+        showStructureTimeline,
         applyMinimalPreset,
         applyDetailedPreset,
         applyDocumentationPreset,
-        applyDevelopmentPreset
+        applyDevelopmentPreset,
+        reloadPlugins,
+        clearScanIndex,
+        structureProvider,
+        structureView,
+        refreshStructureView,
+        copySubtreeAsTree,
+        copySubtreeAsMarkdown,
+        copySubtreeAsJSON
     );
+
+    // -----------------------------------------------------------------
+    // PERSISTENT SCAN INDEX (global storage + file watcher invalidation)
+    // -----------------------------------------------------------------
+    void initScanIndex(context);
+
+    // -----------------------------------------------------------------
+    // PLUGINS (workspace folder + other extensions via the API)
+    // -----------------------------------------------------------------
+    void loadWorkspacePlugins(context);
+
+    return createPluginApi(context);
 }
 
 /* ==================================================================
    EXTENSION DEACTIVATION
    ================================================================== */
 
-export function deactivate() {
+export async function deactivate(): Promise<void> {
     // Clear all caches
     AdvancedCache.getInstance().clear();
     gitignoreCache.clear();
     statsCache.clear();
+    PluginRegistry.getInstance().clear();
+
+    // Persist the scan index and stop the warm worker
+    await ScanIndex.getInstance().flush();
+    await disposeWorkerPool();
 
     // Log final performance metrics
     const monitor = PerformanceMonitor.getInstance();
@@ -3,25 +3,42 @@
    All configuration options for the folder structure generator
    ================================================================== */
 
+export type OutputFormat = 'tree' | 'json' | 'markdown' | 'xml' | 'csv' | 'du' | 'mermaid' | 'dot' | 'html' | 'yaml' | 'toml';
+
 export interface StructureConfig {
     // ---- filtering --------------------------------------------------
     includeHidden?: boolean;
     extensionFilter?: string[] | null;
     excludeFolders?: string[] | null;
     excludePatterns?: string[] | null;
+    includePatterns?: string[] | null;   // root-relative globs – only matching entries (and folders leading to them)
+    editorExcludes?: string[] | null;    // root-relative globs from files.exclude / search.exclude
+    filterExpression?: string | null;    // query, e.g. "size > 1MB and modified < 30d" (see core/query.ts)
     maxDepth?: number;                // 0 = unlimited
     respectGitignore?: boolean;
+    respectStructureIgnore?: boolean; // .structureignore files (gitignore syntax) in any folder
+    followSymlinks?: boolean;         // descend into linked folders (cycles are detected)
+
+    // ---- budgets (0 = unlimited) ----------------------------------------
+    maxItems?: number;                // stop after this many entries – the tree so far is kept
+    maxDurationMs?: number;           // stop after scanning this long
+    maxEntriesPerDirectory?: number;  // list at most this many entries of each folder
 
     // ---- metadata ---------------------------------------------------
     includeSize?: boolean;
     includePermissions?: boolean;
     includeModifiedDate?: boolean;
+    sizeMode?: 'apparent' | 'allocated';  // bytes in the file vs blocks on disk
+    includeGitInfo?: boolean;         // git status + last commit (hash, author, date) per entry
+    gitChurn?: boolean;               // commit count per folder
 
     // ---- UI / output ------------------------------------------------
     sortBy?: 'name' | 'size' | 'modified' | 'type';
-    outputFormat?: 'tree' | 'json' | 'markdown' | 'xml' | 'csv';
+    outputFormat?: OutputFormat;         // 'du' = heaviest subtrees (disk usage)
+    diskUsageTopN?: number;              // rows in the 'du' output
     useWorker?: boolean;
     useStreaming?: boolean;              // NEW - streaming mode for memory efficiency
+    workerPoolSize?: number;             // useWorker: > 1 scans top-level folders in parallel
 
     // ---- visual tweaks -----------------------------------------------
     iconStyle?: 'emoji' | 'unicode' | 'ascii' | 'none';
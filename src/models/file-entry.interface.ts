@@ -7,23 +7,87 @@ export interface FileEntry {
     name: string;
     path: string;
     type: 'file' | 'directory' | 'symlink';
-    size?: number;
+    size?: number;                          // directories: total of their contents
+    fileCount?: number;                     // directories: files below, recursively
+    percentOfParent?: number;               // share of the parent directory's size
     modified?: Date;
     permissions?: string;
+    target?: string;                        // symlinks: the link text (as readlink returns it)
+    broken?: boolean;                       // symlinks: target does not exist
+    cycle?: boolean;                        // symlinks: target is a parent folder – not followed
+    annotations?: Record<string, string>;   // added by plugins (owner, target, …)
+    git?: GitEntryInfo;                     // includeGitInfo / gitChurn
     children?: FileEntry[];
+    truncated?: boolean;                    // scan stopped before all children were read
+    truncation?: TruncationReason;          // scanned root only: why the scan stopped early
+    omitted?: number;                       // maxEntriesPerDirectory: entries left out of `children`
+    error?: string;                         // could not be read (folders: their contents) – e.g. permission denied
+}
+
+/** Why a scan stopped before visiting everything */
+export type TruncationReason = 'cancelled' | 'item-budget' | 'time-budget';
+
+/** An entry that could not be read, as listed in error summaries */
+export interface ScanError {
+    path: string;
+    error: string;
+}
+
+/* ==================================================================
+   GIT METADATA
+   Read from the local repository (see core/git-info.ts)
+   ================================================================== */
+
+/**
+ * Working-tree state. Folders take the state of their contents: `modified`
+ * if anything below has unstaged or untracked changes, else `staged` if
+ * anything is staged; `untracked` only when git reports the whole folder.
+ */
+export type GitStatus = 'untracked' | 'modified' | 'staged' | 'clean';
+
+export interface GitEntryInfo {
+    status?: GitStatus;
+    hash?: string;                          // last commit touching the entry (short hash)
+    author?: string;
+    date?: Date;                            // author date of that commit
+    commits?: number;                       // folders, gitChurn: commits touching anything below
+}
+
+/* ==================================================================
+   DIRECTORY ITEM
+   The part of fs.Dirent the generators use – also served from ScanIndex
+   ================================================================== */
+
+export interface DirItem {
+    name: string;
+    isDirectory(): boolean;
+    isFile(): boolean;
+    isSymbolicLink(): boolean;
 }
 
 /* ==================================================================
    GITIGNORE RULES INTERFACE
    ================================================================== */
 
+export interface IgnoreRule {
+    pattern: string;       // original line (for diagnostics)
+    base: string;          // directory the rule is relative to
+    negated: boolean;      // "!pattern" re-includes
+    dirOnly: boolean;      // "pattern/" only matches directories
+    anchored: boolean;     // contains a "/" → matched against the full relative path
+    matches: (subject: string) => boolean;
+}
+
 export interface GitignoreRules {
     patterns: string[];
-    isIgnored: (filePath: string) => boolean;
+    rules: IgnoreRule[];                  // ordered lowest → highest precedence
+    isIgnored: (filePath: string, isDirectory?: boolean) => boolean;
 }
 
 /* ==================================================================
-   PLUGIN INTERFACE (for future extensibility)
+   PLUGIN INTERFACE
+   Loaded by PluginRegistry from the workspace plugin folder or
+   registered by other extensions through the exported API
    ================================================================== */
 
 export interface StructurePlugin {
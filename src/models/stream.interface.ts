@@ -3,20 +3,27 @@
    Event-based streaming for memory-efficient generation
    ================================================================== */
 
-import { FileEntry } from './file-entry.interface';
+import { FileEntry, TruncationReason } from './file-entry.interface';
 
 /**
  * Stream events emitted during directory traversal.
  * Allows consumers to process items as they're discovered
  * rather than building the entire tree in memory.
+ * `collapsed` is the item count of a directory whose contents are not
+ * streamed (compressLargeDirs). `name` is the root's display name
+ * (e.g. `repo@main` for a git revision). `omitted` closes a folder whose
+ * listing maxEntriesPerDirectory capped; `stopped` closes each folder left
+ * unfinished when a budget ran out, and `end` then carries the reason.
  */
 export type StreamEvent =
-    | { kind: 'start'; root: string }
+    | { kind: 'start'; root: string; name?: string }
     | { kind: 'file'; entry: FileEntry; prefix: string; isLast: boolean }
-    | { kind: 'directory-open'; entry: FileEntry; prefix: string; isLast: boolean }
+    | { kind: 'directory-open'; entry: FileEntry; prefix: string; isLast: boolean; collapsed?: number }
     | { kind: 'directory-close' }
+    | { kind: 'omitted'; prefix: string; count: number }
+    | { kind: 'stopped'; prefix: string; reason: TruncationReason }
     | { kind: 'progress'; processed: number }
-    | { kind: 'end'; durationMs: number; totalItems: number };
+    | { kind: 'end'; durationMs: number; totalItems: number; truncation?: TruncationReason };
 
 /**
  * Callback type for streaming progress updates
@@ -0,0 +1,42 @@
+/* ==================================================================
+   WORKER MESSAGE PROTOCOL
+   Messages exchanged between WorkerHost (main thread) and worker.ts
+   ================================================================== */
+
+import { StructureConfig } from './config.interface';
+import { FileEntry } from './file-entry.interface';
+
+/**
+ * maxItems / maxDurationMs of one pooled scan, shared by the main thread
+ * and every worker: slot 0 of `items` (an Int32Array over a
+ * SharedArrayBuffer) counts the entries all of them visited, `deadline` is
+ * the epoch time the whole scan stops at (0 = none).
+ */
+export interface SharedBudget {
+    items: Int32Array;
+    deadline: number;
+}
+
+/**
+ * Main thread → worker.
+ * `cancelFlag` is an Int32Array over a SharedArrayBuffer; the worker's
+ * StructureGenerator polls slot 0 and stops as soon as it becomes 1, even
+ * while the worker's event loop is busy. The `cancel` message sets the same
+ * flag and exists for hosts that cannot share memory.
+ * `run` generates formatted output, `scan` builds one subtree for a pool
+ * (drawing on the pool's `budget`).
+ */
+export type WorkerRequest =
+    | { type: 'run'; id: number; rootPath: string; config: StructureConfig; cancelFlag: Int32Array }
+    | {
+        type: 'scan'; id: number; rootPath: string; dir: string; depth: number;
+        config: StructureConfig; cancelFlag: Int32Array; budget?: SharedBudget;
+    }
+    | { type: 'cancel'; id: number };
+
+/** Worker → main thread */
+export type WorkerResponse =
+    | { type: 'progress'; id: number; increment: number; message: string }
+    | { type: 'result'; id: number; data: string; partial: boolean; itemsProcessed: number }
+    | { type: 'tree'; id: number; entry: FileEntry; itemsProcessed: number; durationMs: number }
+    | { type: 'error'; id: number; error: string };
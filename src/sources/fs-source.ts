@@ -0,0 +1,53 @@
+/* ==================================================================
+   FILESYSTEM SOURCE
+   The default StructureSource – the local disk, through the cached
+   helpers in fs-helpers (ScanIndex, statsCache, gitignoreCache)
+   ================================================================== */
+
+import * as path from 'path';
+import { DirItem, GitignoreRules } from '../models/file-entry.interface';
+import {
+    getGitignoreRules, getLinkStats, getStats, readDirItems, readTextFile, resolveSymlink
+} from '../utils/fs-helpers';
+import { SourceStats, StructureSource } from './structure-source';
+
+export class FileSystemSource implements StructureSource {
+    private static instance: FileSystemSource;
+
+    private constructor() {}
+
+    static getInstance(): FileSystemSource {
+        if (!FileSystemSource.instance) {
+            FileSystemSource.instance = new FileSystemSource();
+        }
+        return FileSystemSource.instance;
+    }
+
+    rootName(root: string): string {
+        return path.basename(root) || root;
+    }
+
+    readDir(dir: string): Promise<DirItem[]> {
+        return readDirItems(dir);
+    }
+
+    stat(p: string): Promise<SourceStats | null> {
+        return getStats(p);
+    }
+
+    lstat(p: string): Promise<SourceStats | null> {
+        return getLinkStats(p);
+    }
+
+    readLink(p: string): Promise<{ target: string; stats: SourceStats | null }> {
+        return resolveSymlink(p);
+    }
+
+    ignoreRules(dir: string): Promise<GitignoreRules | null> {
+        return getGitignoreRules(dir);
+    }
+
+    readText(p: string): Promise<string> {
+        return readTextFile(p);
+    }
+}
@@ -0,0 +1,228 @@
+/* ==================================================================
+   GIT REVISION SOURCE (NO VSCODE DEPENDENCIES)
+   The tree of a branch, tag or commit read straight from git objects
+   (`git ls-tree -r`) – nothing is checked out. Paths look like the
+   working tree would if that revision were checked out.
+   ================================================================== */
+
+import * as path from 'path';
+import { DirItem, GitignoreRules } from '../models/file-entry.interface';
+import { createIgnoreRules, parseIgnoreFile } from '../utils/ignore-rules';
+import { runGit } from '../utils/git';
+import { SourceStats, StructureSource, StructureSourceError } from './structure-source';
+
+interface TreeNode {
+    kind: 'tree' | 'blob' | 'link' | 'submodule';
+    oid: string;
+    size: number;
+    mode: number;
+    ino: number;
+    children?: string[];
+}
+
+/** Symlink chains longer than this are treated as broken (like ELOOP) */
+const MAX_LINK_HOPS = 40;
+
+export class GitRevisionSource implements StructureSource {
+    /** Repo-relative path ('/'-separated, '' = repo root) → object */
+    private readonly nodes = new Map<string, TreeNode>();
+    private readonly linkTargets = new Map<string, string>();
+    private readonly ignoreCache = new Map<string, GitignoreRules>();
+
+    private constructor(
+        readonly revision: string,
+        private readonly top: string            // repo root, as seen from the scanned folder
+    ) {}
+
+    /**
+     * Read the tree of `revision` in the repository containing `dir`.
+     * Throws StructureSourceError when `dir` is not in a repository, the
+     * revision is unknown or `dir` does not exist in it.
+     */
+    static async open(dir: string, revision: string): Promise<GitRevisionSource> {
+        const prefix = (await runGit(dir, ['rev-parse', '--show-prefix']))?.trim();
+        if (prefix === undefined) {
+            throw new StructureSourceError(`Not a git repository: ${dir}`);
+        }
+        const commit = (await runGit(dir, ['rev-parse', '--verify', '--quiet', '--end-of-options', `${revision}^{commit}`]))?.trim();
+        if (!commit) {
+            throw new StructureSourceError(`Unknown revision "${revision}"`);
+        }
+        const listing = await runGit(dir, ['ls-tree', '-r', '-t', '-l', '-z', '--full-tree', commit]);
+        if (listing === undefined) {
+            throw new StructureSourceError(`Cannot read the tree of "${revision}"`);
+        }
+
+        const depth = prefix.split('/').filter(Boolean).length;
+        const top = path.resolve(dir, ...Array<string>(depth).fill('..'));
+        const source = new GitRevisionSource(revision, top);
+        source.readListing(listing);
+
+        const scanned = source.nodes.get(prefix.replace(/\/$/, ''));
+        if (scanned?.kind !== 'tree') {
+            throw new StructureSourceError(`${prefix.replace(/\/$/, '')} does not exist in "${revision}"`);
+        }
+        return source;
+    }
+
+    rootName(root: string): string {
+        return `${path.basename(root) || root}@${this.revision}`;
+    }
+
+    async readDir(dir: string): Promise<DirItem[]> {
+        // a followed symlink lists its target folder
+        const key = await this.resolve(this.keyOf(dir));
+        const node = key === null ? undefined : this.nodes.get(key);
+        if (!node || (node.kind !== 'tree' && node.kind !== 'submodule')) {
+            throw new StructureSourceError(`Not a folder in "${this.revision}": ${dir}`);
+        }
+        return (node.children ?? []).map(name => {
+            const kind = this.nodes.get(key ? `${key}/${name}` : name)!.kind;
+            return {
+                name,
+                isDirectory: () => kind === 'tree' || kind === 'submodule',
+                isFile: () => kind === 'blob',
+                isSymbolicLink: () => kind === 'link'
+            };
+        });
+    }
+
+    async stat(p: string): Promise<SourceStats | null> {
+        const key = await this.resolve(this.keyOf(p));
+        return key === null ? null : this.statsOf(this.nodes.get(key)!);
+    }
+
+    async lstat(p: string): Promise<SourceStats | null> {
+        const key = await this.locate(this.keyOf(p));
+        const node = key === null ? undefined : this.nodes.get(key);
+        return node ? this.statsOf(node) : null;
+    }
+
+    async readLink(p: string): Promise<{ target: string; stats: SourceStats | null }> {
+        const key = await this.locate(this.keyOf(p));
+        const target = key !== null && this.nodes.get(key)?.kind === 'link' ? await this.linkTarget(key) : '';
+        return { target, stats: await this.stat(p) };
+    }
+
+    /** `.gitignore` files of the revision, cascaded from the repo root like on disk */
+    async ignoreRules(dir: string): Promise<GitignoreRules | null> {
+        const rules = await this.resolveIgnoreRules(this.keyOf(dir));
+        return rules.patterns.length ? rules : null;
+    }
+
+    async readText(p: string): Promise<string> {
+        const key = await this.resolve(this.keyOf(p));
+        const node = key === null ? undefined : this.nodes.get(key);
+        return node?.kind === 'blob' ? this.readBlob(node.oid) : '';
+    }
+
+    /* -----------------------------------------------------------------
+       `git ls-tree -r -t -l -z`: `mode type oid size\tpath\0`
+       (size is '-' for trees; -t lists the trees themselves too)
+       ----------------------------------------------------------------- */
+    private readListing(out: string): void {
+        this.nodes.set('', { kind: 'tree', oid: '', size: 0, mode: 0o40755, ino: 0, children: [] });
+        for (const record of out.split('\0')) {
+            const tab = record.indexOf('\t');
+            if (tab < 0) {
+                continue;
+            }
+            const [mode, type, oid, size] = record.slice(0, tab).split(/ +/);
+            const key = record.slice(tab + 1);
+            const node: TreeNode = type === 'tree'
+                ? { kind: 'tree', oid, size: 0, mode: 0o40755, ino: 0, children: [] }
+                : type === 'commit'
+                    ? { kind: 'submodule', oid, size: 0, mode: 0o40755, ino: 0 }
+                    : mode === '120000'
+                        ? { kind: 'link', oid, size: Number(size) || 0, mode: 0o120777, ino: 0 }
+                        : { kind: 'blob', oid, size: Number(size) || 0, mode: parseInt(mode, 8), ino: 0 };
+            node.ino = this.nodes.size;
+            this.nodes.set(key, node);
+
+            const slash = key.lastIndexOf('/');
+            this.nodes.get(slash < 0 ? '' : key.slice(0, slash))?.children?.push(key.slice(slash + 1));
+        }
+    }
+
+    private statsOf(node: TreeNode): SourceStats {
+        const isDirectory = node.kind === 'tree' || node.kind === 'submodule';
+        return { size: node.size, mode: node.mode, dev: 0, ino: node.ino, isDirectory: () => isDirectory };
+    }
+
+    /** Native path below the repo root → repo-relative key */
+    private keyOf(p: string): string {
+        return path.relative(this.top, path.resolve(p)).split(path.sep).join('/');
+    }
+
+    /** Follow symlinks inside the revision – null when broken or pointing outside it */
+    private async resolve(key: string, hops = 0): Promise<string | null> {
+        let resolved = '';
+        for (const name of key ? key.split('/') : []) {
+            const next = resolved ? `${resolved}/${name}` : name;
+            const node = this.nodes.get(next);
+            if (!node) {
+                return null;
+            }
+            if (node.kind !== 'link') {
+                resolved = next;
+                continue;
+            }
+            const target = await this.linkTarget(next);
+            if (path.posix.isAbsolute(target) || hops >= MAX_LINK_HOPS) {
+                return null;
+            }
+            const joined = path.posix.normalize(path.posix.join(path.posix.dirname(next), target)).replace(/\/$/, '');
+            if (joined === '..' || joined.startsWith('../')) {
+                return null;
+            }
+            const found = await this.resolve(joined === '.' ? '' : joined, ++hops);
+            if (found === null) {
+                return null;
+            }
+            resolved = found;
+        }
+        return resolved;
+    }
+
+    /** Like resolve, but the last component stays as it is (a link is not followed) */
+    private async locate(key: string): Promise<string | null> {
+        const slash = key.lastIndexOf('/');
+        if (slash < 0) {
+            return key;
+        }
+        const parent = await this.resolve(key.slice(0, slash));
+        return parent === null ? null : `${parent ? `${parent}/` : ''}${key.slice(slash + 1)}`;
+    }
+
+    private async linkTarget(key: string): Promise<string> {
+        let target = this.linkTargets.get(key);
+        if (target === undefined) {
+            target = await this.readBlob(this.nodes.get(key)!.oid);
+            this.linkTargets.set(key, target);
+        }
+        return target;
+    }
+
+    private async readBlob(oid: string): Promise<string> {
+        return (await runGit(this.top, ['cat-file', 'blob', oid])) ?? '';
+    }
+
+    private async resolveIgnoreRules(key: string): Promise<GitignoreRules> {
+        const cached = this.ignoreCache.get(key);
+        if (cached) {
+            return cached;
+        }
+
+        const slash = key.lastIndexOf('/');
+        const inherited = key ? (await this.resolveIgnoreRules(slash < 0 ? '' : key.slice(0, slash))).rules : [];
+        const file = this.nodes.get(key ? `${key}/.gitignore` : '.gitignore');
+        const own = file?.kind === 'blob'
+            ? parseIgnoreFile(await this.readBlob(file.oid), path.join(this.top, ...key.split('/')))
+            : [];
+        const all = own.length ? [...inherited, ...own] : inherited;
+
+        const rules = createIgnoreRules(all);
+        this.ignoreCache.set(key, rules);
+        return rules;
+    }
+}
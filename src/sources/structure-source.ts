@@ -0,0 +1,57 @@
+/* ==================================================================
+   STRUCTURE SOURCES (NO VSCODE DEPENDENCIES)
+   Where the generators read folders from – the local filesystem by
+   default, or anything else that can list, stat and resolve paths
+   ================================================================== */
+
+import { DirItem, GitignoreRules } from '../models/file-entry.interface';
+
+/** The subset of `fs.Stats` the generators use */
+export interface SourceStats {
+    size: number;
+    blocks?: number;            // 512-byte blocks on disk (sizeMode 'allocated')
+    mode?: number;              // absent when the source has no permission bits
+    mtime?: Date;               // absent when the source has no timestamps
+    dev?: number;               // dev + ino identify an object (symlink cycle detection);
+    ino?: number;               // without them, symlinks are never followed
+    isDirectory(): boolean;
+}
+
+/**
+ * A tree the generators can walk. Paths are native, absolute paths below
+ * the scanned root, so filters, ignore rules and `FileEntry.path` behave
+ * the same whatever the source.
+ */
+export interface StructureSource {
+    /** Git revision the tree comes from – lets git metadata read that commit */
+    readonly revision?: string;
+
+    /** Display name of the scanned root */
+    rootName(root: string): string;
+
+    /** Entries of a folder (throws when it cannot be read) */
+    readDir(dir: string): Promise<DirItem[]>;
+
+    /** Follows symlinks; `null` when the path (or link target) does not exist */
+    stat(p: string): Promise<SourceStats | null>;
+
+    /** Describes a symlink itself, not its target */
+    lstat(p: string): Promise<SourceStats | null>;
+
+    /** Link text (when the source can read it) plus the target's stats (`null` = broken link) */
+    readLink(p: string): Promise<{ target?: string; stats: SourceStats | null }>;
+
+    /** Ignore rules for the contents of `dir`, `null` when there are none */
+    ignoreRules(dir: string): Promise<GitignoreRules | null>;
+
+    /** Content of a text file (e.g. `.structureignore`), '' when missing or unreadable */
+    readText(p: string): Promise<string>;
+}
+
+/** A source could not be opened (unknown revision, not a repository, …) */
+export class StructureSourceError extends Error {}
+
+/** True when `root` is a folder in `source` */
+export async function isSourceDirectory(source: StructureSource, root: string): Promise<boolean> {
+    return (await source.stat(root))?.isDirectory() ?? false;
+}
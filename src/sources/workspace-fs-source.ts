@@ -0,0 +1,132 @@
+/* ==================================================================
+   WORKSPACE FILESYSTEM SOURCE (VS CODE API – EXTENSION HOST ONLY)
+   Reads through `vscode.workspace.fs`, so folders behind any file
+   system provider work: vscode-remote (SSH, WSL, containers),
+   vscode-vfs (virtual workspaces), memfs, …
+   ================================================================== */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DirItem, GitignoreRules, IgnoreRule } from '../models/file-entry.interface';
+import { createIgnoreRules, parseIgnoreFile } from '../utils/ignore-rules';
+import { SourceStats, StructureSource } from './structure-source';
+import { FileSystemSource } from './fs-source';
+
+/**
+ * Paths handed to the generators are the URI's `path`; they are mapped
+ * back onto the same scheme and authority. Providers expose no inode
+ * numbers, permission bits or link text, so symlinks are listed but never
+ * followed and permissions are left out.
+ */
+export class WorkspaceFsSource implements StructureSource {
+    private readonly ignoreCache = new Map<string, GitignoreRules>();
+
+    constructor(private readonly base: vscode.Uri) {}
+
+    rootName(root: string): string {
+        return path.posix.basename(this.toPosix(root)) || this.base.authority || root;
+    }
+
+    async readDir(dir: string): Promise<DirItem[]> {
+        const entries = await vscode.workspace.fs.readDirectory(this.uriOf(dir));
+        return entries.map(([name, type]) => {
+            const link = (type & vscode.FileType.SymbolicLink) !== 0;
+            return {
+                name,
+                isDirectory: () => !link && (type & vscode.FileType.Directory) !== 0,
+                isFile: () => !link && (type & vscode.FileType.File) !== 0,
+                isSymbolicLink: () => link
+            };
+        });
+    }
+
+    async stat(p: string): Promise<SourceStats | null> {
+        const st = await this.fileStat(p);
+        // a dangling link is reported as a link to nothing
+        if (!st || !(st.type & (vscode.FileType.File | vscode.FileType.Directory))) {
+            return null;
+        }
+        const isDirectory = (st.type & vscode.FileType.Directory) !== 0;
+        return { size: st.size, mtime: new Date(st.mtime), isDirectory: () => isDirectory };
+    }
+
+    async lstat(p: string): Promise<SourceStats | null> {
+        const st = await this.fileStat(p);
+        if (!st) {
+            return null;
+        }
+        if (st.type & vscode.FileType.SymbolicLink) {
+            // providers only describe the target – the link itself takes no room
+            return { size: 0, mtime: new Date(st.mtime), isDirectory: () => false };
+        }
+        return this.stat(p);
+    }
+
+    async readLink(p: string): Promise<{ target?: string; stats: SourceStats | null }> {
+        return { stats: await this.stat(p) };
+    }
+
+    /** `.git/info/exclude` and every `.gitignore` from the repository root down, like on disk */
+    async ignoreRules(dir: string): Promise<GitignoreRules | null> {
+        const rules = await this.resolveIgnoreRules(dir);
+        return rules.patterns.length ? rules : null;
+    }
+
+    async readText(p: string): Promise<string> {
+        try {
+            return new TextDecoder().decode(await vscode.workspace.fs.readFile(this.uriOf(p)));
+        } catch {
+            return '';
+        }
+    }
+
+    private async resolveIgnoreRules(dir: string): Promise<GitignoreRules> {
+        const cached = this.ignoreCache.get(dir);
+        if (cached) {
+            return cached;
+        }
+
+        let inherited: IgnoreRule[] = [];
+        const parent = path.dirname(dir);
+        if (await this.fileStat(path.join(dir, '.git'))) {
+            inherited = parseIgnoreFile(await this.readText(path.join(dir, '.git', 'info', 'exclude')), dir);
+        } else if (parent !== dir) {
+            inherited = (await this.resolveIgnoreRules(parent)).rules;
+        }
+
+        const own = parseIgnoreFile(await this.readText(path.join(dir, '.gitignore')), dir);
+        const rules = createIgnoreRules(own.length ? [...inherited, ...own] : inherited);
+        this.ignoreCache.set(dir, rules);
+        return rules;
+    }
+
+    private async fileStat(p: string): Promise<vscode.FileStat | null> {
+        try {
+            return await vscode.workspace.fs.stat(this.uriOf(p));
+        } catch {
+            return null;
+        }
+    }
+
+    /** `path.join` uses `\` on Windows – URIs always use `/` */
+    private toPosix(p: string): string {
+        return p.split(path.sep).join('/');
+    }
+
+    private uriOf(p: string): vscode.Uri {
+        return this.base.with({ path: this.toPosix(p) });
+    }
+}
+
+/** Where to read a folder URI from: Node's fs for `file:`, `vscode.workspace.fs` for anything else */
+export function sourceForUri(uri: vscode.Uri): { source: StructureSource; root: string } {
+    if (uri.scheme === 'file') {
+        return { source: FileSystemSource.getInstance(), root: uri.fsPath };
+    }
+    return { source: new WorkspaceFsSource(uri), root: uri.path };
+}
+
+/** URI of a path produced by the source `sourceForUri(base)` picked */
+export function uriForPath(base: vscode.Uri, p: string): vscode.Uri {
+    return base.scheme === 'file' ? vscode.Uri.file(p) : base.with({ path: p.split(path.sep).join('/') });
+}
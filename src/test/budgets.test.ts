@@ -0,0 +1,208 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import { StructureGenerator } from '../core/generator';
+import { StreamingGenerator } from '../core/streaming-generator';
+import { StructureConfig } from '../models/config.interface';
+import { DirItem, FileEntry, GitignoreRules } from '../models/file-entry.interface';
+import { StreamEvent } from '../models/stream.interface';
+import { SourceStats, StructureSource } from '../sources/structure-source';
+import { FileSystemSource } from '../sources/fs-source';
+import { StreamingFormatter } from '../utils/streaming-formatter';
+import { parseStructure } from '../utils/parsing';
+import { CliUsageError, parseCliArgs } from '../cli';
+import { gitignoreCache, statsCache } from '../utils/cache';
+
+/** The local disk, but every folder takes a while to list */
+class SlowSource implements StructureSource {
+    private readonly disk = FileSystemSource.getInstance();
+
+    rootName(root: string): string {
+        return this.disk.rootName(root);
+    }
+
+    async readDir(dir: string): Promise<DirItem[]> {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return this.disk.readDir(dir);
+    }
+
+    stat(p: string): Promise<SourceStats | null> {
+        return this.disk.stat(p);
+    }
+
+    lstat(p: string): Promise<SourceStats | null> {
+        return this.disk.lstat(p);
+    }
+
+    readLink(p: string): Promise<{ target?: string; stats: SourceStats | null }> {
+        return this.disk.readLink(p);
+    }
+
+    ignoreRules(dir: string): Promise<GitignoreRules | null> {
+        return this.disk.ignoreRules(dir);
+    }
+
+    readText(p: string): Promise<string> {
+        return this.disk.readText(p);
+    }
+}
+
+suite('Core: Scan Budget Tests', () => {
+    let tempDir: string;
+
+    const createFile = (filePath: string, content: string = '') => {
+        const fullPath = path.join(tempDir, filePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    };
+
+    /** Root-relative paths of every entry below the root */
+    const flatten = (entry: FileEntry): string[] => (entry.children ?? []).flatMap(c => [
+        path.relative(tempDir, c.path).split(path.sep).join('/'),
+        ...flatten(c)
+    ]);
+
+    const events = async (cfg: StructureConfig, generator = new StreamingGenerator(cfg)) => {
+        const all: StreamEvent[] = [];
+        for await (const event of generator.generate(tempDir)) {
+            all.push(event);
+        }
+        return all;
+    };
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'budgets-test-'));
+        gitignoreCache.clear();
+        statsCache.clear();
+
+        createFile('a/1.txt');
+        createFile('a/2.txt');
+        createFile('b/3.txt');
+        createFile('c.txt');
+        createFile('d.txt');
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('maxItems stops the scan and keeps what was scanned', async () => {
+        const generator = new StructureGenerator({ maxItems: 3, iconStyle: 'none' });
+        const root = await generator.scan(tempDir);
+
+        assert.strictEqual(generator.truncation, 'item-budget');
+        assert.strictEqual(root.truncation, 'item-budget');
+        assert.deepStrictEqual(flatten(root), ['a', 'a/1.txt', 'a/2.txt']);
+
+        const tree = await generator.generate(tempDir);
+        assert.ok(tree.endsWith('└── … (incomplete – scan stopped: item budget reached)'));
+        assert.strictEqual(parseStructure(tree).truncation, 'item-budget');
+
+        const json = JSON.parse(await new StructureGenerator({ maxItems: 3, outputFormat: 'json' }).generate(tempDir));
+        assert.strictEqual(json.meta.truncated, 'item-budget');
+
+        const xml = await new StructureGenerator({ maxItems: 3, outputFormat: 'xml' }).generate(tempDir);
+        assert.strictEqual(parseStructure(xml).truncation, 'item-budget');
+    });
+
+    test('Totals below maxDepth count against maxItems', async () => {
+        const generator = new StructureGenerator({ maxItems: 2, maxDepth: 1, includeSize: true });
+        const root = await generator.scan(tempDir);
+
+        // "a" and its first file use up the budget – the totals of "a" are partial
+        assert.strictEqual(generator.truncation, 'item-budget');
+        assert.deepStrictEqual(root.children!.map(c => c.name), ['a']);
+        assert.strictEqual(root.children![0].fileCount, 1);
+        assert.strictEqual(root.children![0].truncated, true);
+        assert.strictEqual(generator.itemsProcessed, 1);
+    });
+
+    test('maxDurationMs stops a slow scan', async () => {
+        const generator = new StructureGenerator({ maxDurationMs: 10 }, undefined, undefined, { source: new SlowSource() });
+        const root = await generator.scan(tempDir);
+        assert.strictEqual(generator.truncation, 'time-budget');
+        assert.ok(flatten(root).length < 7);
+
+        const streaming = new StreamingGenerator({ maxDurationMs: 10 }, undefined, undefined, new SlowSource());
+        const all = await events({}, streaming);
+        assert.strictEqual(streaming.truncation, 'time-budget');
+        const end = all[all.length - 1];
+        assert.strictEqual(end.kind === 'end' && end.truncation, 'time-budget');
+    });
+
+    test('Budgets are not cancellations', async () => {
+        // stopping on a budget never throws, even without partialOnCancel
+        const generator = new StructureGenerator({ maxItems: 1 }, undefined, () => false);
+        await assert.doesNotReject(generator.scan(tempDir));
+        assert.strictEqual(generator.truncation, 'item-budget');
+
+        // the next scan starts with a fresh budget
+        const unlimited = new StructureGenerator({});
+        await unlimited.scan(tempDir);
+        assert.strictEqual(unlimited.truncation, null);
+    });
+
+    test('maxEntriesPerDirectory caps each listing', async () => {
+        const generator = new StructureGenerator({ maxEntriesPerDirectory: 2, iconStyle: 'none' });
+        const root = await generator.scan(tempDir);
+        assert.deepStrictEqual(flatten(root), ['a', 'a/1.txt', 'a/2.txt', 'b', 'b/3.txt']);
+        assert.strictEqual(root.omitted, 2);
+        assert.strictEqual(root.children![0].omitted, undefined);
+        assert.strictEqual(generator.truncation, null);
+
+        const tree = await generator.generate(tempDir);
+        assert.ok(tree.includes('├── b\n│   └── 3.txt\n└── … 2 more entries (maxEntriesPerDirectory)'));
+        assert.strictEqual(parseStructure(tree).omitted, 2);
+
+        const xml = await new StructureGenerator({ maxEntriesPerDirectory: 2, outputFormat: 'xml' }).generate(tempDir);
+        assert.strictEqual(parseStructure(xml).omitted, 2);
+    });
+
+    test('maxEntriesPerDirectory keeps the first entries in sortBy order', async () => {
+        createFile('big.txt', 'x'.repeat(200));
+        createFile('mid.txt', 'x'.repeat(300));
+        createFile('b/large.txt', 'x'.repeat(500));
+
+        // in name order "mid.txt" would be cut off
+        const root = await new StructureGenerator({ maxEntriesPerDirectory: 3, sortBy: 'size' }).scan(tempDir);
+        assert.deepStrictEqual(root.children!.map(c => c.name), ['b', 'a', 'mid.txt']);
+        assert.strictEqual(root.omitted, 3);
+        // totals only count what is listed
+        assert.strictEqual(root.size, 800);
+    });
+
+    test('The streaming generator honours the same budgets', async () => {
+        const capped = await events({ maxEntriesPerDirectory: 2 });
+        assert.deepStrictEqual(
+            capped.flatMap(e => e.kind === 'omitted' ? [`${e.prefix}|${e.count}`] : []),
+            ['|2']
+        );
+        const formatter = new StreamingFormatter({ iconStyle: 'none' });
+        assert.ok(capped.map(e => formatter.format(e)).join('').includes('└── … 2 more entries (maxEntriesPerDirectory)\n'));
+
+        const stopped = await events({ maxItems: 3 });
+        const names = stopped.flatMap(e => e.kind === 'file' || e.kind === 'directory-open' ? [e.entry.name] : []);
+        assert.deepStrictEqual(names, ['a', '1.txt', '2.txt']);
+        assert.ok(stopped.some(e => e.kind === 'stopped' && e.reason === 'item-budget'));
+
+        const tree = new StreamingFormatter({ iconStyle: 'none' });
+        const text = stopped.map(e => tree.format(e)).join('');
+        assert.ok(text.includes('└── … (incomplete – scan stopped: item budget reached)\n'));
+
+        const json = new StreamingFormatter({ outputFormat: 'json' });
+        assert.strictEqual(JSON.parse(stopped.map(e => json.format(e)).join('')).meta.truncated, 'item-budget');
+    });
+
+    test('Budget flags are non-negative integers', () => {
+        assert.deepStrictEqual(
+            parseCliArgs(['generate', '.', '--max-items', '500', '--max-duration', '2000', '--max-entries', '50']).config,
+            { maxItems: 500, maxDurationMs: 2000, maxEntriesPerDirectory: 50 }
+        );
+        assert.throws(() => parseCliArgs(['generate', '.', '--max-items', '-1']), CliUsageError);
+        assert.throws(() => parseCliArgs(['generate', '.', '--max-duration', '1.5s']), CliUsageError);
+    });
+});
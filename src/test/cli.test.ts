@@ -0,0 +1,161 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import { CliIO, CliUsageError, EXIT_FAILURE, EXIT_OK, EXIT_USAGE, parseCliArgs, runCli } from '../cli';
+import { gitignoreCache, statsCache } from '../utils/cache';
+
+suite('CLI Tests', () => {
+    let tempDir: string;
+    let out: string;
+    let err: string;
+    let io: CliIO;
+
+    const createFile = (filePath: string, content: string = '') => {
+        const fullPath = path.join(tempDir, filePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    };
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-test-'));
+        out = '';
+        err = '';
+        io = { stdout: t => { out += t; }, stderr: t => { err += t; }, cwd: tempDir };
+        gitignoreCache.clear();
+        statsCache.clear();
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Maps flags onto StructureConfig', () => {
+        const opts = parseCliArgs([
+            'generate', 'proj',
+            '--format', 'markdown',
+            '--max-depth', '4',
+            '--exclude', 'node_modules,dist',
+            '-e', 'coverage',
+            '--ext', '.ts,JS',
+            '--no-gitignore',
+            '--size',
+            '--git',
+            '--git-churn'
+        ]);
+
+        assert.strictEqual(opts.command, 'generate');
+        assert.strictEqual(opts.dir, 'proj');
+        assert.deepStrictEqual(opts.config, {
+            outputFormat: 'markdown',
+            maxDepth: 4,
+            excludeFolders: ['node_modules', 'dist', 'coverage'],
+            extensionFilter: ['ts', 'js'],
+            respectGitignore: false,
+            includeSize: true,
+            includeGitInfo: true,
+            gitChurn: true
+        });
+    });
+
+    test('Rejects invalid arguments', () => {
+        assert.throws(() => parseCliArgs(['generate', '.', '--format', 'pdf']), CliUsageError);
+        assert.throws(() => parseCliArgs(['generate', '.', '--max-depth', 'x']), CliUsageError);
+        assert.throws(() => parseCliArgs(['generate', '.', '--output']), CliUsageError);
+        assert.throws(() => parseCliArgs(['generate']), CliUsageError);
+        assert.throws(() => parseCliArgs(['frobnicate', '.']), CliUsageError);
+        assert.throws(() => parseCliArgs(['generate', '.', '--wat']), CliUsageError);
+    });
+
+    test('Writes the structure to stdout', async () => {
+        createFile('proj/src/main.ts');
+        createFile('proj/node_modules/lib/index.js');
+
+        const code = await runCli(['generate', 'proj', '--exclude', 'node_modules'], io);
+
+        assert.strictEqual(code, EXIT_OK);
+        assert.ok(out.includes('main.ts'));
+        assert.ok(!out.includes('node_modules'));
+    });
+
+    test('Writes to a file with --output', async () => {
+        createFile('proj/a.txt');
+
+        const code = await runCli(['generate', 'proj', '-f', 'json', '-o', 'out/structure.json'], io);
+
+        assert.strictEqual(code, EXIT_OK);
+        assert.strictEqual(out, '');
+        const parsed = JSON.parse(fs.readFileSync(path.join(tempDir, 'out/structure.json'), 'utf8'));
+        assert.strictEqual(parsed.structure.children[0].name, 'a.txt');
+    });
+
+    test('Streams output with --streaming', async () => {
+        createFile('proj/a.txt');
+
+        const code = await runCli(['generate', 'proj', '--streaming'], io);
+
+        assert.strictEqual(code, EXIT_OK);
+        assert.ok(out.includes('a.txt'));
+        assert.ok(out.includes('Total items: 1'));
+    });
+
+    test('Fails cleanly when the streamed output cannot be written', async () => {
+        createFile('proj/a.txt');
+        fs.mkdirSync(path.join(tempDir, 'taken'));
+
+        // the output path is a folder: opening it fails with EISDIR
+        const code = await runCli(['generate', 'proj', '--streaming', '-o', 'taken'], io);
+
+        assert.strictEqual(code, EXIT_FAILURE);
+        assert.ok(err.includes('EISDIR'), err);
+    });
+
+    test('Reads templates by name and lets flags override them', async () => {
+        createFile('proj/src/deep/file.ts');
+        createFile('proj/readme.md');
+        createFile('.vscode/folder-navigator-templates.json', JSON.stringify({
+            docs: { outputFormat: 'markdown', maxDepth: 1, extensionFilter: ['md'] }
+        }));
+
+        const code = await runCli(['generate', 'proj', '--template', 'docs', '--max-depth', '3'], io);
+
+        assert.strictEqual(code, EXIT_OK);
+        assert.ok(out.startsWith('# 📁 proj'), 'template format should apply');
+        assert.ok(out.includes('deep'), 'flag should override template depth');
+        assert.ok(!out.includes('file.ts'), 'template extension filter should apply');
+    });
+
+    test('Returns non-zero exit codes on errors', async () => {
+        assert.strictEqual(await runCli(['generate', 'missing'], io), EXIT_FAILURE);
+        assert.ok(err.includes('not a directory'));
+
+        createFile('proj/a.txt');
+        assert.strictEqual(await runCli(['generate', 'proj', '-t', 'nope'], io), EXIT_FAILURE);
+        assert.ok(err.includes('template "nope" not found'));
+
+        assert.strictEqual(await runCli(['generate', 'proj', '--format', 'pdf'], io), EXIT_USAGE);
+
+        assert.strictEqual(await runCli(['generate', 'proj', '-f', 'du', '--streaming'], io), EXIT_USAGE);
+        assert.ok(err.includes('--streaming does not support the du format'));
+    });
+
+    test('Prints help without arguments', async () => {
+        assert.strictEqual(await runCli([], io), EXIT_OK);
+        assert.ok(out.startsWith('Usage: fsn generate'));
+    });
+
+    test('sync --check fails on stale blocks and sync fixes them', async () => {
+        createFile('docs/a.txt');
+        createFile('docs/README.md', '<!-- structure:start -->\n<!-- structure:end -->\n');
+
+        assert.strictEqual(await runCli(['sync', 'docs/README.md', '--check'], io), EXIT_FAILURE);
+        assert.ok(err.includes('out of date'));
+
+        assert.strictEqual(await runCli(['sync', 'docs/README.md'], io), EXIT_OK);
+        assert.strictEqual(await runCli(['sync', 'docs/README.md', '--check'], io), EXIT_OK);
+        assert.ok(fs.readFileSync(path.join(tempDir, 'docs/README.md'), 'utf8').includes('a.txt'));
+    });
+});
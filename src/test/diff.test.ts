@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+import { FileEntry } from '../models/file-entry.interface';
+import { DiffNode, diffStructures, walkDiff } from '../core/diff';
+import { formatDiffJSON, formatDiffMarkdown, formatDiffTree } from '../utils/diff-formatting';
+
+suite('Core: Structure Diff Tests', () => {
+
+    const file = (p: string, size: number, modified?: Date): FileEntry => ({
+        name: p.split('/').pop()!,
+        path: p,
+        type: 'file',
+        size,
+        modified
+    });
+
+    const dir = (p: string, children: FileEntry[]): FileEntry => ({
+        name: p.split('/').pop()!,
+        path: p,
+        type: 'directory',
+        children
+    });
+
+    const find = (root: DiffNode, relPath: string): DiffNode | undefined => {
+        let hit: DiffNode | undefined;
+        walkDiff(root, n => {
+            if (n.path === relPath) {
+                hit = n;
+            }
+        });
+        return hit;
+    };
+
+    test('Classifies added, removed, changed and unchanged entries', () => {
+        const left = dir('/a', [
+            dir('/a/src', [file('/a/src/main.ts', 10), file('/a/src/old.ts', 5)]),
+            file('/a/README.md', 100)
+        ]);
+        const right = dir('/b', [
+            dir('/b/src', [file('/b/src/main.ts', 20), file('/b/src/new.ts', 7)]),
+            file('/b/README.md', 100)
+        ]);
+
+        const diff = diffStructures(left, right);
+
+        assert.strictEqual(find(diff.root, 'src/main.ts')?.status, 'changed');
+        assert.deepStrictEqual(find(diff.root, 'src/main.ts')?.changes, ['size']);
+        assert.strictEqual(find(diff.root, 'src/old.ts')?.status, 'removed');
+        assert.strictEqual(find(diff.root, 'src/new.ts')?.status, 'added');
+        assert.strictEqual(find(diff.root, 'README.md')?.status, 'unchanged');
+        assert.deepStrictEqual(diff.summary, {
+            added: 1, removed: 1, changed: 1, moved: 0, renamed: 0, unchanged: 2
+        });
+    });
+
+    test('Detects type changes', () => {
+        const left = dir('/a', [file('/a/config', 3)]);
+        const right = dir('/b', [dir('/b/config', [file('/b/config/app.json', 4)])]);
+
+        const node = find(diffStructures(left, right).root, 'config')!;
+
+        assert.strictEqual(node.status, 'changed');
+        assert.deepStrictEqual(node.changes, ['type']);
+        assert.strictEqual(node.children?.[0].status, 'added');
+    });
+
+    test('Modified dates only count when requested', () => {
+        const left = dir('/a', [file('/a/x.txt', 1, new Date('2024-01-01'))]);
+        const right = dir('/b', [file('/b/x.txt', 1, new Date('2024-06-01'))]);
+
+        assert.strictEqual(diffStructures(left, right).summary.changed, 1);
+        assert.strictEqual(diffStructures(left, right, { compareModified: false }).summary.changed, 0);
+    });
+
+    test('Detects moves by name and size', () => {
+        const left = dir('/a', [dir('/a/lib', [file('/a/lib/util.ts', 42)])]);
+        const right = dir('/b', [dir('/b/src', [file('/b/src/util.ts', 42)])]);
+
+        const diff = diffStructures(left, right);
+
+        assert.deepStrictEqual(diff.moves, [{ kind: 'moved', from: 'lib/util.ts', to: 'src/util.ts', size: 42 }]);
+        assert.strictEqual(diff.summary.moved, 1);
+        assert.strictEqual(diff.summary.added, 1, 'only the new src folder is added');
+        assert.strictEqual(diff.summary.removed, 1, 'only the old lib folder is removed');
+    });
+
+    test('Detects renames within the same folder', () => {
+        const left = dir('/a', [file('/a/helpers.ts', 300)]);
+        const right = dir('/b', [file('/b/utils.ts', 300)]);
+
+        const diff = diffStructures(left, right);
+
+        assert.strictEqual(diff.moves[0].kind, 'renamed');
+        assert.strictEqual(find(diff.root, 'utils.ts')?.movedFrom, 'helpers.ts');
+    });
+
+    test('Pairs a renamed folder of many files quickly', () => {
+        const files = (root: string) => Array.from({ length: 20000 }, (_, i) => file(`${root}/f${i}.ts`, i + 1));
+        const left = dir('/a', [dir('/a/old', files('/a/old'))]);
+        const right = dir('/b', [dir('/b/new', files('/b/new'))]);
+
+        const start = Date.now();
+        const diff = diffStructures(left, right);
+
+        assert.strictEqual(diff.summary.moved, 20000);
+        assert.ok(Date.now() - start < 2000, `took ${Date.now() - start} ms`);
+    });
+
+    test('Ambiguous candidates are not paired', () => {
+        const left = dir('/a', [file('/a/a.txt', 10), file('/a/b.txt', 10)]);
+        const right = dir('/b', [file('/b/c.txt', 10)]);
+
+        assert.strictEqual(diffStructures(left, right).moves.length, 0);
+    });
+
+    test('Merged tree uses +/-/~ markers and collapses unchanged folders', () => {
+        const left = dir('/a', [
+            dir('/a/stable', [file('/a/stable/x', 1)]),
+            file('/a/gone.txt', 1),
+            file('/a/edit.txt', 1)
+        ]);
+        const right = dir('/b', [
+            dir('/b/stable', [file('/b/stable/x', 1)]),
+            file('/b/edit.txt', 2),
+            file('/b/fresh.txt', 3)
+        ]);
+
+        const tree = formatDiffTree(diffStructures(left, right, { detectMoves: false }));
+
+        assert.ok(tree.includes('+ ├── fresh.txt') || tree.includes('+ └── fresh.txt'));
+        assert.ok(/^- .*gone\.txt$/m.test(tree));
+        assert.ok(/^~ .*edit\.txt \(size/m.test(tree));
+        assert.ok(tree.includes('stable (unchanged)'));
+        assert.ok(!tree.includes('── x'), 'unchanged folder contents are hidden');
+    });
+
+    test('Markdown report and JSON include the summary', () => {
+        const diff = diffStructures(dir('/a', []), dir('/b', [file('/b/new.ts', 1)]));
+
+        assert.ok(formatDiffMarkdown(diff).includes('| + Added | 1 |'));
+        const parsed = JSON.parse(formatDiffJSON(diff));
+        assert.strictEqual(parsed.summary.added, 1);
+        assert.strictEqual(parsed.root.children[0].status, 'added');
+    });
+});
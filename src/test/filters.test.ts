@@ -0,0 +1,127 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import { StructureGenerator } from '../core/generator';
+import { StreamingGenerator } from '../core/streaming-generator';
+import { splitGlobs } from '../core/filters';
+import { StructureConfig } from '../models/config.interface';
+import { FileEntry } from '../models/file-entry.interface';
+import { parseCliArgs } from '../cli';
+import { gitignoreCache, statsCache } from '../utils/cache';
+
+suite('Core: Entry Filter Tests', () => {
+    let tempDir: string;
+
+    const createFile = (filePath: string, content: string = '') => {
+        const fullPath = path.join(tempDir, filePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    };
+
+    /** Root-relative paths of every entry below the root */
+    const flatten = (entry: FileEntry): string[] => (entry.children ?? []).flatMap(c => [
+        path.relative(tempDir, c.path).split(path.sep).join('/'),
+        ...flatten(c)
+    ]);
+
+    const scan = async (cfg: StructureConfig) => flatten(await new StructureGenerator(cfg).scan(tempDir));
+
+    const stream = async (cfg: StructureConfig) => {
+        const paths: string[] = [];
+        for await (const event of new StreamingGenerator(cfg).generate(tempDir)) {
+            if (event.kind === 'file' || event.kind === 'directory-open') {
+                paths.push(path.relative(tempDir, event.entry.path).split(path.sep).join('/'));
+            }
+        }
+        return paths;
+    };
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'filters-test-'));
+        gitignoreCache.clear();
+        statsCache.clear();
+
+        createFile('src/index.ts');
+        createFile('src/lib/util.ts');
+        createFile('src/lib/util.test.ts');
+        createFile('docs/guide.md');
+        createFile('docs/api/ref.mdx');
+        createFile('docs/img/logo.png');
+        createFile('test/unit.ts');
+        createFile('package.json');
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Include patterns keep matches and the folders leading to them', async () => {
+        assert.deepStrictEqual(await scan({ includePatterns: ['src/**', 'docs/**'] }), [
+            'docs', 'docs/api', 'docs/api/ref.mdx', 'docs/img', 'docs/img/logo.png', 'docs/guide.md',
+            'src', 'src/lib', 'src/lib/util.test.ts', 'src/lib/util.ts', 'src/index.ts'
+        ]);
+        // a folder matched by name brings everything below it
+        assert.deepStrictEqual(await scan({ includePatterns: ['./docs/api/'] }), ['docs', 'docs/api', 'docs/api/ref.mdx']);
+    });
+
+    test('Include patterns support braces, character classes and globstars', async () => {
+        assert.deepStrictEqual(await scan({ includePatterns: ['docs/**/*.{md,mdx}'] }), [
+            'docs', 'docs/api', 'docs/api/ref.mdx', 'docs/img', 'docs/guide.md'
+        ]);
+        assert.deepStrictEqual(await scan({ includePatterns: ['src/**/[a-m]*.ts'] }), ['src', 'src/lib', 'src/index.ts']);
+        assert.deepStrictEqual(await scan({ includePatterns: ['*.json'] }), ['package.json']);
+    });
+
+    test('.structureignore files cascade from the scanned root', async () => {
+        createFile('.structureignore', '*.png\n/test/\n');
+        createFile('src/.structureignore', '*.test.ts\n');
+        createFile('src/lib/.structureignore', '!util.test.ts\n');
+        createFile('docs/.structureignore', 'api\n');
+
+        assert.deepStrictEqual(await scan({}), [
+            'docs', 'docs/img', 'docs/guide.md',
+            'src', 'src/lib', 'src/lib/util.test.ts', 'src/lib/util.ts', 'src/index.ts',
+            'package.json'
+        ]);
+        assert.ok((await scan({ respectStructureIgnore: false })).includes('docs/img/logo.png'));
+    });
+
+    test('Editor excludes are root-relative globs', async () => {
+        assert.deepStrictEqual(
+            await scan({ editorExcludes: ['**/*.test.ts', 'docs/{api,img}', 'package.json'] }),
+            ['docs', 'docs/guide.md', 'src', 'src/lib', 'src/lib/util.ts', 'src/index.ts', 'test', 'test/unit.ts']
+        );
+    });
+
+    test('Both generators apply the same filters', async () => {
+        createFile('docs/.structureignore', '*.png\n');
+        const cfg: StructureConfig = {
+            includePatterns: ['{src,docs}/**'],
+            editorExcludes: ['**/lib'],
+            excludePatterns: ['*.mdx']
+        };
+        const scanned = await scan(cfg);
+        assert.deepStrictEqual(scanned, ['docs', 'docs/api', 'docs/img', 'docs/guide.md', 'src', 'src/index.ts']);
+        assert.deepStrictEqual(await stream(cfg), scanned);
+    });
+
+    test('Subtrees built for a worker match against the scanned root', async () => {
+        const generator = new StructureGenerator({ includePatterns: ['src/lib/*.test.ts'] });
+        const sub = await generator.scanSubtree(path.join(tempDir, 'src'), 1, tempDir);
+        assert.deepStrictEqual(flatten(sub), ['src/lib', 'src/lib/util.test.ts']);
+    });
+
+    test('Glob lists split on commas outside braces', () => {
+        assert.deepStrictEqual(splitGlobs('src/**, docs/*.{md,mdx},,lib/{a,{b,c}}/*'), [
+            'src/**', 'docs/*.{md,mdx}', 'lib/{a,{b,c}}/*'
+        ]);
+        assert.deepStrictEqual(parseCliArgs(['generate', '.', '-i', 'src/**,{a,b}/*', '--no-structureignore']).config, {
+            includePatterns: ['src/**', '{a,b}/*'],
+            respectStructureIgnore: false
+        });
+    });
+});
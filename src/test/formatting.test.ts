@@ -1,7 +1,13 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
 import { FileEntry } from '../models/file-entry.interface';
 import { StructureConfig } from '../models/config.interface';
-import { formatTree, formatJSON, formatMarkdown, formatXML, formatCSV, getIcon } from '../utils/formatting';
+import {
+    formatTree, formatJSON, formatMarkdown, formatXML, formatCSV, formatMermaid, formatDot, getIcon, SCHEMA_VERSION
+} from '../utils/formatting';
+import { formatHTML } from '../utils/html-formatter';
+import { formatTOML, formatYAML } from '../utils/serializers';
 
 suite('Utils: Formatting Tests', () => {
 
@@ -39,15 +45,28 @@ suite('Utils: Formatting Tests', () => {
         extensionFilter: null,
         excludeFolders: null,
         excludePatterns: null,
+        includePatterns: null,
+        editorExcludes: null,
+        filterExpression: null,
         maxDepth: 0,
         respectGitignore: true,
+        respectStructureIgnore: true,
+        followSymlinks: false,
+        maxItems: 0,
+        maxDurationMs: 0,
+        maxEntriesPerDirectory: 0,
         includeSize: false,
         includePermissions: false,
         includeModifiedDate: false,
+        sizeMode: 'apparent',
+        includeGitInfo: false,
+        gitChurn: false,
         sortBy: 'name',
         outputFormat: 'tree',
+        diskUsageTopN: 20,
         useWorker: false,
         useStreaming: false,
+        workerPoolSize: 1,
         iconStyle: 'emoji',
         customIcons: {},
         compressLargeDirs: false,
@@ -248,4 +267,128 @@ suite('Utils: Formatting Tests', () => {
 
         assert.ok(result.includes('2025'), 'Should include year from modified date');
     });
+
+    test('formatMermaid renders a graph TD with folders and files', () => {
+        const result = formatMermaid(createSampleTree(), defaultConfig);
+
+        assert.deepStrictEqual(result.split('\n'), [
+            'graph TD',
+            '    n0["project/"]',
+            '    n0 --> n1["src/"]',
+            '    n1 --> n2("main.ts")',
+            '    n0 --> n3("README.md")'
+        ]);
+    });
+
+    test('formatDot weights labels by size and collapses large directories', () => {
+        const tree = createSampleTree();
+        tree.size = 1536;
+        tree.children![0].size = 1024;
+        tree.children![0].percentOfParent = 66.7;
+        tree.children![0].children!.push(
+            { name: 'a.ts', path: '/project/src/a.ts', type: 'file' },
+            { name: 'b.ts', path: '/project/src/b.ts', type: 'file' }
+        );
+        const config = { ...defaultConfig, includeSize: true, compressLargeDirs: true, compressionThreshold: 2 };
+
+        const result = formatDot(tree, config);
+
+        assert.ok(result.startsWith('digraph structure {'));
+        assert.ok(result.includes('n1 [label="src/ (1.0 KB, 66.7%)", shape=folder, fontsize=19];'));
+        assert.ok(result.includes('n2 [label="… 3 items", style=dashed];\n    n1 -> n2;'));
+        assert.ok(!result.includes('main.ts'), 'contents of collapsed directories are hidden');
+        assert.ok(result.endsWith('}'));
+    });
+
+    test('formatHTML produces a self-contained page with the tree as data', () => {
+        const tree = createSampleTree();
+        tree.children![1].name = '</script><b>x</b>';
+        const result = formatHTML(tree, { ...defaultConfig, includeSize: true }, 42, 3);
+
+        assert.ok(result.startsWith('<!DOCTYPE html>'));
+        assert.ok(!/\s(src|href)=/.test(result), 'no external assets');
+        assert.ok(result.includes('in 42ms · 3 items'), 'header shows the generation metadata');
+
+        const data = /<script id="data" type="application\/json">(.*?)<\/script>/s.exec(result)![1];
+        const root = JSON.parse(data);
+        assert.strictEqual(root.c[0].c[0].n, 'main.ts');
+        assert.strictEqual(root.c[0].c[0].h, '1.0 KB');
+        assert.strictEqual(root.c[1].n, '</script><b>x</b>', 'names survive the script-safe encoding');
+
+        const script = /<script>(.*?)<\/script>/s.exec(result)![1];
+        assert.doesNotThrow(() => new Function(script), 'inline script must parse');
+    });
+
+    test('formatYAML carries the same meta and nested structure as JSON', () => {
+        const tree = createSampleTree();
+        tree.children![1].modified = new Date('2025-01-01T00:00:00Z');
+        const lines = formatYAML(tree, { ...defaultConfig, customIcons: { '.vue': '🎨' } }, 7, 3).split('\n');
+
+        assert.strictEqual(lines[0], 'meta:');
+        assert.strictEqual(lines[1], `  schemaVersion: ${SCHEMA_VERSION}`);
+        assert.ok(lines.includes('    extensionFilter: null'));
+        assert.ok(lines.includes('      ".vue": "🎨"'));
+        const structure = lines.indexOf('structure:');
+        assert.deepStrictEqual(lines.slice(structure, structure + 8), [
+            'structure:',
+            '  name: "project"',
+            '  path: "/project"',
+            '  type: "directory"',
+            '  children:',
+            '    - name: "src"',
+            '      path: "/project/src"',
+            '      type: "directory"'
+        ]);
+        assert.ok(lines.includes('      modified: 2025-01-01T00:00:00.000Z'));
+    });
+
+    test('formatTOML nests children as arrays of tables', () => {
+        const tree = createSampleTree();
+        tree.annotations = { owner: 'team "a"' };
+        const result = formatTOML(tree, defaultConfig, 7, 3);
+
+        assert.ok(result.startsWith(`[meta]\nschemaVersion = ${SCHEMA_VERSION}\n`));
+        assert.ok(!result.includes('extensionFilter'), 'null values are omitted');
+        assert.ok(result.includes('[meta.config]\nincludeHidden = false'));
+        assert.ok(result.includes('customIcons = {}'));
+        assert.ok(result.includes([
+            '[structure]',
+            'name = "project"',
+            'path = "/project"',
+            'type = "directory"',
+            '',
+            '[[structure.children]]',
+            'name = "src"',
+            'path = "/project/src"',
+            'type = "directory"',
+            '',
+            '[[structure.children.children]]',
+            'name = "main.ts"'
+        ].join('\n')));
+        assert.ok(result.includes('[[structure.children]]\nname = "README.md"'));
+        assert.ok(result.endsWith('[structure.annotations]\nowner = "team \\"a\\""\n'), 'sub-tables follow the arrays');
+    });
+
+    test('JSON schema describes every exported field', () => {
+        const schema = JSON.parse(fs.readFileSync(path.join(__dirname, '../../schemas/structure.schema.json'), 'utf8'));
+        const tree = createSampleTree();
+        Object.assign(tree.children![0], {
+            fileCount: 1, percentOfParent: 66.7, permissions: 'rwxr-xr-x', modified: new Date(),
+            annotations: { owner: 'x' }, truncated: true, omitted: 2, error: 'permission denied'
+        });
+        tree.truncation = 'item-budget';
+        tree.children!.push({ name: 'l', path: '/project/l', type: 'symlink', target: 'x', broken: true, cycle: false });
+        const doc = JSON.parse(formatJSON(tree, defaultConfig, 1, 1));
+
+        assert.strictEqual(schema.$defs.meta.properties.schemaVersion.const, SCHEMA_VERSION);
+        assert.deepStrictEqual(Object.keys(doc.meta).sort(), Object.keys(schema.$defs.meta.properties).sort());
+        assert.deepStrictEqual(Object.keys(defaultConfig).sort(), Object.keys(schema.$defs.config.properties).sort());
+        const walk = (entry: Record<string, unknown>) => {
+            for (const key of Object.keys(entry)) {
+                assert.ok(key in schema.$defs.entry.properties, `schema lacks entry field "${key}"`);
+            }
+            (entry.children as Record<string, unknown>[] | undefined)?.forEach(walk);
+        };
+        walk(doc.structure);
+    });
 });
@@ -320,6 +320,31 @@ suite('Core: StructureGenerator Tests', () => {
         );
     });
 
+    test('Returns a partial tree on cancellation when requested', async () => {
+        createFile('a/1.txt');
+        createFile('a/2.txt');
+        createFile('b/3.txt');
+
+        // checks: root, "a", inside "a", "1.txt" – the fifth one cancels
+        let checks = 0;
+        const generator = new StructureGenerator(
+            { outputFormat: 'tree' },
+            undefined,
+            () => ++checks > 4,
+            { partialOnCancel: true }
+        );
+        const root = await generator.scan(tempDir);
+
+        assert.strictEqual(generator.truncation, 'cancelled');
+        assert.ok(root.truncated);
+        assert.deepStrictEqual(root.children!.map(c => c.name), ['a']);
+        assert.ok(root.children![0].truncated);
+        assert.deepStrictEqual(root.children![0].children!.map(c => c.name), ['1.txt']);
+
+        const output = await generator.generate(tempDir);
+        assert.ok(output.includes('incomplete'), 'tree output should mark truncated directories');
+    });
+
     test('Handles nested directory structures', async () => {
         createFile('src/components/Button.tsx');
         createFile('src/components/Input.tsx');
@@ -339,4 +364,117 @@ suite('Core: StructureGenerator Tests', () => {
         assert.ok(result.includes('utils'));
         assert.ok(result.includes('tests'));
     });
+
+    test('scan returns the filtered FileEntry tree', async () => {
+        createFile('src/main.ts', 'x');
+        createFile('.hidden');
+
+        const generator = new StructureGenerator({ includeSize: true });
+        const root = await generator.scan(tempDir);
+
+        assert.strictEqual(root.type, 'directory');
+        assert.deepStrictEqual(root.children!.map(c => c.name), ['src']);
+        assert.strictEqual(root.children![0].children![0].size, 1);
+        assert.strictEqual(generator.itemsProcessed, 2);
+        assert.strictEqual(generator.config.includeSize, true);
+        assert.strictEqual(generator.config.sortBy, 'name', 'defaults are filled in');
+    });
+
+    test('Aggregates directory sizes, file counts and share of parent', async () => {
+        createFile('big/a.bin', 'x'.repeat(300));
+        createFile('big/nested/b.bin', 'x'.repeat(500));
+        createFile('small/c.txt', 'x'.repeat(200));
+
+        const root = await new StructureGenerator({ includeSize: true }).scan(tempDir);
+        const [big, small] = root.children!;
+
+        assert.deepStrictEqual([root.size, root.fileCount], [1000, 3]);
+        assert.deepStrictEqual([big.size, big.fileCount, big.percentOfParent], [800, 2, 80]);
+        assert.deepStrictEqual([small.size, small.fileCount, small.percentOfParent], [200, 1, 20]);
+        assert.strictEqual(big.children![0].name, 'nested');
+        assert.strictEqual(big.children![0].percentOfParent, 62.5);
+    });
+
+    test('Size sort ranks folders by their contents', async () => {
+        createFile('aaa/tiny.txt', 'x');
+        createFile('zzz/huge.txt', 'x'.repeat(5000));
+
+        const root = await new StructureGenerator({ sortBy: 'size' }).scan(tempDir);
+
+        assert.deepStrictEqual(root.children!.map(c => c.name), ['zzz', 'aaa']);
+    });
+
+    test('Counts contents hidden by maxDepth', async () => {
+        createFile('a/b/c/deep.txt', 'x'.repeat(40));
+
+        const root = await new StructureGenerator({ includeSize: true, maxDepth: 1 }).scan(tempDir);
+
+        assert.deepStrictEqual(root.children![0].children, []);
+        assert.deepStrictEqual([root.children![0].size, root.children![0].fileCount], [40, 1]);
+    });
+
+    test('Allocated size mode counts disk blocks', async () => {
+        createFile('one.txt', 'x');
+        const blocks = fs.statSync(path.join(tempDir, 'one.txt')).blocks;
+
+        const root = await new StructureGenerator({ includeSize: true, sizeMode: 'allocated' }).scan(tempDir);
+
+        assert.strictEqual(root.children![0].size, blocks * 512);
+    });
+
+    test('du format lists the heaviest subtrees', async () => {
+        createFile('node_modules/lodash/index.js', 'x'.repeat(700));
+        createFile('node_modules/tiny/index.js', 'x'.repeat(100));
+        createFile('src/main.ts', 'x'.repeat(200));
+
+        const output = await new StructureGenerator({ outputFormat: 'du', diskUsageTopN: 2 }).generate(tempDir);
+        const rows = output.split('\n');
+
+        assert.ok(rows[0].includes('in 3 files (apparent size)'));
+        assert.ok(rows[2].includes('80.0%') && rows[2].endsWith('node_modules/  (80% of parent)'));
+        assert.ok(rows[3].includes('70.0%') && rows[3].includes('node_modules/lodash/'));
+        assert.strictEqual(rows[4], '… 2 smaller folders not shown');
+    });
+
+    test('Shows symlink targets and flags broken links', async () => {
+        createFile('real/a.txt', 'x');
+        fs.symlinkSync('real', path.join(tempDir, 'alias'));
+        fs.symlinkSync('missing.txt', path.join(tempDir, 'dangling'));
+
+        const generator = new StructureGenerator({ iconStyle: 'none' });
+        const root = await generator.scan(tempDir);
+        const alias = root.children!.find(c => c.name === 'alias')!;
+        const dangling = root.children!.find(c => c.name === 'dangling')!;
+
+        assert.deepStrictEqual([alias.type, alias.target, alias.broken, alias.children], ['symlink', 'real', undefined, undefined]);
+        assert.deepStrictEqual([dangling.target, dangling.broken], ['missing.txt', true]);
+
+        const tree = await generator.generate(tempDir);
+        assert.ok(tree.includes('alias -> real\n'));
+        assert.ok(tree.includes('dangling -> missing.txt (broken)'));
+
+        const csv = await new StructureGenerator({ outputFormat: 'csv' }).generate(tempDir);
+        assert.ok(csv.split('\n')[0].endsWith(',Target'));
+        assert.ok(csv.includes(',"missing.txt"'));
+
+        const xml = await new StructureGenerator({ outputFormat: 'xml' }).generate(tempDir);
+        assert.ok(xml.includes('name="dangling" type="symlink" target="missing.txt" broken="true"'));
+    });
+
+    test('Follows symlinked folders and stops at cycles', async () => {
+        createFile('packages/app/index.js', 'x'.repeat(10));
+        createFile('store/lib/main.js', 'x'.repeat(30));
+        fs.symlinkSync(path.join(tempDir, 'store/lib'), path.join(tempDir, 'packages/app/lib'));
+        fs.symlinkSync('..', path.join(tempDir, 'packages/app/parent'));
+
+        const root = await new StructureGenerator({ followSymlinks: true, includeSize: true }).scan(tempDir);
+        const app = root.children![0].children![0];
+        const lib = app.children!.find(c => c.name === 'lib')!;
+        const parent = app.children!.find(c => c.name === 'parent')!;
+
+        assert.strictEqual(lib.type, 'symlink');
+        assert.deepStrictEqual(lib.children!.map(c => c.name), ['main.js']);
+        assert.deepStrictEqual([parent.target, parent.cycle, parent.children], ['..', true, undefined]);
+        assert.deepStrictEqual([lib.size, lib.fileCount], [30, 1]);
+    });
 });
@@ -0,0 +1,195 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execFileSync } from 'child_process';
+
+import { StructureGenerator } from '../core/generator';
+import { StreamingGenerator } from '../core/streaming-generator';
+import { GitIndex } from '../core/git-info';
+import { FileEntry } from '../models/file-entry.interface';
+import { GitError } from '../utils/git';
+import { formatCSV, formatXML, gitSuffix } from '../utils/formatting';
+import { parseStructure } from '../utils/parsing';
+import { gitignoreCache, statsCache } from '../utils/cache';
+
+suite('Core: Git Metadata Tests', () => {
+    let tempDir: string;
+
+    const createFile = (filePath: string, content: string = '') => {
+        const fullPath = path.join(tempDir, filePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    };
+
+    const git = (args: string[], date = '2025-01-01T12:00:00Z') =>
+        execFileSync('git', args, {
+            cwd: tempDir,
+            env: {
+                ...process.env,
+                GIT_AUTHOR_NAME: 'Ada Lovelace',
+                GIT_AUTHOR_EMAIL: 'ada@example.com',
+                GIT_COMMITTER_NAME: 'Ada Lovelace',
+                GIT_COMMITTER_EMAIL: 'ada@example.com',
+                GIT_AUTHOR_DATE: date,
+                GIT_COMMITTER_DATE: date
+            }
+        }).toString().trim();
+
+    const find = (root: FileEntry, relPath: string): FileEntry => {
+        let node = root;
+        for (const name of relPath.split('/')) {
+            node = node.children!.find(c => c.name === name)!;
+        }
+        return node;
+    };
+
+    /**
+     * src/a.ts (2 commits), src/b.ts (1), docs/guide.md (1) – then
+     * src/a.ts modified, src/b.ts staged, new.txt and tmp/ untracked
+     */
+    const createRepo = () => {
+        git(['init', '-q']);
+        createFile('src/a.ts', 'one');
+        createFile('src/b.ts', 'b');
+        git(['add', '.']);
+        git(['commit', '-q', '-m', 'first']);
+        createFile('docs/guide.md', '# Guide');
+        createFile('src/a.ts', 'two');
+        git(['add', '.']);
+        git(['commit', '-q', '-m', 'second'], '2025-03-04T12:00:00Z');
+
+        createFile('src/a.ts', 'three');
+        createFile('src/b.ts', 'bb');
+        git(['add', 'src/b.ts']);
+        createFile('new.txt');
+        createFile('tmp/scratch/x.log');
+        return git(['rev-parse', '--short', 'HEAD']);
+    };
+
+    suiteSetup(function () {
+        try {
+            execFileSync('git', ['--version']);
+        } catch {
+            this.skip();
+        }
+    });
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-info-test-'));
+        gitignoreCache.clear();
+        statsCache.clear();
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Marks entries untracked, modified, staged or clean with their last commit', async () => {
+        const head = createRepo();
+        const root = await new StructureGenerator({ includeGitInfo: true }).scan(tempDir);
+
+        assert.deepStrictEqual(find(root, 'src/a.ts').git, {
+            status: 'modified',
+            hash: head,
+            author: 'Ada Lovelace',
+            date: new Date('2025-03-04T12:00:00Z')
+        });
+        assert.strictEqual(find(root, 'src/b.ts').git!.status, 'staged');
+        assert.strictEqual(find(root, 'src/b.ts').git!.date!.toISOString(), '2025-01-01T12:00:00.000Z');
+        assert.strictEqual(find(root, 'docs/guide.md').git!.status, 'clean');
+        assert.deepStrictEqual(find(root, 'new.txt').git, { status: 'untracked' });
+        assert.deepStrictEqual(find(root, 'tmp/scratch/x.log').git, { status: 'untracked' });
+
+        // folders take the state of their contents
+        assert.strictEqual(find(root, 'src').git!.status, 'modified');
+        assert.strictEqual(find(root, 'docs').git!.status, 'clean');
+        assert.strictEqual(find(root, 'tmp').git!.status, 'untracked');
+        assert.strictEqual(root.git!.status, 'modified');
+        assert.strictEqual(root.git!.hash, head);
+        assert.strictEqual(find(root, 'src').git!.commits, undefined);
+    });
+
+    test('Counts commits per folder for churn', async () => {
+        createRepo();
+        const root = await new StructureGenerator({ gitChurn: true }).scan(tempDir);
+
+        assert.deepStrictEqual(root.git, { commits: 2 });
+        assert.deepStrictEqual(find(root, 'src').git, { commits: 2 });
+        assert.deepStrictEqual(find(root, 'docs').git, { commits: 1 });
+        assert.deepStrictEqual(find(root, 'tmp').git, { commits: 0 });
+        assert.strictEqual(find(root, 'src/a.ts').git, undefined);
+    });
+
+    test('Works when scanning a subfolder of the repository', async () => {
+        createRepo();
+        const index = await GitIndex.load(path.join(tempDir, 'src'), { info: true, churn: true });
+
+        assert.strictEqual(index!.lookup(path.join(tempDir, 'src', 'b.ts'), false)!.status, 'staged');
+        assert.strictEqual(index!.lookup('a.ts', false)!.status, 'modified');
+        assert.strictEqual(index!.lookup(path.join(tempDir, 'src'), true)!.commits, 2);
+    });
+
+    test('Leaves entries alone outside a repository', async () => {
+        createFile('a.txt');
+        assert.strictEqual(await GitIndex.load(tempDir, { info: true, churn: true }), null);
+        const root = await new StructureGenerator({ includeGitInfo: true, gitChurn: true }).scan(tempDir);
+        assert.strictEqual(root.children![0].git, undefined);
+    });
+
+    test('Reports a history that cannot be read instead of dropping it', async () => {
+        createRepo();
+        await assert.rejects(
+            GitIndex.load(tempDir, { info: true, churn: true, revision: 'no-such-branch' }),
+            (e: Error) => e instanceof GitError && e.message.startsWith('Could not read the git history')
+        );
+
+        // a repository without commits simply has no history yet
+        fs.rmSync(path.join(tempDir, '.git'), { recursive: true, force: true });
+        git(['init', '-q']);
+        const index = await GitIndex.load(tempDir, { info: true, churn: true });
+        assert.deepStrictEqual(index!.lookup('new.txt', false), { status: 'untracked' });
+    });
+
+    test('Streams git metadata with each entry', async () => {
+        createRepo();
+        const generator = new StreamingGenerator({ includeGitInfo: true, gitChurn: true });
+        const seen: Record<string, FileEntry['git']> = {};
+        for await (const event of generator.generate(tempDir)) {
+            if (event.kind === 'file' || event.kind === 'directory-open') {
+                seen[path.relative(tempDir, event.entry.path)] = event.entry.git;
+            }
+        }
+        assert.strictEqual(seen['src']!.status, 'modified');
+        assert.strictEqual(seen['src']!.commits, 2);
+        assert.strictEqual(seen[path.join('src', 'b.ts')]!.status, 'staged');
+        assert.deepStrictEqual(seen['new.txt'], { status: 'untracked' });
+    });
+
+    test('Renders tree suffixes and CSV columns, and reads them back', async () => {
+        const head = createRepo();
+        const generator = new StructureGenerator({ includeGitInfo: true, gitChurn: true, iconStyle: 'none' });
+        const root = await generator.scan(tempDir);
+
+        assert.strictEqual(gitSuffix(find(root, 'src')), ` ⎇ [modified] ${head} 2025-03-04 Ada Lovelace · 2 commits`);
+        assert.strictEqual(gitSuffix(find(root, 'docs/guide.md')), ` ⎇ ${head} 2025-03-04 Ada Lovelace`);
+        assert.strictEqual(gitSuffix(find(root, 'new.txt')), ' ⎇ [untracked]');
+
+        // tree text keeps the day of the commit
+        const tree = parseStructure(await generator.generate(tempDir));
+        const day = new Date('2025-03-04');
+        assert.deepStrictEqual(find(tree, 'src').git, { ...find(root, 'src').git, date: day });
+        assert.deepStrictEqual(find(tree, 'docs/guide.md').git, { ...find(root, 'docs/guide.md').git, date: day });
+        assert.deepStrictEqual(find(tree, 'new.txt').git, { status: 'untracked' });
+
+        const csv = formatCSV(root);
+        assert.ok(csv.split('\n')[0].endsWith(',Git status,Last commit,Commit author,Commit date,Commits'));
+        assert.ok(csv.includes(`,modified,${head},"Ada Lovelace",2025-03-04T12:00:00.000Z,2`));
+        assert.deepStrictEqual(find(parseStructure(csv), 'src').git, find(root, 'src').git);
+
+        assert.deepStrictEqual(parseStructure(formatXML(root, 0)), root);
+        assert.deepStrictEqual(parseStructure(JSON.stringify({ structure: root })), root);
+    });
+});
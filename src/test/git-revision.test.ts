@@ -0,0 +1,221 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execFileSync } from 'child_process';
+
+import { StructureGenerator } from '../core/generator';
+import { StreamingGenerator } from '../core/streaming-generator';
+import { diffStructures } from '../core/diff';
+import { FileEntry } from '../models/file-entry.interface';
+import { GitRevisionSource } from '../sources/git-revision-source';
+import { StructureSourceError } from '../sources/structure-source';
+import { CliIO, EXIT_FAILURE, EXIT_OK, runCli } from '../cli';
+import { gitignoreCache, statsCache } from '../utils/cache';
+
+suite('Core: Git Revision Source Tests', () => {
+    let tempDir: string;
+
+    const createFile = (filePath: string, content: string = '') => {
+        const fullPath = path.join(tempDir, filePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    };
+
+    const git = (args: string[], date = '2025-01-01T12:00:00Z') =>
+        execFileSync('git', args, {
+            cwd: tempDir,
+            env: {
+                ...process.env,
+                GIT_AUTHOR_NAME: 'Ada Lovelace',
+                GIT_AUTHOR_EMAIL: 'ada@example.com',
+                GIT_COMMITTER_NAME: 'Ada Lovelace',
+                GIT_COMMITTER_EMAIL: 'ada@example.com',
+                GIT_AUTHOR_DATE: date,
+                GIT_COMMITTER_DATE: date
+            }
+        }).toString().trim();
+
+    const find = (root: FileEntry, relPath: string): FileEntry | undefined => {
+        let node: FileEntry | undefined = root;
+        for (const name of relPath.split('/')) {
+            node = node?.children?.find(c => c.name === name);
+        }
+        return node;
+    };
+
+    const names = (entry: FileEntry): string[] => (entry.children ?? []).map(c => c.name);
+
+    /**
+     * main: src/a.ts, src/run.sh (executable), docs/guide.md, a tracked but
+     * ignored debug.log and a `latest -> src` symlink. feature: src/b.ts added,
+     * docs/ removed. The working tree is left on feature with an extra file.
+     */
+    const createRepo = () => {
+        git(['init', '-q', '-b', 'main']);
+        createFile('src/a.ts', 'one');
+        createFile('src/run.sh', '#!/bin/sh\n');
+        fs.chmodSync(path.join(tempDir, 'src/run.sh'), 0o755);
+        createFile('docs/guide.md', '# Guide');
+        createFile('.gitignore', '*.log\n');
+        createFile('debug.log', 'trace');
+        fs.symlinkSync('src', path.join(tempDir, 'latest'));
+        git(['add', '.']);
+        git(['add', '-f', 'debug.log']);
+        git(['commit', '-q', '-m', 'first']);
+
+        git(['checkout', '-q', '-b', 'feature']);
+        createFile('src/b.ts', 'bee');
+        fs.rmSync(path.join(tempDir, 'docs'), { recursive: true });
+        git(['add', '-A']);
+        git(['commit', '-q', '-m', 'feature'], '2025-02-01T12:00:00Z');
+
+        createFile('wip.txt', 'not committed');
+    };
+
+    suiteSetup(function () {
+        try {
+            execFileSync('git', ['--version']);
+        } catch {
+            this.skip();
+        }
+    });
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-revision-test-'));
+        gitignoreCache.clear();
+        statsCache.clear();
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Scans a branch that is not checked out', async () => {
+        createRepo();
+        const source = await GitRevisionSource.open(tempDir, 'main');
+        const root = await new StructureGenerator({ includeHidden: true }, undefined, undefined, { source }).scan(tempDir);
+
+        assert.strictEqual(root.name, `${path.basename(tempDir)}@main`);
+        assert.strictEqual(root.path, tempDir);
+        // .git is not part of the tree, debug.log is hidden by the revision's .gitignore
+        assert.deepStrictEqual(names(root), ['docs', 'src', '.gitignore', 'latest']);
+        assert.deepStrictEqual(names(find(root, 'src')!), ['a.ts', 'run.sh']);
+        assert.strictEqual(find(root, 'src/a.ts')!.path, path.join(tempDir, 'src', 'a.ts'));
+
+        const unfiltered = await new StructureGenerator({ respectGitignore: false }, undefined, undefined, { source })
+            .scan(tempDir);
+        assert.ok(names(unfiltered).includes('debug.log'));
+    });
+
+    test('Reads sizes, permissions and symlinks from git objects', async () => {
+        createRepo();
+        const source = await GitRevisionSource.open(tempDir, 'main');
+        const root = await new StructureGenerator(
+            { includeSize: true, includePermissions: true, includeModifiedDate: true },
+            undefined,
+            undefined,
+            { source }
+        ).scan(tempDir);
+
+        assert.strictEqual(find(root, 'src/a.ts')!.size, 3);
+        assert.strictEqual(find(root, 'src/a.ts')!.permissions, 'rw-r--r--');
+        assert.strictEqual(find(root, 'src/run.sh')!.permissions, 'rwxr-xr-x');
+        assert.strictEqual(find(root, 'src/a.ts')!.modified, undefined);
+        assert.strictEqual(find(root, 'src')!.size, 3 + 10);
+
+        const link = find(root, 'latest')!;
+        assert.strictEqual(link.type, 'symlink');
+        assert.strictEqual(link.target, 'src');
+        assert.strictEqual(link.broken, undefined);
+
+        const followed = await new StructureGenerator({ followSymlinks: true, includeSize: true }, undefined, undefined, { source })
+            .scan(tempDir);
+        assert.deepStrictEqual(names(find(followed, 'latest')!), ['a.ts', 'run.sh']);
+        assert.strictEqual(find(followed, 'latest/a.ts')!.size, 3);
+    });
+
+    test('Compares two branches', async () => {
+        createRepo();
+        const scan = async (revision: string) => new StructureGenerator(
+            { includeSize: true },
+            undefined,
+            undefined,
+            { source: await GitRevisionSource.open(tempDir, revision) }
+        ).scan(tempDir);
+
+        const diff = diffStructures(await scan('main'), await scan('feature'));
+        assert.strictEqual(find(await scan('feature'), 'wip.txt'), undefined);
+        assert.deepStrictEqual(
+            { added: diff.summary.added, removed: diff.summary.removed },
+            { added: 1, removed: 2 }               // src/b.ts; docs/ and docs/guide.md
+        );
+    });
+
+    test('Scans a subfolder and marks every entry clean at that revision', async () => {
+        createRepo();
+        const hash = git(['rev-parse', '--short', 'main']);
+        const src = path.join(tempDir, 'src');
+        const root = await new StructureGenerator(
+            { includeGitInfo: true, gitChurn: true },
+            undefined,
+            undefined,
+            { source: await GitRevisionSource.open(src, 'main') }
+        ).scan(src);
+
+        assert.deepStrictEqual(names(root), ['a.ts', 'run.sh']);
+        assert.deepStrictEqual(find(root, 'a.ts')!.git, {
+            status: 'clean',
+            hash,
+            author: 'Ada Lovelace',
+            date: new Date('2025-01-01T12:00:00Z')
+        });
+        assert.strictEqual(root.git!.commits, 1);
+    });
+
+    test('Streams a revision', async () => {
+        createRepo();
+        const source = await GitRevisionSource.open(tempDir, 'feature');
+        const seen: string[] = [];
+        for await (const event of new StreamingGenerator({}, undefined, undefined, source).generate(tempDir)) {
+            if (event.kind === 'start') {
+                assert.strictEqual(event.name, `${path.basename(tempDir)}@feature`);
+            } else if (event.kind === 'file' || event.kind === 'directory-open') {
+                seen.push(path.relative(tempDir, event.entry.path));
+            }
+        }
+        assert.deepStrictEqual(seen, ['src', path.join('src', 'a.ts'), path.join('src', 'b.ts'), path.join('src', 'run.sh'), 'latest']);
+    });
+
+    test('Rejects unknown revisions, missing folders and non-repositories', async () => {
+        createRepo();
+        await assert.rejects(GitRevisionSource.open(tempDir, 'no-such-branch'), StructureSourceError);
+        await assert.rejects(GitRevisionSource.open(tempDir, '--output=x'), /Unknown revision/);
+        createFile('docs/new.md');
+        await assert.rejects(GitRevisionSource.open(path.join(tempDir, 'docs'), 'feature'), /does not exist in "feature"/);
+
+        const plain = fs.mkdtempSync(path.join(os.tmpdir(), 'git-revision-plain-'));
+        try {
+            await assert.rejects(GitRevisionSource.open(plain, 'main'), /Not a git repository/);
+        } finally {
+            fs.rmSync(plain, { recursive: true, force: true });
+        }
+    });
+
+    test('CLI --rev prints the structure of a revision', async () => {
+        createRepo();
+        let out = '';
+        let err = '';
+        const io: CliIO = { stdout: t => { out += t; }, stderr: t => { err += t; }, cwd: tempDir };
+
+        assert.strictEqual(await runCli(['generate', '.', '--rev', 'main', '--icons', 'none'], io), EXIT_OK);
+        assert.ok(out.includes(`${path.basename(tempDir)}@main`));
+        assert.ok(out.includes('guide.md'));
+        assert.ok(!out.includes('b.ts'));
+
+        assert.strictEqual(await runCli(['generate', '.', '-r', 'nope'], io), EXIT_FAILURE);
+        assert.match(err, /Unknown revision "nope"/);
+    });
+});
@@ -0,0 +1,148 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import { StructureGenerator } from '../core/generator';
+import { StructureConfig } from '../models/config.interface';
+import { FileEntry } from '../models/file-entry.interface';
+import { gitignoreCache, statsCache } from '../utils/cache';
+import { getGitignoreRules } from '../utils/fs-helpers';
+import { isPathIgnored, parseIgnoreFile } from '../utils/ignore-rules';
+
+suite('Utils: Gitignore Semantics Tests', () => {
+    let tempDir: string;
+
+    const createFile = (filePath: string, content: string = '') => {
+        const fullPath = path.join(tempDir, filePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    };
+
+    const generate = async () => {
+        const config: StructureConfig = {
+            respectGitignore: true,
+            includeHidden: false,
+            outputFormat: 'json'
+        };
+        const result = await new StructureGenerator(config).generate(tempDir);
+        const paths: string[] = [];
+        const walk = (node: FileEntry) => {
+            paths.push(path.relative(tempDir, node.path).split(path.sep).join('/'));
+            node.children?.forEach(walk);
+        };
+        walk(JSON.parse(result).structure);
+        return paths;
+    };
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gitignore-test-'));
+        fs.mkdirSync(path.join(tempDir, '.git', 'info'), { recursive: true });
+        gitignoreCache.clear();
+        statsCache.clear();
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Parses comments, escapes and trailing spaces', () => {
+        const rules = parseIgnoreFile('# comment\n\\#hash\n\\!bang\ntrail   \n\n', '/repo');
+
+        assert.deepStrictEqual(rules.map(r => r.negated), [false, false, false]);
+        assert.ok(isPathIgnored(rules, '/repo/#hash', false));
+        assert.ok(isPathIgnored(rules, '/repo/!bang', false));
+        assert.ok(isPathIgnored(rules, '/repo/trail', false));
+    });
+
+    test('Last matching rule wins for negations', () => {
+        const rules = parseIgnoreFile('*.log\n!keep.log', '/repo');
+
+        assert.strictEqual(isPathIgnored(rules, '/repo/a/debug.log', false), true);
+        assert.strictEqual(isPathIgnored(rules, '/repo/a/keep.log', false), false);
+    });
+
+    test('Leading slash anchors to the ignore file directory', () => {
+        const rules = parseIgnoreFile('/build', '/repo');
+
+        assert.strictEqual(isPathIgnored(rules, '/repo/build', true), true);
+        assert.strictEqual(isPathIgnored(rules, '/repo/src/build', true), false);
+    });
+
+    test('Middle slash anchors and ** spans directories', () => {
+        const rules = parseIgnoreFile('docs/*.txt\nlogs/**/trace', '/repo');
+
+        assert.strictEqual(isPathIgnored(rules, '/repo/docs/a.txt', false), true);
+        assert.strictEqual(isPathIgnored(rules, '/repo/docs/sub/a.txt', false), false);
+        assert.strictEqual(isPathIgnored(rules, '/repo/logs/trace', false), true);
+        assert.strictEqual(isPathIgnored(rules, '/repo/logs/a/b/trace', false), true);
+    });
+
+    test('Trailing slash only matches directories', () => {
+        const rules = parseIgnoreFile('out/', '/repo');
+
+        assert.strictEqual(isPathIgnored(rules, '/repo/pkg/out', true), true);
+        assert.strictEqual(isPathIgnored(rules, '/repo/pkg/out', false), false);
+    });
+
+    test('Generator honours negation and directory-only rules', async () => {
+        createFile('.gitignore', '*.log\n!keep.log\ncache/\n/root-only.txt');
+        createFile('debug.log');
+        createFile('keep.log');
+        createFile('cache/data.bin');
+        createFile('notes/cache');
+        createFile('root-only.txt');
+        createFile('notes/root-only.txt');
+
+        const paths = await generate();
+
+        assert.ok(paths.includes('keep.log'), 'negated file should be re-included');
+        assert.ok(!paths.includes('debug.log'));
+        assert.ok(!paths.includes('cache'), 'cache/ directory should be ignored');
+        assert.ok(paths.includes('notes/cache'), 'a file named cache is not a directory');
+        assert.ok(!paths.includes('root-only.txt'));
+        assert.ok(paths.includes('notes/root-only.txt'), 'anchored rule should not match deeper');
+    });
+
+    test('Nested .gitignore files cascade and override', async () => {
+        createFile('.gitignore', '*.tmp');
+        createFile('pkg/.gitignore', '!special.tmp\ngenerated/');
+        createFile('a.tmp');
+        createFile('pkg/b.tmp');
+        createFile('pkg/special.tmp');
+        createFile('pkg/generated/out.js');
+        createFile('generated/kept.js');
+
+        const paths = await generate();
+
+        assert.ok(!paths.includes('a.tmp'));
+        assert.ok(!paths.includes('pkg/b.tmp'), 'parent rules apply in subfolders');
+        assert.ok(paths.includes('pkg/special.tmp'), 'child negation overrides parent rule');
+        assert.ok(!paths.includes('pkg/generated'));
+        assert.ok(paths.includes('generated/kept.js'), 'child rules do not leak upwards');
+    });
+
+    test('Reads .git/info/exclude at the repository root', async () => {
+        createFile('.git/info/exclude', 'local-only.txt');
+        createFile('local-only.txt');
+        createFile('shared.txt');
+
+        const paths = await generate();
+
+        assert.ok(!paths.includes('local-only.txt'));
+        assert.ok(paths.includes('shared.txt'));
+    });
+
+    test('Caches resolved rules per directory', async () => {
+        createFile('.gitignore', '*.log');
+        createFile('sub/file.txt');
+
+        const rules = await getGitignoreRules(path.join(tempDir, 'sub'));
+
+        assert.ok(rules);
+        assert.ok(gitignoreCache.has(path.join(tempDir, 'sub')));
+        assert.ok(gitignoreCache.has(tempDir));
+    });
+});
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import { StructureGenerator } from '../core/generator';
+import { combineRoots } from '../core/multi-root';
+import { FileEntry } from '../models/file-entry.interface';
+import { StructureConfig } from '../models/config.interface';
+import { parseStructure } from '../utils/parsing';
+import { gitignoreCache, statsCache } from '../utils/cache';
+
+suite('Core: Multi-root Structure Tests', () => {
+    let tempDir: string;
+
+    const createFile = (filePath: string, content: string = '') => {
+        const fullPath = path.join(tempDir, filePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    };
+
+    /** Scan each folder below tempDir and name its root like its workspace folder */
+    const scanFolders = async (names: string[], cfg: StructureConfig = { includeSize: true }) => {
+        const roots: FileEntry[] = [];
+        for (const name of names) {
+            const root = await new StructureGenerator(cfg).scan(path.join(tempDir, name));
+            roots.push({ ...root, name: `${name} (folder)` });
+        }
+        return roots;
+    };
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'multi-root-test-'));
+        gitignoreCache.clear();
+        statsCache.clear();
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Puts one root node per folder under the workspace', async () => {
+        createFile('api/src/server.ts', 'x'.repeat(300));
+        createFile('web/index.html', 'x'.repeat(100));
+        const roots = await scanFolders(['api', 'web']);
+
+        const combined = combineRoots('shop', tempDir, roots);
+        assert.strictEqual(combined.name, 'shop');
+        assert.strictEqual(combined.path, tempDir);
+        assert.deepStrictEqual(combined.children!.map(c => c.name), ['api (folder)', 'web (folder)']);
+        assert.strictEqual(combined.size, 400);
+        assert.strictEqual(combined.fileCount, 2);
+        assert.deepStrictEqual(combined.children!.map(c => c.percentOfParent), [75, 25]);
+        // the scanned roots are left untouched
+        assert.strictEqual(roots[0].percentOfParent, undefined);
+    });
+
+    test('Leaves totals out when the roots carry no sizes', async () => {
+        createFile('a/one.txt');
+        createFile('b/two.txt');
+        const combined = combineRoots('ws', tempDir, await scanFolders(['a', 'b'], { includeSize: false }));
+        assert.strictEqual(combined.size, undefined);
+        assert.strictEqual(combined.children![0].percentOfParent, undefined);
+        assert.strictEqual(combineRoots('empty', tempDir, []).size, undefined);
+    });
+
+    test('Renders the combined tree in any format', async () => {
+        createFile('api/src/server.ts');
+        createFile('docs/guide.md');
+        const combined = combineRoots('shop', tempDir, await scanFolders(['api', 'docs'], {}));
+
+        const tree = new StructureGenerator({ iconStyle: 'none' }).render(combined);
+        assert.ok(tree.startsWith('📁 shop\n'));
+        assert.ok(tree.includes('├── api (folder)\n'));
+        assert.ok(tree.includes('└── docs (folder)\n'));
+
+        const json = new StructureGenerator({ outputFormat: 'json' }).render(combined, 12, 5);
+        assert.strictEqual(JSON.parse(json).meta.itemsProcessed, 5);
+        assert.deepStrictEqual(parseStructure(json).children!.map(c => c.name), ['api (folder)', 'docs (folder)']);
+    });
+
+    test('Marks the workspace incomplete when a folder scan stopped', () => {
+        const stopped: FileEntry = { name: 'a', path: 'a', type: 'directory', children: [], truncated: true };
+        assert.strictEqual(combineRoots('ws', '', [stopped]).truncated, true);
+    });
+});
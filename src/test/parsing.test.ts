@@ -0,0 +1,207 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import { StructureGenerator } from '../core/generator';
+import { FileEntry } from '../models/file-entry.interface';
+import { formatCSV, formatXML } from '../utils/formatting';
+import { detectStructureFormat, parseStructure, StructureParseError } from '../utils/parsing';
+import { gitignoreCache, statsCache } from '../utils/cache';
+
+suite('Utils: Structure Parsing Tests', () => {
+    let tempDir: string;
+
+    const createFile = (filePath: string, content: string = '') => {
+        const fullPath = path.join(tempDir, filePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    };
+
+    /** name/ for folders, nested as in the tree */
+    const shape = (entry: FileEntry): unknown =>
+        entry.type === 'directory'
+            ? { [`${entry.name}/`]: (entry.children ?? []).map(shape) }
+            : entry.name;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'parse-test-'));
+        gitignoreCache.clear();
+        statsCache.clear();
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Detects the format', () => {
+        assert.strictEqual(detectStructureFormat('  {"structure": {}}'), 'json');
+        assert.strictEqual(detectStructureFormat('# 📁 app\n\n```\n```'), 'markdown');
+        assert.strictEqual(detectStructureFormat('- **src/**\n  - a.ts'), 'markdown');
+        assert.strictEqual(detectStructureFormat('<?xml version="1.0"?>\n<folderStructure>'), 'xml');
+        assert.strictEqual(detectStructureFormat('Path,Type,Size (bytes)\n"app",directory,'), 'csv');
+        assert.strictEqual(detectStructureFormat('📁 app\n└── a.txt'), 'tree');
+    });
+
+    test('Reads generated tree text back', async () => {
+        createFile('src/utils/helpers.ts');
+        createFile('src/index.ts');
+        createFile('docs/.keep');
+        createFile('README.md');
+        fs.mkdirSync(path.join(tempDir, 'empty'));
+
+        for (const iconStyle of ['emoji', 'none'] as const) {
+            const text = await new StructureGenerator({ iconStyle, includeHidden: true }).generate(tempDir);
+            const root = parseStructure(text);
+
+            assert.strictEqual(root.name, path.basename(tempDir));
+            assert.deepStrictEqual(root.children!.map(shape), [
+                { 'docs/': ['.keep'] },
+                // without icons an empty folder cannot be told apart from a file
+                iconStyle === 'emoji' ? { 'empty/': [] } : 'empty',
+                { 'src/': [{ 'utils/': ['helpers.ts'] }, 'index.ts'] },
+                'README.md'
+            ]);
+            assert.strictEqual(root.children![2].children![0].children![0].path, `${root.name}/src/utils/helpers.ts`);
+        }
+    });
+
+    test('Reads hand-written ASCII trees with trailing slashes', () => {
+        const root = parseStructure([
+            'service/',
+            '|-- api/',
+            '|   `-- routes.ts',
+            '|-- migrations/',
+            '`-- main.go'
+        ].join('\n'), { rootPath: '/tmp/service' });
+
+        assert.deepStrictEqual(shape(root), { 'service/': [{ 'api/': ['routes.ts'] }, { 'migrations/': [] }, 'main.go'] });
+        assert.strictEqual(root.children![0].children![0].path, '/tmp/service/api/routes.ts');
+    });
+
+    test('Reads markdown and JSON exports', async () => {
+        createFile('lib/a.js');
+
+        const md = parseStructure(await new StructureGenerator({ outputFormat: 'markdown' }).generate(tempDir));
+        assert.deepStrictEqual(shape(md), { [`${path.basename(tempDir)}/`]: [{ 'lib/': ['a.js'] }] });
+
+        const json = parseStructure(await new StructureGenerator({ outputFormat: 'json', includeModifiedDate: true }).generate(tempDir));
+        assert.strictEqual(json.children![0].children![0].path, path.join(tempDir, 'lib', 'a.js'));
+        assert.ok(json.children![0].children![0].modified instanceof Date);
+    });
+
+    test('Reads metadata suffixes back from tree text in every icon style', async () => {
+        createFile('src/index.ts', 'x'.repeat(2048));
+        createFile('notes.txt', 'hi');
+        fs.symlinkSync('missing.txt', path.join(tempDir, 'dangling'));
+        const day = new Date().toISOString().split('T')[0];
+
+        for (const iconStyle of ['emoji', 'unicode', 'ascii', 'none'] as const) {
+            const text = await new StructureGenerator({
+                iconStyle,
+                includeSize: true,
+                includePermissions: true,
+                includeModifiedDate: true
+            }).generate(tempDir);
+            const [src, dangling, notes] = parseStructure(text).children!;
+
+            assert.strictEqual(dangling.name, 'dangling', iconStyle);
+            assert.strictEqual(dangling.type, 'symlink');
+            assert.strictEqual(dangling.target, 'missing.txt');
+            assert.strictEqual(dangling.broken, true);
+
+            assert.strictEqual(notes.name, 'notes.txt');
+            assert.strictEqual(notes.size, 2);
+            assert.match(notes.permissions!, /^[-rwx]{9}$/);
+            assert.strictEqual(notes.modified!.toISOString().split('T')[0], day);
+
+            // the file count marks a folder even when there is no icon
+            assert.strictEqual(src.type, 'directory', iconStyle);
+            assert.strictEqual(src.fileCount, 1);
+            assert.strictEqual(src.size, 2048);
+            assert.strictEqual(src.children![0].name, 'index.ts');
+        }
+    });
+
+    test('Reads annotations, custom icons and incomplete markers', () => {
+        const root = parseStructure([
+            '📁 app',
+            '├── 🧪 app.spec.ts (1.5 KB) {owner=qa, tier=2}',
+            '├── 📁 big',
+            '│   ├── a.ts',
+            '│   └── … (incomplete – scan stopped)',
+            '├── 📁 vendor',
+            '│   … (120 items, collapsed)',
+            '└── 🔗 up -> .. (cycle)'
+        ].join('\n'), { customIcons: { '.spec.ts': '🧪' } });
+
+        const [spec, big, vendor, up] = root.children!;
+        assert.strictEqual(spec.name, 'app.spec.ts');
+        assert.strictEqual(spec.size, 1536);
+        assert.deepStrictEqual(spec.annotations, { owner: 'qa', tier: '2' });
+        assert.strictEqual(big.truncated, true);
+        assert.deepStrictEqual(big.children!.map(c => c.name), ['a.ts']);
+        assert.deepStrictEqual(vendor.children, []);
+        assert.strictEqual(up.type, 'symlink');
+        assert.strictEqual(up.cycle, true);
+        assert.strictEqual(up.target, '..');
+    });
+
+    test('Reads nested markdown lists', () => {
+        const root = parseStructure('- **src/**\n  - **core/**\n    - a.ts\n  - b.ts\n- README.md', { rootPath: 'app' });
+        assert.deepStrictEqual(root.children!.map(shape), [{ 'src/': [{ 'core/': ['a.ts'] }, 'b.ts'] }, 'README.md']);
+        assert.strictEqual(root.children![0].children![1].path, 'app/src/b.ts');
+    });
+
+    test('JSON and XML exports round-trip losslessly', async () => {
+        createFile('src/a&b <"x">.ts', 'export {};');
+        createFile('src/deep/c.ts');
+        createFile('empty/.keep');
+        fs.rmSync(path.join(tempDir, 'empty/.keep'));
+        fs.symlinkSync('src', path.join(tempDir, 'link'));
+
+        const root = await new StructureGenerator({
+            includeHidden: true,
+            includeSize: true,
+            includePermissions: true,
+            includeModifiedDate: true
+        }).scan(tempDir);
+        const src = root.children!.find(c => c.name === 'src')!;
+        src.annotations = { owner: 'team <a> & "b"' };
+        src.children![0].annotations = { lint: 'ok' };
+        src.children!.find(c => c.name === 'deep')!.truncated = true;
+
+        const fromJSON = parseStructure(JSON.stringify({ structure: root }));
+        assert.deepStrictEqual(fromJSON, root);
+
+        const fromXML = parseStructure(formatXML(root, 0));
+        assert.deepStrictEqual(fromXML, root);
+    });
+
+    test('Reads CSV exports', async () => {
+        createFile('docs/a, "b".md', 'hello');
+        fs.symlinkSync('docs', path.join(tempDir, 'manual'));
+
+        const scanned = await new StructureGenerator({ includeSize: true, includeModifiedDate: true }).scan(tempDir);
+        const root = parseStructure(formatCSV(scanned));
+
+        assert.strictEqual(root.path, tempDir);
+        assert.deepStrictEqual(shape(root), { [`${path.basename(tempDir)}/`]: [{ 'docs/': ['a, "b".md'] }, 'manual'] });
+        const doc = root.children![0].children![0];
+        assert.strictEqual(doc.path, path.join(tempDir, 'docs', 'a, "b".md'));
+        assert.strictEqual(doc.size, 5);
+        assert.ok(doc.modified instanceof Date);
+        assert.strictEqual(root.children![1].target, 'docs');
+    });
+
+    test('Rejects malformed input', () => {
+        assert.throws(() => parseStructure('{ nope', { format: 'json' }), StructureParseError);
+        assert.throws(() => parseStructure('{"structure": {"name": "x"}}'), /needs name and type/);
+        assert.throws(() => parseStructure('root\n│   │   └── too-deep.ts'), /Unexpected indentation/);
+        assert.throws(() => parseStructure('# Title\n\nno fence'), /No fenced code block/);
+        assert.throws(() => parseStructure('<folderStructure><node name="x" type="directory">'), /Unclosed <node name="x">/);
+        assert.throws(() => parseStructure('Path,Type\n"a",directory\n"b/c",file'), /not inside a/);
+    });
+});
@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import { PluginRegistry } from '../core/plugin-registry';
+import { StructureGenerator } from '../core/generator';
+import { StreamingGenerator } from '../core/streaming-generator';
+import { StructureConfig } from '../models/config.interface';
+import { FileEntry, StructurePlugin } from '../models/file-entry.interface';
+import { gitignoreCache, statsCache } from '../utils/cache';
+
+suite('Core: Plugin Registry Tests', () => {
+    let tempDir: string;
+    let registry: PluginRegistry;
+
+    const createFile = (filePath: string, content: string = '') => {
+        const fullPath = path.join(tempDir, filePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    };
+
+    const ownerPlugin: StructurePlugin = {
+        name: 'owners',
+        version: '1.0.0',
+        processEntry: (entry: FileEntry) => entry.name === 'src'
+            ? { ...entry, annotations: { owner: 'team-a' } }
+            : entry
+    };
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-test-'));
+        registry = PluginRegistry.getInstance();
+        registry.clear();
+        gitignoreCache.clear();
+        statsCache.clear();
+    });
+
+    teardown(() => {
+        registry.clear();
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('processEntry annotations appear in tree output', async () => {
+        createFile('src/main.ts');
+        registry.register(ownerPlugin);
+
+        const config: StructureConfig = { outputFormat: 'tree' };
+        const result = await new StructureGenerator(config).generate(tempDir);
+
+        assert.ok(result.includes('src {owner=team-a}'), 'Should render plugin annotations');
+    });
+
+    test('formatOutput post-processes the formatted text', async () => {
+        createFile('file.txt');
+        registry.register({
+            name: 'footer',
+            version: '1.0.0',
+            formatOutput: (text, format) => `${text}\n-- ${format} --`
+        });
+
+        const result = await new StructureGenerator({ outputFormat: 'tree' }).generate(tempDir);
+
+        assert.ok(result.endsWith('-- tree --'));
+    });
+
+    test('processEntry runs for streamed entries', async () => {
+        createFile('src/main.ts');
+        registry.register(ownerPlugin);
+
+        const generator = new StreamingGenerator({ outputFormat: 'tree' });
+        let annotated: FileEntry | undefined;
+        for await (const event of generator.generate(tempDir)) {
+            if (event.kind === 'directory-open' && event.entry.name === 'src') {
+                annotated = event.entry;
+            }
+        }
+
+        assert.deepStrictEqual(annotated?.annotations, { owner: 'team-a' });
+    });
+
+    test('A throwing hook does not break generation', async () => {
+        createFile('file.txt');
+        registry.register({
+            name: 'broken',
+            version: '0.0.1',
+            processEntry: () => { throw new Error('boom'); }
+        }, 'broken.js');
+
+        const result = await new StructureGenerator({ outputFormat: 'tree' }).generate(tempDir);
+
+        assert.ok(result.includes('file.txt'));
+        assert.ok(registry.getFailures().get('broken.js')?.includes('boom'));
+    });
+
+    test('unregister removes the plugin', () => {
+        const unregister = registry.register(ownerPlugin);
+        assert.strictEqual(registry.getPlugins().length, 1);
+
+        unregister();
+        assert.strictEqual(registry.getPlugins().length, 0);
+    });
+
+    test('Rejects plugins without a name', () => {
+        assert.throws(() => registry.register({ version: '1.0.0' } as StructurePlugin), /name/);
+    });
+
+    test('Loads plugin files and isolates failures per file', async () => {
+        const pluginDir = path.join(tempDir, 'plugins');
+        createFile('plugins/good.js', 'module.exports = { name: "good", version: "1.0.0" };');
+        createFile('plugins/bad.js', 'throw new Error("syntax trouble");');
+        createFile('plugins/invalid.js', 'module.exports = { version: "1.0.0" };');
+        createFile('plugins/readme.txt', 'not a plugin');
+
+        const results = await registry.loadFromDirectory(pluginDir);
+
+        assert.strictEqual(results.length, 3);
+        assert.deepStrictEqual(registry.getPlugins().map(p => p.name), ['good']);
+        assert.ok(results.find(r => r.source.endsWith('bad.js'))?.error?.includes('syntax trouble'));
+        assert.ok(results.find(r => r.source.endsWith('invalid.js'))?.error?.includes('name'));
+    });
+
+    test('Missing plugin folder loads nothing', async () => {
+        const results = await registry.loadFromDirectory(path.join(tempDir, 'nope'));
+        assert.deepStrictEqual(results, []);
+    });
+});
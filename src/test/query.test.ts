@@ -0,0 +1,174 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import { StructureGenerator } from '../core/generator';
+import { StreamingGenerator } from '../core/streaming-generator';
+import { parseQuery, QueryError } from '../core/query';
+import { StructureConfig } from '../models/config.interface';
+import { FileEntry } from '../models/file-entry.interface';
+import { CliUsageError, parseCliArgs } from '../cli';
+import { gitignoreCache, statsCache } from '../utils/cache';
+
+const DAY = 86_400_000;
+const NOW = Date.parse('2025-06-01T00:00:00Z');
+
+suite('Core: Query Language Tests', () => {
+    const entry = (relPath: string, extra: Partial<FileEntry> = {}): FileEntry => ({
+        name: path.basename(relPath),
+        path: path.join('/repo', relPath),
+        type: 'file',
+        ...extra
+    });
+    const matches = (expression: string, e: FileEntry) => parseQuery(expression, NOW).matches(e, '/repo');
+
+    test('Compares sizes with binary units', () => {
+        const big = entry('a.bin', { size: 2 * 1024 * 1024 });
+        assert.strictEqual(matches('size > 1MB', big), true);
+        assert.strictEqual(matches('size >= 2048k', big), true);
+        assert.strictEqual(matches('size < 1.5mb', big), false);
+        assert.strictEqual(matches('size = 2097152', big), true);
+        // sizes are not known or not compared: folders and unread metadata never match
+        assert.strictEqual(matches('size > 0', entry('src', { type: 'directory', size: 4096 })), false);
+        assert.strictEqual(matches('size > 0', entry('b.txt')), false);
+    });
+
+    test('Compares ages and dates', () => {
+        const recent = entry('new.ts', { modified: new Date(NOW - 3 * DAY) });
+        const old = entry('old.ts', { modified: new Date(NOW - 90 * DAY) });
+        assert.strictEqual(matches('modified < 30d', recent), true);
+        assert.strictEqual(matches('modified < 30d', old), false);
+        assert.strictEqual(matches('modified >= 12w', old), true);
+        assert.strictEqual(matches('modified > 2025-05-01', recent), true);
+        assert.strictEqual(matches('modified < 2025-05-01', recent), false);
+        assert.strictEqual(matches('modified < 1y', entry('unknown.ts')), false);
+    });
+
+    test('Matches names, paths, extensions and types', () => {
+        const spec = entry('src/test/util.test.TS');
+        assert.strictEqual(matches('ext = ts', spec), true);
+        assert.strictEqual(matches('ext in (js, .ts)', spec), true);
+        assert.strictEqual(matches('ext not in (js, tsx)', spec), true);
+        assert.strictEqual(matches('path ~ /^src\\/test\\//', spec), true);
+        assert.strictEqual(matches('path ~ /TEST/i and name !~ "^index"', spec), true);
+        assert.strictEqual(matches('name = "util.test.TS"', spec), true);
+        assert.strictEqual(matches('type = file and not type = dir', spec), true);
+        assert.strictEqual(matches('type in (directory, symlink)', spec), false);
+        assert.strictEqual(matches('ext = ts', entry('lib.ts', { type: 'directory' })), false);
+    });
+
+    test('Combines with and, or, not and parentheses', () => {
+        const e = entry('docs/guide.md', { size: 10 });
+        assert.strictEqual(matches('ext = md and size > 1KB or name = guide.md', e), true);
+        assert.strictEqual(matches('ext = md and (size > 1KB or name = other.md)', e), false);
+        assert.strictEqual(matches('NOT (ext = ts OR ext = js)', e), true);
+        assert.strictEqual(matches('not not ext = md', e), true);
+        assert.deepStrictEqual(
+            [...parseQuery('size > 1MB and ext in (ts, tsx) and modified < 30d and not path ~ /test/').fields],
+            ['size', 'ext', 'modified', 'path']
+        );
+    });
+
+    test('Reports where an expression is wrong', () => {
+        const error = (expression: string) => {
+            try {
+                parseQuery(expression);
+            } catch (e) {
+                assert.ok(e instanceof QueryError);
+                return e.message;
+            }
+            assert.fail(`"${expression}" should not parse`);
+        };
+        assert.strictEqual(error('colour = red'), 'Unknown field "colour" (use name, path, ext, type, size, modified) (column 1)');
+        assert.strictEqual(error('size > lots'), '"lots" is not a size (e.g. 500, 20KB, 1.5MB) (column 8)');
+        assert.strictEqual(error('modified = 30d'), 'Use <, <=, > or >= with modified, not "=" (column 10)');
+        assert.strictEqual(error('type = folderish'), 'Unknown type "folderish" (use file, directory or symlink) (column 8)');
+        assert.strictEqual(error('path ~ /src'), 'Unterminated regular expression (column 8)');
+        assert.strictEqual(error('(ext = ts'), 'Expected ")" at the end (column 10)');
+        assert.strictEqual(error('ext = ts ext = js'), 'Unexpected "ext" (column 10)');
+        assert.strictEqual(error('ext = ts and'), 'Expression ends too early (column 13)');
+        assert.ok(error('name ~ /(/').startsWith('Invalid regular expression: /(/'));
+    });
+});
+
+suite('Core: Query Filtering Tests', () => {
+    let tempDir: string;
+
+    const createFile = (filePath: string, content: string = '', ageDays = 0) => {
+        const fullPath = path.join(tempDir, filePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+        const time = new Date(Date.now() - ageDays * DAY);
+        fs.utimesSync(fullPath, time, time);
+    };
+
+    const flatten = (entry: FileEntry): string[] => (entry.children ?? []).flatMap(c => [
+        path.relative(tempDir, c.path).split(path.sep).join('/'),
+        ...flatten(c)
+    ]);
+
+    const stream = async (cfg: StructureConfig) => {
+        const paths: string[] = [];
+        for await (const event of new StreamingGenerator(cfg).generate(tempDir)) {
+            if (event.kind === 'file' || event.kind === 'directory-open') {
+                paths.push(path.relative(tempDir, event.entry.path).split(path.sep).join('/'));
+            }
+        }
+        return paths;
+    };
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'query-test-'));
+        gitignoreCache.clear();
+        statsCache.clear();
+
+        createFile('src/app/big.ts', 'x'.repeat(3000));
+        createFile('src/app/small.ts', 'x');
+        createFile('src/legacy/old.ts', 'x'.repeat(3000), 120);
+        createFile('src/test/big.test.ts', 'x'.repeat(3000));
+        createFile('docs/readme.md', 'x'.repeat(3000));
+        createFile('package.json', '{}');
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Keeps matches together with the folders leading to them', async () => {
+        const cfg: StructureConfig = {
+            filterExpression: 'size > 2KB and ext in (ts, tsx) and modified < 30d and not path ~ /test/'
+        };
+        const root = await new StructureGenerator(cfg).scan(tempDir);
+        assert.deepStrictEqual(flatten(root), ['src', 'src/app', 'src/app/big.ts']);
+        // metadata read for the query only stays out of the tree output
+        const tree = await new StructureGenerator({ ...cfg, iconStyle: 'none' }).generate(tempDir);
+        assert.ok(/└── big\.ts$/m.test(tree));
+        assert.deepStrictEqual(await stream(cfg), ['src', 'src/app', 'src/app/big.ts']);
+    });
+
+    test('Folders match on their own and keep their real totals', async () => {
+        const cfg: StructureConfig = { filterExpression: 'name = legacy or path = package.json', includeSize: true };
+        const root = await new StructureGenerator(cfg).scan(tempDir);
+        assert.deepStrictEqual(flatten(root), ['src', 'src/legacy', 'package.json']);
+        assert.strictEqual(root.children![0].size, 3000 * 3 + 1);
+        assert.deepStrictEqual(await stream(cfg), ['src', 'src/legacy', 'package.json']);
+    });
+
+    test('Only sees what maxDepth lets it reach', async () => {
+        const cfg: StructureConfig = { filterExpression: 'ext = ts or ext = json', maxDepth: 2 };
+        assert.deepStrictEqual(flatten(await new StructureGenerator(cfg).scan(tempDir)), ['package.json']);
+        assert.deepStrictEqual(await stream(cfg), ['package.json']);
+    });
+
+    test('Invalid expressions fail before scanning', () => {
+        assert.throws(() => new StructureGenerator({ filterExpression: 'size >' }), QueryError);
+        assert.throws(() => new StreamingGenerator({ filterExpression: 'size >' }), QueryError);
+        assert.doesNotThrow(() => new StructureGenerator({ filterExpression: '  ' }));
+
+        assert.strictEqual(parseCliArgs(['generate', '.', '-q', 'ext = ts']).config.filterExpression, 'ext = ts');
+        assert.throws(() => parseCliArgs(['generate', '.', '--query', 'ext ~']), CliUsageError);
+    });
+});
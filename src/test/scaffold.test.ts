@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import { applyScaffold, formatScaffoldPlan, planScaffold } from '../core/scaffold';
+import { parseStructure } from '../utils/parsing';
+
+suite('Core: Scaffold Tests', () => {
+    let tempDir: string;
+
+    const spec = parseStructure([
+        '📁 service',
+        '├── 📁 src',
+        '│   ├── 🔷 index.ts',
+        '│   └── 📄 config.json',
+        '├── 📁 docs',
+        '│   └── 📝 README.md',
+        '└── 📄 Makefile'
+    ].join('\n'));
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scaffold-test-'));
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Dry run writes nothing', async () => {
+        const plan = await planScaffold(spec, tempDir);
+
+        assert.deepStrictEqual(plan.actions.map(a => `${a.status} ${a.kind} ${a.relPath}`), [
+            'create directory src',
+            'create file src/index.ts',
+            'create file src/config.json',
+            'create directory docs',
+            'create file docs/README.md',
+            'create file Makefile'
+        ]);
+        assert.deepStrictEqual(fs.readdirSync(tempDir), []);
+        assert.ok(formatScaffoldPlan(plan).includes('6 to create, 0 already present, 0 conflicts'));
+    });
+
+    test('Creates folders and files, seeding from snippets', async () => {
+        const plan = await planScaffold(spec, tempDir, { '*.ts': 'export {};\n', 'docs/*.md': '# Docs\n' });
+        const created = await applyScaffold(plan);
+
+        assert.deepStrictEqual(created, { directories: 2, files: 4 });
+        assert.strictEqual(fs.readFileSync(path.join(tempDir, 'src/index.ts'), 'utf8'), 'export {};\n');
+        assert.strictEqual(fs.readFileSync(path.join(tempDir, 'docs/README.md'), 'utf8'), '# Docs\n');
+        assert.strictEqual(fs.readFileSync(path.join(tempDir, 'Makefile'), 'utf8'), '');
+    });
+
+    test('Keeps existing files and skips conflicts', async () => {
+        fs.writeFileSync(path.join(tempDir, 'Makefile'), 'all:\n');
+        fs.writeFileSync(path.join(tempDir, 'docs'), 'a file where a folder is expected');
+
+        const plan = await planScaffold(spec, tempDir);
+        const status = Object.fromEntries(plan.actions.map(a => [a.relPath, a.status]));
+
+        assert.strictEqual(status['Makefile'], 'exists');
+        assert.strictEqual(status['docs'], 'conflict');
+        assert.strictEqual(status['docs/README.md'], 'conflict', 'contents of a conflicting folder are skipped too');
+        assert.ok(formatScaffoldPlan(plan).includes('! docs/  (conflict – skipped)'));
+
+        await applyScaffold(plan);
+        assert.strictEqual(fs.readFileSync(path.join(tempDir, 'Makefile'), 'utf8'), 'all:\n');
+        assert.ok(fs.existsSync(path.join(tempDir, 'src/index.ts')));
+    });
+
+    test('Rejects names that escape the target', async () => {
+        const evil = parseStructure('root\n└── ..');
+        await assert.rejects(planScaffold(evil, tempDir), /Invalid name/);
+    });
+});
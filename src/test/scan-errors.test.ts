@@ -0,0 +1,209 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import { StructureGenerator } from '../core/generator';
+import { StreamingGenerator } from '../core/streaming-generator';
+import { DirItem, FileEntry, GitignoreRules } from '../models/file-entry.interface';
+import { StreamEvent } from '../models/stream.interface';
+import { SourceStats, StructureSource } from '../sources/structure-source';
+import { FileSystemSource } from '../sources/fs-source';
+import { StreamingFormatter } from '../utils/streaming-formatter';
+import { parseStructure } from '../utils/parsing';
+import { describeReadError } from '../utils/fs-helpers';
+import { scanErrors } from '../utils/formatting';
+import { gitignoreCache, statsCache } from '../utils/cache';
+
+/**
+ * The local disk, except that folders listed in `failures` throw an error
+ * with the given code when read and files in `gone` no longer stat – tests
+ * run as root, so permissions alone cannot make a folder unreadable.
+ */
+class FailingSource implements StructureSource {
+    private readonly disk = FileSystemSource.getInstance();
+
+    constructor(
+        private readonly failures: Record<string, string>,
+        private readonly gone: string[] = []
+    ) {}
+
+    rootName(root: string): string {
+        return this.disk.rootName(root);
+    }
+
+    async readDir(dir: string): Promise<DirItem[]> {
+        const code = this.failures[dir];
+        if (code) {
+            throw Object.assign(new Error(`${code}: cannot read ${dir}`), { code });
+        }
+        return this.disk.readDir(dir);
+    }
+
+    async stat(p: string): Promise<SourceStats | null> {
+        return this.gone.includes(p) ? null : this.disk.stat(p);
+    }
+
+    async lstat(p: string): Promise<SourceStats | null> {
+        return this.gone.includes(p) ? null : this.disk.lstat(p);
+    }
+
+    readLink(p: string): Promise<{ target?: string; stats: SourceStats | null }> {
+        return this.disk.readLink(p);
+    }
+
+    ignoreRules(dir: string): Promise<GitignoreRules | null> {
+        return this.disk.ignoreRules(dir);
+    }
+
+    readText(p: string): Promise<string> {
+        return this.disk.readText(p);
+    }
+}
+
+suite('Core: Scan Error Tests', () => {
+    let tempDir: string;
+    let source: FailingSource;
+
+    const createFile = (filePath: string, content: string = '') => {
+        const fullPath = path.join(tempDir, filePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    };
+
+    const find = (root: FileEntry, name: string): FileEntry => {
+        const hit = root.children!.find(c => c.name === name);
+        assert.ok(hit, `no entry "${name}"`);
+        return hit!;
+    };
+
+    const events = async (generator: StreamingGenerator) => {
+        const all: StreamEvent[] = [];
+        for await (const event of generator.generate(tempDir)) {
+            all.push(event);
+        }
+        return all;
+    };
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scan-errors-test-'));
+        gitignoreCache.clear();
+        statsCache.clear();
+
+        createFile('locked/secret.txt');
+        createFile('mounted/remote.txt');
+        createFile('src/index.ts', 'x'.repeat(100));
+        createFile('src/tmp/build.log');
+        source = new FailingSource({
+            [path.join(tempDir, 'locked')]: 'EACCES',
+            [path.join(tempDir, 'mounted')]: 'ETIMEDOUT',
+            [path.join(tempDir, 'src', 'tmp')]: 'ENOENT'
+        });
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Unreadable folders are marked and the scan goes on', async () => {
+        const root = await new StructureGenerator({ includeSize: true }, undefined, undefined, { source }).scan(tempDir);
+        assert.deepStrictEqual(find(root, 'locked'), {
+            name: 'locked', path: path.join(tempDir, 'locked'), type: 'directory', children: [],
+            size: 0, fileCount: 0, percentOfParent: 0, error: 'permission denied'
+        });
+        assert.strictEqual(find(root, 'mounted').error, 'timed out');
+        const src = find(root, 'src');
+        assert.strictEqual(src.error, undefined);
+        assert.strictEqual(find(src, 'tmp').error, 'vanished during the scan');
+        assert.strictEqual(find(src, 'index.ts').size, 100);
+        assert.strictEqual(root.size, 100);
+    });
+
+    test('Errors are marked in the output and summarised below it', async () => {
+        const generate = (outputFormat: 'tree' | 'json' | 'xml') =>
+            new StructureGenerator({ iconStyle: 'none', outputFormat }, undefined, undefined, { source }).generate(tempDir);
+
+        const tree = await generate('tree');
+        assert.ok(tree.includes('├── locked ⚠ permission denied\n'));
+        assert.ok(tree.endsWith([
+            '',
+            '⚠ 3 entries could not be read:',
+            '  locked – permission denied',
+            '  mounted – timed out',
+            '  src/tmp – vanished during the scan'
+        ].join('\n')));
+        assert.strictEqual(find(parseStructure(tree), 'mounted').error, 'timed out');
+
+        const json = JSON.parse(await generate('json'));
+        assert.deepStrictEqual(json.meta.errors[0], { path: path.join(tempDir, 'locked'), error: 'permission denied' });
+        assert.strictEqual(json.structure.children[0].error, 'permission denied');
+
+        const xml = await generate('xml');
+        assert.ok(xml.includes('error="permission denied"'));
+        assert.ok(xml.includes('<errors count="3">'));
+        assert.strictEqual(find(parseStructure(xml), 'locked').error, 'permission denied');
+    });
+
+    test('The streaming generator reports the same errors', async () => {
+        const all = await events(new StreamingGenerator({}, undefined, undefined, source));
+        const errors = all.flatMap(e => e.kind === 'directory-open' && e.entry.error ? [`${e.entry.name}: ${e.entry.error}`] : []);
+        assert.deepStrictEqual(errors, ['locked: permission denied', 'mounted: timed out', 'tmp: vanished during the scan']);
+        assert.ok(all.some(e => e.kind === 'file' && e.entry.name === 'index.ts'));
+
+        const formatter = new StreamingFormatter({ iconStyle: 'none' });
+        const text = all.map(e => formatter.format(e)).join('');
+        assert.ok(text.includes('    ├── tmp ⚠ vanished during the scan\n'));
+        assert.ok(text.includes('⚠ 3 entries could not be read:\n  locked – permission denied\n'));
+    });
+
+    test('Files gone before they could be read are marked', async () => {
+        const gone = new FailingSource({}, [path.join(tempDir, 'src', 'index.ts')]);
+        const root = await new StructureGenerator({ includeSize: true }, undefined, undefined, { source: gone }).scan(tempDir);
+        assert.strictEqual(find(find(root, 'src'), 'index.ts').error, 'vanished during the scan');
+
+        const all = await events(new StreamingGenerator({ includeSize: true }, undefined, undefined, gone));
+        const index = all.find(e => e.kind === 'file' && e.entry.name === 'index.ts');
+        assert.strictEqual(index?.kind === 'file' && index.entry.error, 'vanished during the scan');
+    });
+
+    test('Unreadable folders stay in query results and beyond maxDepth are not read', async () => {
+        const query = { filterExpression: 'ext = ts' };
+        const root = await new StructureGenerator(query, undefined, undefined, { source }).scan(tempDir);
+        assert.deepStrictEqual(root.children!.map(c => c.name), ['locked', 'mounted', 'src']);
+        const streamed = (await events(new StreamingGenerator(query, undefined, undefined, source)))
+            .flatMap(e => e.kind === 'directory-open' || e.kind === 'file' ? [e.entry.name] : []);
+        assert.deepStrictEqual(streamed, ['locked', 'mounted', 'src', 'tmp', 'index.ts']);
+
+        const shallow = await new StructureGenerator({ maxDepth: 1 }, undefined, undefined, { source }).scan(tempDir);
+        assert.ok(shallow.children!.every(c => c.error === undefined));
+        const shallowEvents = await events(new StreamingGenerator({ maxDepth: 1 }, undefined, undefined, source));
+        assert.ok(shallowEvents.every(e => e.kind !== 'directory-open' || e.entry.error === undefined));
+    });
+
+    test('Folders hidden by maxDepth report what their totals miss', async () => {
+        const root = await new StructureGenerator({ maxDepth: 1, includeSize: true, iconStyle: 'none' }, undefined, undefined, { source }).scan(tempDir);
+        assert.strictEqual(find(root, 'locked').error, 'permission denied');
+        assert.strictEqual(find(root, 'mounted').error, 'timed out');
+        const src = find(root, 'src');
+        assert.strictEqual(src.error, 'vanished during the scan in tmp (partial totals)');
+        assert.strictEqual(src.size, 100);
+        assert.strictEqual(scanErrors(root).length, 3);
+    });
+
+    test('The scanned folder itself must be readable', async () => {
+        const failing = new FailingSource({ [tempDir]: 'EACCES' });
+        await assert.rejects(new StructureGenerator({}, undefined, undefined, { source: failing }).scan(tempDir), /EACCES/);
+        await assert.rejects(events(new StreamingGenerator({}, undefined, undefined, failing)), /EACCES/);
+    });
+
+    test('Read errors are described by their code', () => {
+        const error = (code: string) => Object.assign(new Error('boom'), { code });
+        assert.strictEqual(describeReadError(error('EPERM')), 'permission denied');
+        assert.strictEqual(describeReadError(error('NoPermissions')), 'permission denied');
+        assert.strictEqual(describeReadError(error('ENOTDIR')), 'vanished during the scan');
+        assert.strictEqual(describeReadError(error('EIO')), 'read error (EIO)');
+        assert.strictEqual(describeReadError(new Error('disk on fire')), 'disk on fire');
+    });
+});
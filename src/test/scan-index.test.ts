@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import { StructureGenerator } from '../core/generator';
+import { ScanIndex } from '../utils/scan-index';
+import { gitignoreCache, statsCache } from '../utils/cache';
+
+suite('Utils: Scan Index Tests', () => {
+    let tempDir: string;
+    let indexFile: string;
+    let index: ScanIndex;
+    const past = new Date(Date.now() - 60_000);
+
+    const createFile = (filePath: string, content: string = '') => {
+        const fullPath = path.join(tempDir, filePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    };
+    // pin a directory's mtime so it is outside the racy window and comparable
+    const age = (dirPath: string) => fs.utimesSync(path.join(tempDir, dirPath), past, past);
+    const scanNames = async (dir: string) => {
+        const root = await new StructureGenerator({ respectGitignore: false }).scan(dir);
+        return root.children!.map(c => c.name);
+    };
+
+    setup(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'index-test-'));
+        indexFile = path.join(tempDir, 'storage', 'scan-index.json');
+        gitignoreCache.clear();
+        statsCache.clear();
+        index = ScanIndex.getInstance();
+        await index.load(indexFile);
+        index.clear();
+    });
+
+    teardown(async () => {
+        await index.disable();
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Reuses listings while the directory mtime is unchanged', async () => {
+        createFile('proj/a.txt');
+        age('proj');
+        const proj = path.join(tempDir, 'proj');
+
+        assert.deepStrictEqual(await scanNames(proj), ['a.txt']);
+        assert.strictEqual(index.getStats().misses, 1);
+
+        // a new file with the mtime forced back looks unchanged to the index
+        createFile('proj/b.txt');
+        age('proj');
+        assert.deepStrictEqual(await scanNames(proj), ['a.txt']);
+        assert.strictEqual(index.getStats().hits, 1);
+
+        // a moved mtime triggers a re-read
+        fs.utimesSync(proj, new Date(past.getTime() + 1000), new Date(past.getTime() + 1000));
+        assert.deepStrictEqual(await scanNames(proj), ['a.txt', 'b.txt']);
+    });
+
+    test('Does not index directories modified within the racy window', async () => {
+        createFile('proj/a.txt');
+        await scanNames(path.join(tempDir, 'proj'));
+
+        assert.strictEqual(index.getStats().directories, 0);
+    });
+
+    test('Persists to disk and reloads', async () => {
+        createFile('proj/src/main.ts');
+        age('proj/src');
+        age('proj');
+        await scanNames(path.join(tempDir, 'proj'));
+        await index.flush();
+
+        const saved = JSON.parse(fs.readFileSync(indexFile, 'utf8'));
+        assert.strictEqual(saved.version, 1);
+        assert.deepStrictEqual(saved.dirs[path.join(tempDir, 'proj')][1], [['src', 'd']]);
+
+        await index.load(indexFile);
+        assert.strictEqual(index.getStats().directories, 2);
+        const root = await new StructureGenerator({}).scan(path.join(tempDir, 'proj'));
+        assert.strictEqual(root.children![0].children![0].name, 'main.ts');
+        assert.strictEqual(index.getStats().hits, 2);
+    });
+
+    test('Invalidates a path, its parent listing and everything below it', async () => {
+        createFile('proj/src/lib/x.ts');
+        createFile('proj/docs/y.md');
+        for (const d of ['proj/src/lib', 'proj/src', 'proj/docs', 'proj']) {
+            age(d);
+        }
+        await scanNames(path.join(tempDir, 'proj'));
+        assert.strictEqual(index.getStats().directories, 4);
+
+        // deleting proj/src drops proj (parent), proj/src and proj/src/lib
+        index.invalidate(path.join(tempDir, 'proj', 'src'));
+        assert.strictEqual(index.getStats().directories, 1);
+    });
+
+    test('Ignores a corrupt index file', async () => {
+        fs.mkdirSync(path.dirname(indexFile), { recursive: true });
+        fs.writeFileSync(indexFile, '{not json');
+
+        await index.load(indexFile);
+        assert.ok(index.enabled);
+        assert.strictEqual(index.getStats().directories, 0);
+    });
+});
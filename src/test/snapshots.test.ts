@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import { StructureGenerator } from '../core/generator';
+import { compareTimeline, FolderChange } from '../core/timeline';
+import { FileEntry } from '../models/file-entry.interface';
+import { gitHead } from '../utils/git';
+import { listSnapshots, loadSnapshot, saveSnapshot, snapshotsDirPath } from '../utils/snapshot-store';
+import { formatTimelineMarkdown } from '../utils/timeline-formatting';
+import { gitignoreCache, statsCache } from '../utils/cache';
+
+suite('Core: Snapshot & Timeline Tests', () => {
+    let tempDir: string;
+
+    const createFile = (filePath: string, content: string = '') => {
+        const fullPath = path.join(tempDir, filePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    };
+
+    const file = (name: string, size: number): FileEntry => ({ name, path: name, type: 'file', size });
+    const dir = (name: string, children: FileEntry[]): FileEntry => ({ name, path: name, type: 'directory', children });
+
+    const byPath = (changes: FolderChange[]) => Object.fromEntries(changes.map(c => [c.path, c.trend]));
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-test-'));
+        gitignoreCache.clear();
+        statsCache.clear();
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Saves, lists and loads snapshots in chronological order', async () => {
+        createFile('src/index.ts', 'export {};');
+        const root = await new StructureGenerator({ includeSize: true, includeModifiedDate: true }).scan(tempDir);
+
+        await saveSnapshot(tempDir, 'v2: after refactor', root, 'abc123', new Date('2025-06-01T10:00:00Z'));
+        await saveSnapshot(tempDir, 'v1', root, undefined, new Date('2025-01-01T10:00:00Z'));
+        fs.writeFileSync(path.join(snapshotsDirPath(tempDir), 'notes.json'), 'not a snapshot');
+
+        const list = await listSnapshots(tempDir);
+        assert.deepStrictEqual(list.map(s => s.name), ['v1', 'v2: after refactor']);
+        assert.strictEqual(list[1].commit, 'abc123');
+        assert.strictEqual(list[0].commit, undefined);
+        assert.match(path.basename(list[1].file), /^2025-06-01T10-00-00-000Z_v2-after-refactor\.json$/);
+
+        const loaded = await loadSnapshot(list[1]);
+        assert.deepStrictEqual(loaded.root, root);
+        assert.deepStrictEqual(await listSnapshots(path.join(tempDir, 'src')), []);
+    });
+
+    test('Classifies folders as appeared, disappeared, grew, shrank or unchanged', () => {
+        const before = dir('app', [
+            dir('src', [file('a.ts', 100), dir('legacy', [file('old.ts', 50)])]),
+            dir('docs', [file('guide.md', 40)]),
+            dir('assets', [file('logo.png', 500)]),
+            dir('scripts', [file('build.sh', 10)])
+        ]);
+        const after = dir('app', [
+            dir('src', [file('a.ts', 300), dir('core', [file('b.ts', 20)])]),
+            dir('docs', [file('guide.md', 40)]),
+            dir('assets', [file('logo.png', 200)]),
+            // same size, one more file
+            dir('scripts', [file('build.sh', 10), file('empty.sh', 0)])
+        ]);
+
+        const cmp = compareTimeline(before, after);
+        assert.deepStrictEqual(byPath(cmp.folders), {
+            'src': 'grew',
+            'src/legacy': 'disappeared',
+            'src/core': 'appeared',
+            'docs': 'unchanged',
+            'assets': 'shrank',
+            'scripts': 'grew'
+        });
+        assert.deepStrictEqual(cmp.total.before, { size: 700, files: 5 });
+        assert.deepStrictEqual(cmp.total.after, { size: 570, files: 6 });
+        // biggest movers first
+        assert.deepStrictEqual(cmp.folders.slice(0, 2).map(f => f.path), ['assets', 'src']);
+    });
+
+    test('Uses scan totals for folders cut off by maxDepth', () => {
+        const collapsed: FileEntry = { name: 'vendor', path: 'vendor', type: 'directory', children: [], size: 4096, fileCount: 12 };
+        const cmp = compareTimeline(dir('app', []), dir('app', [collapsed]));
+        assert.deepStrictEqual(cmp.folders[0].after, { size: 4096, files: 12 });
+    });
+
+    test('Renders the timeline report', () => {
+        const v1 = { name: 'v1', createdAt: new Date('2025-01-01T10:00:00Z'), commit: '0123456789abcdef', file: 'a.json' };
+        const v2 = { name: 'v2', createdAt: new Date('2025-06-01T10:00:00Z'), file: 'b.json' };
+        const cmp = compareTimeline(
+            dir('app', [dir('lib', [file('x.js', 1024)])]),
+            dir('app', [dir('src', [file('x.ts', 2048)])])
+        );
+
+        const md = formatTimelineMarkdown([v1, v2], v1, v2, cmp);
+        assert.ok(md.includes('| 1 | v1 | 2025-01-01 10:00 | `01234567` |'));
+        assert.ok(md.includes('| 2 | v2 | 2025-06-01 10:00 | – |'));
+        assert.ok(md.includes('**Total size:** 1.0 KB → 2.0 KB (+1.0 KB)'));
+        assert.ok(md.includes('### 🆕 Appeared (1)'));
+        assert.ok(md.includes('| `src/` | – | 2.0 KB / 1 | +2.0 KB | +1 |'));
+        assert.ok(md.includes('| `lib/` | 1.0 KB / 1 | – | −1.0 KB | −1 |'));
+        assert.ok(!md.includes('Grew'));
+    });
+
+    test('Reports no commit outside a git repository', async () => {
+        assert.strictEqual(await gitHead(tempDir), undefined);
+    });
+});
@@ -0,0 +1,146 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { StructureGenerator } from '../core/generator';
+import { StreamingGenerator } from '../core/streaming-generator';
+import { DirItem, FileEntry, GitignoreRules } from '../models/file-entry.interface';
+import { isSourceDirectory, SourceStats, StructureSource } from '../sources/structure-source';
+import { FileSystemSource } from '../sources/fs-source';
+import { createIgnoreRules, parseIgnoreFile } from '../utils/ignore-rules';
+
+/**
+ * A provider-like source with no inode numbers, permission bits or link
+ * text – what vscode.workspace.fs offers for remote and virtual folders.
+ * `files` maps '/'-joined paths below ROOT to content; `links` to targets.
+ */
+class MemorySource implements StructureSource {
+    readonly reads: string[] = [];
+
+    constructor(
+        private readonly files: Record<string, string>,
+        private readonly links: Record<string, string> = {}
+    ) {}
+
+    rootName(root: string): string {
+        return `mem:${path.basename(root)}`;
+    }
+
+    async readDir(dir: string): Promise<DirItem[]> {
+        this.reads.push(dir);
+        const prefix = this.key(dir);
+        const names = new Set<string>();
+        for (const p of [...Object.keys(this.files), ...Object.keys(this.links)]) {
+            if (prefix === '' || p.startsWith(`${prefix}/`)) {
+                names.add(p.slice(prefix ? prefix.length + 1 : 0).split('/')[0]);
+            }
+        }
+        return [...names].map(name => {
+            const p = prefix ? `${prefix}/${name}` : name;
+            const link = p in this.links;
+            const file = p in this.files;
+            return { name, isDirectory: () => !link && !file, isFile: () => file, isSymbolicLink: () => link };
+        });
+    }
+
+    async stat(p: string): Promise<SourceStats | null> {
+        const key = this.key(p);
+        const target = key in this.links ? this.links[key] : key;
+        if (target in this.files) {
+            return { size: this.files[target].length, mtime: new Date('2025-05-05T00:00:00Z'), isDirectory: () => false };
+        }
+        const isDir = target === '' || Object.keys(this.files).some(f => f.startsWith(`${target}/`));
+        return isDir ? { size: 0, isDirectory: () => true } : null;
+    }
+
+    async lstat(p: string): Promise<SourceStats | null> {
+        return this.key(p) in this.links ? { size: 0, isDirectory: () => false } : this.stat(p);
+    }
+
+    async readLink(p: string): Promise<{ target?: string; stats: SourceStats | null }> {
+        return { stats: await this.stat(p) };
+    }
+
+    async ignoreRules(dir: string): Promise<GitignoreRules | null> {
+        const content = this.files[this.key(path.join(dir, '.gitignore'))];
+        return content === undefined ? null : createIgnoreRules(parseIgnoreFile(content, dir));
+    }
+
+    async readText(p: string): Promise<string> {
+        return this.files[this.key(p)] ?? '';
+    }
+
+    private key(p: string): string {
+        return path.relative(ROOT, p).split(path.sep).join('/');
+    }
+}
+
+const ROOT = path.resolve('/virtual/project');
+
+suite('Core: Structure Source Tests', () => {
+    const source = () => new MemorySource(
+        {
+            'src/index.ts': 'export {};',
+            'src/util.ts': 'x',
+            'dist/out.js': 'compiled',
+            '.gitignore': 'dist/\n',
+            'README.md': '# Hi'
+        },
+        { 'latest': 'src', 'gone': 'nowhere' }
+    );
+
+    const names = (entry: FileEntry) => (entry.children ?? []).map(c => c.name);
+
+    test('The generator reads everything through the source', async () => {
+        const mem = source();
+        const root = await new StructureGenerator(
+            { includeSize: true, includeModifiedDate: true, includePermissions: true },
+            undefined,
+            undefined,
+            { source: mem }
+        ).scan(ROOT);
+
+        assert.strictEqual(root.name, 'mem:project');
+        // .gitignore from the source hides dist/
+        assert.deepStrictEqual(names(root), ['src', 'gone', 'latest', 'README.md']);
+        assert.deepStrictEqual(mem.reads, [ROOT, path.join(ROOT, 'src')]);
+
+        const index = root.children![0].children!.find(c => c.name === 'index.ts')!;
+        assert.strictEqual(index.size, 10);
+        assert.deepStrictEqual(index.modified, new Date('2025-05-05T00:00:00Z'));
+        // no permission bits in this source
+        assert.strictEqual(index.permissions, undefined);
+        assert.strictEqual(root.size, 10 + 1 + 4);
+    });
+
+    test('Links are listed but not followed without object identity', async () => {
+        const root = await new StructureGenerator({ followSymlinks: true }, undefined, undefined, { source: source() })
+            .scan(ROOT);
+        const latest = root.children!.find(c => c.name === 'latest')!;
+        const gone = root.children!.find(c => c.name === 'gone')!;
+
+        assert.strictEqual(latest.type, 'symlink');
+        assert.strictEqual(latest.children, undefined);
+        assert.strictEqual(latest.target, undefined);
+        assert.strictEqual(gone.broken, true);
+    });
+
+    test('The streaming generator reads through the source', async () => {
+        const seen: string[] = [];
+        const generator = new StreamingGenerator({ followSymlinks: true }, undefined, undefined, source());
+        for await (const event of generator.generate(ROOT)) {
+            if (event.kind === 'start') {
+                assert.strictEqual(event.name, 'mem:project');
+            } else if (event.kind === 'file' || event.kind === 'directory-open') {
+                seen.push(path.relative(ROOT, event.entry.path));
+            }
+        }
+        assert.deepStrictEqual(seen, ['src', path.join('src', 'index.ts'), path.join('src', 'util.ts'), 'gone', 'latest', 'README.md']);
+    });
+
+    test('Checks folders in any source', async () => {
+        assert.strictEqual(await isSourceDirectory(source(), path.join(ROOT, 'src')), true);
+        assert.strictEqual(await isSourceDirectory(source(), path.join(ROOT, 'README.md')), false);
+        assert.strictEqual(await isSourceDirectory(FileSystemSource.getInstance(), __dirname), true);
+        assert.strictEqual(await isSourceDirectory(FileSystemSource.getInstance(), path.join(__dirname, 'missing')), false);
+    });
+});
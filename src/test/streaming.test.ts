@@ -3,10 +3,12 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 
+import { StructureGenerator } from '../core/generator';
 import { StreamingGenerator } from '../core/streaming-generator';
 import { StreamingFormatter } from '../utils/streaming-formatter';
 import { StructureConfig } from '../models/config.interface';
 import { StreamEvent } from '../models/stream.interface';
+import { FileEntry } from '../models/file-entry.interface';
 import { gitignoreCache, statsCache } from '../utils/cache';
 
 suite('Core: Streaming Generator Tests', () => {
@@ -187,6 +189,35 @@ suite('Core: Streaming Generator Tests', () => {
         assert.strictEqual(files.includes('readme.md'), false, 'Should exclude .md files');
         assert.strictEqual(files.includes('styles.css'), false, 'Should exclude .css files');
     });
+
+    test('Streamed JSON matches the non-streaming export', async () => {
+        createFile('src/main.ts');
+        createFile('README.md');
+
+        const config: StructureConfig = { outputFormat: 'json' };
+        const formatter = new StreamingFormatter(config);
+        let streamed = '';
+        for await (const event of new StreamingGenerator(config).generate(tempDir)) {
+            streamed += formatter.format(event);
+        }
+        const batch = await new StructureGenerator(config).generate(tempDir);
+
+        assert.deepStrictEqual(JSON.parse(streamed).structure, JSON.parse(batch).structure);
+    });
+
+    test('Allocated size mode counts disk blocks', async () => {
+        createFile('one.txt', 'x');
+        const blocks = fs.statSync(path.join(tempDir, 'one.txt')).blocks;
+
+        const sizes: (number | undefined)[] = [];
+        for await (const event of new StreamingGenerator({ includeSize: true, sizeMode: 'allocated' }).generate(tempDir)) {
+            if (event.kind === 'file') {
+                sizes.push(event.entry.size);
+            }
+        }
+
+        assert.deepStrictEqual(sizes, [blocks * 512]);
+    });
 });
 
 suite('Utils: Streaming Formatter Tests', () => {
@@ -226,12 +257,14 @@ suite('Utils: Streaming Formatter Tests', () => {
         };
         const endEvent: StreamEvent = { kind: 'end', durationMs: 100, totalItems: 5 };
 
-        const startOutput = formatter.format(startEvent);
-        const fileOutput = formatter.format(fileEvent);
-        const endOutput = formatter.format(endEvent);
+        assert.strictEqual(formatter.format(startEvent) + formatter.format(fileEvent), '', 'JSON is written once the tree is complete');
+        const doc = JSON.parse(formatter.format(endEvent));
 
-        assert.ok(startOutput.includes('{'), 'JSON should start with {');
-        assert.ok(endOutput.includes('}'), 'JSON should end with }');
+        // the same { meta, structure } document as the non-streaming export
+        assert.deepStrictEqual(Object.keys(doc), ['meta', 'structure']);
+        assert.strictEqual(doc.meta.schemaVersion, 1);
+        assert.strictEqual(doc.meta.itemsProcessed, 5);
+        assert.deepStrictEqual(doc.structure.children.map((c: FileEntry) => c.name), ['test.txt']);
     });
 
     test('Formats markdown events correctly', () => {
@@ -295,4 +328,38 @@ suite('Utils: Streaming Formatter Tests', () => {
         assert.ok(output.includes('KB') || output.includes('B'), 'Should include size');
         assert.ok(output.includes('rw-r--r--'), 'Should include permissions');
     });
+
+    test('Formats diagram events with collapsed directories', () => {
+        const dir: FileEntry = { name: 'src', path: '/test/src', type: 'directory' };
+        const big: FileEntry = { name: 'node_modules', path: '/test/node_modules', type: 'directory' };
+        const file: FileEntry = { name: 'a "b".ts', path: '/test/src/a "b".ts', type: 'file' };
+        const events: StreamEvent[] = [
+            { kind: 'start', root: '/test' },
+            { kind: 'directory-open', entry: dir, prefix: '', isLast: false },
+            { kind: 'file', entry: file, prefix: '│   ', isLast: true },
+            { kind: 'directory-close' },
+            { kind: 'directory-open', entry: big, prefix: '', isLast: true, collapsed: 120 },
+            { kind: 'directory-close' },
+            { kind: 'end', durationMs: 5, totalItems: 3 }
+        ];
+
+        const mermaid = new StreamingFormatter({ outputFormat: 'mermaid' });
+        assert.deepStrictEqual(events.map(e => mermaid.format(e)).join('').split('\n'), [
+            'graph TD',
+            '    n0["test/"]',
+            '    n0 --> n1["src/"]',
+            '    n1 --> n2("a #quot;b#quot;.ts")',
+            '    n0 --> n3["node_modules/"]',
+            '    n3 --> n4(["… 120 items"])',
+            '%% Generated in 5ms',
+            ''
+        ]);
+
+        const dotFormatter = new StreamingFormatter({ outputFormat: 'dot' });
+        const output = events.map(e => dotFormatter.format(e)).join('');
+        assert.ok(output.startsWith('digraph structure {\n    rankdir=LR;'));
+        assert.ok(output.includes('    n2 [label="a \\"b\\".ts"];\n    n1 -> n2;'));
+        assert.ok(output.includes('    n4 [label="… 120 items", style=dashed];\n    n3 -> n4;'));
+        assert.ok(output.endsWith('}\n// Generated in 5ms\n'));
+    });
 });
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import { findStructureBlocks, parseMarkerAttributes, syncStructureBlocks } from '../core/structure-block';
+import { gitignoreCache, statsCache } from '../utils/cache';
+
+suite('Core: Structure Block Tests', () => {
+    let tempDir: string;
+
+    const createFile = (filePath: string, content: string = '') => {
+        const fullPath = path.join(tempDir, filePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    };
+    const read = (filePath: string) => fs.readFileSync(path.join(tempDir, filePath), 'utf8');
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'block-test-'));
+        gitignoreCache.clear();
+        statsCache.clear();
+    });
+
+    teardown(() => {
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Parses marker attributes', () => {
+        assert.deepStrictEqual(
+            parseMarkerAttributes(' depth=3 format="list" template=\'docs\' path=src '),
+            { depth: '3', format: 'list', template: 'docs', path: 'src' }
+        );
+    });
+
+    test('Finds blocks and rejects unclosed markers', () => {
+        const md = 'a\n<!-- structure:start depth=1 -->\nold\n<!-- structure:end -->\nb';
+        const blocks = findStructureBlocks(md);
+
+        assert.strictEqual(blocks.length, 1);
+        assert.strictEqual(blocks[0].content, '\nold\n');
+        assert.deepStrictEqual(blocks[0].attributes, { depth: '1' });
+        assert.throws(() => findStructureBlocks('<!-- structure:start -->'), /Unclosed/);
+    });
+
+    test('Replaces only the content between the markers', async () => {
+        createFile('src/index.ts');
+        createFile('src/deep/inner.ts');
+        createFile('README.md', '# Title\n\n<!-- structure:start depth=2 -->\nstale\n<!-- structure:end -->\n\nFooter\n');
+
+        const result = await syncStructureBlocks(path.join(tempDir, 'README.md'), {});
+        const md = read('README.md');
+
+        assert.deepStrictEqual([result.blocks, result.stale, result.written], [1, 1, true]);
+        assert.ok(md.startsWith('# Title\n\n<!-- structure:start depth=2 -->\n```text\n'));
+        assert.ok(md.endsWith('```\n<!-- structure:end -->\n\nFooter\n'));
+        assert.ok(md.includes('index.ts'));
+        assert.ok(md.includes('deep'));
+        assert.ok(!md.includes('inner.ts'), 'depth attribute should apply');
+        assert.ok(!md.includes('stale'));
+    });
+
+    test('Check mode reports staleness without writing', async () => {
+        createFile('a.txt');
+        const original = '<!-- structure:start format=list -->\n<!-- structure:end -->\n';
+        createFile('README.md', original);
+        const file = path.join(tempDir, 'README.md');
+
+        const before = await syncStructureBlocks(file, {}, { check: true });
+        assert.strictEqual(before.stale, 1);
+        assert.strictEqual(read('README.md'), original);
+
+        await syncStructureBlocks(file, {});
+        assert.ok(read('README.md').includes('- a.txt'));
+
+        const after = await syncStructureBlocks(file, {}, { check: true });
+        assert.strictEqual(after.stale, 0, 'output must be deterministic');
+    });
+
+    test('Renders mermaid blocks', async () => {
+        createFile('src/index.ts');
+        createFile('README.md', '<!-- structure:start format=mermaid -->\n<!-- structure:end -->\n');
+
+        await syncStructureBlocks(path.join(tempDir, 'README.md'), {});
+
+        assert.ok(read('README.md').includes('```mermaid\ngraph TD\n'));
+        assert.ok(read('README.md').includes('n1 --> n2("index.ts")'));
+    });
+
+    test('Applies templates and path attributes', async () => {
+        createFile('docs/guide.md');
+        createFile('docs/image.png');
+        createFile('.vscode/folder-navigator-templates.json', JSON.stringify({
+            mdOnly: { extensionFilter: ['md'] }
+        }));
+        createFile('README.md', '<!-- structure:start path=docs template=mdOnly format=list -->\n<!-- structure:end -->');
+
+        await syncStructureBlocks(path.join(tempDir, 'README.md'), {});
+        const md = read('README.md');
+
+        assert.ok(md.includes('- guide.md'));
+        assert.ok(!md.includes('image.png'));
+    });
+
+    test('Rejects unknown templates and formats', async () => {
+        createFile('README.md', '<!-- structure:start template=missing -->\n<!-- structure:end -->');
+        await assert.rejects(syncStructureBlocks(path.join(tempDir, 'README.md'), {}), /Template "missing"/);
+
+        createFile('README.md', '<!-- structure:start format=pdf -->\n<!-- structure:end -->');
+        await assert.rejects(syncStructureBlocks(path.join(tempDir, 'README.md'), {}), /Invalid format/);
+    });
+});
@@ -0,0 +1,227 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import { WorkerHost } from '../core/worker-host';
+import { WorkerPool } from '../core/worker-pool';
+import { StructureGenerator } from '../core/generator';
+import { PluginRegistry } from '../core/plugin-registry';
+import { StructureConfig } from '../models/config.interface';
+import { FileEntry } from '../models/file-entry.interface';
+import { PerformanceMonitor } from '../utils/performance';
+import { gitignoreCache, statsCache } from '../utils/cache';
+
+suite('Core: Worker Host Tests', () => {
+    let tempDir: string;
+    let host: WorkerHost;
+
+    const createFile = (filePath: string, content: string = '') => {
+        const fullPath = path.join(tempDir, filePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    };
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'worker-test-'));
+        host = new WorkerHost(path.join(__dirname, '..', 'core', 'worker.js'));
+    });
+
+    teardown(async () => {
+        await host.dispose();
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Generates in a warm worker that is reused across runs', async () => {
+        createFile('src/main.ts');
+
+        const first = await host.run(tempDir, { outputFormat: 'tree' }).result;
+        const threadId = host.threadId;
+        const second = await host.run(tempDir, { outputFormat: 'json' }).result;
+
+        assert.ok(first.data.includes('main.ts'));
+        assert.strictEqual(first.partial, false);
+        assert.strictEqual(JSON.parse(second.data).structure.children[0].name, 'src');
+        assert.strictEqual(host.threadId, threadId, 'the same thread should serve both runs');
+        assert.strictEqual(host.busy, false);
+    });
+
+    test('A warm worker sees changes made between runs', async () => {
+        createFile('.gitignore', 'ignored.txt\n');
+        createFile('ignored.txt');
+        createFile('grows.txt', 'x');
+        const config = { outputFormat: 'json' as const, includeSize: true, includeHidden: true };
+
+        const first = JSON.parse((await host.run(tempDir, config).result).data).structure;
+        assert.strictEqual(first.children.find((c: FileEntry) => c.name === 'grows.txt').size, 1);
+        assert.ok(!first.children.some((c: FileEntry) => c.name === 'ignored.txt'));
+
+        createFile('grows.txt', 'x'.repeat(5000));
+        createFile('.gitignore', '');
+        const second = JSON.parse((await host.run(tempDir, config).result).data).structure;
+        assert.strictEqual(second.children.find((c: FileEntry) => c.name === 'grows.txt').size, 5000);
+        assert.ok(second.children.some((c: FileEntry) => c.name === 'ignored.txt'));
+    });
+
+    test('Cancelling returns a partial result', async () => {
+        createFile('a/1.txt');
+        createFile('b/2.txt');
+
+        const job = host.run(tempDir, { outputFormat: 'tree' });
+        job.cancel();
+        const result = await job.result;
+
+        assert.strictEqual(result.partial, true);
+        assert.ok(result.data.includes('incomplete'));
+        assert.strictEqual(result.itemsProcessed, 0);
+    });
+
+    test('Batches progress messages', async () => {
+        for (let i = 0; i < 60; i++) {
+            createFile(`f${i}.txt`);
+        }
+
+        let messages = 0;
+        let total = 0;
+        const result = await host.run(tempDir, { compressLargeDirs: false }, increment => {
+            messages++;
+            total += increment;
+        }).result;
+
+        assert.strictEqual(total, result.itemsProcessed);
+        assert.ok(messages < 60, `expected batched progress, got ${messages} messages`);
+    });
+
+    test('Rejects when the worker reports an error', async () => {
+        await assert.rejects(host.run(path.join(tempDir, 'missing'), {}).result, /ENOENT/);
+    });
+});
+
+suite('Core: Worker Pool Tests', () => {
+    let tempDir: string;
+    let pool: WorkerPool;
+
+    const createFile = (filePath: string, content: string = '') => {
+        const fullPath = path.join(tempDir, filePath);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    };
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pool-test-'));
+        pool = new WorkerPool(path.join(__dirname, '..', 'core', 'worker.js'), 3);
+        gitignoreCache.clear();
+        statsCache.clear();
+        PerformanceMonitor.getInstance().clear();
+    });
+
+    teardown(async () => {
+        await pool.dispose();
+        PluginRegistry.getInstance().clear();
+        if (fs.existsSync(tempDir)) {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Parallel result matches a sequential scan', async () => {
+        for (const dir of ['alpha', 'beta', 'gamma', 'delta', 'epsilon']) {
+            createFile(`${dir}/index.ts`, dir);
+            createFile(`${dir}/nested/deep.ts`, dir.repeat(3));
+        }
+        createFile('README.md', 'readme');
+        const config: StructureConfig = { outputFormat: 'json', includeSize: true, sortBy: 'size' };
+
+        const parallel = await pool.generate(tempDir, config);
+        const sequential = await new StructureGenerator(config).generate(tempDir);
+
+        assert.strictEqual(parallel.partial, false);
+        assert.deepStrictEqual(JSON.parse(parallel.data).structure, JSON.parse(sequential).structure);
+        assert.strictEqual(parallel.itemsProcessed, JSON.parse(sequential).meta.itemsProcessed);
+    });
+
+    test('Records per-worker timings', async () => {
+        createFile('a/1.txt');
+        createFile('b/2.txt');
+
+        await pool.generate(tempDir, {});
+        const report = PerformanceMonitor.getInstance().getMetricsReport();
+
+        for (const n of [1, 2, 3]) {
+            assert.ok(report.includes(`## workerPool.worker${n}`), `missing timings for worker ${n}`);
+        }
+    });
+
+    test('Applies plugins to entries built on workers', async () => {
+        createFile('pkg/src/billing.ts');
+        PluginRegistry.getInstance().register({
+            name: 'mark',
+            version: '1.0.0',
+            processEntry: e => e.name === 'billing.ts' ? { ...e, annotations: { owner: 'payments' } } : e
+        });
+
+        const result = await pool.generate(tempDir, {});
+
+        assert.ok(result.data.includes('billing.ts {owner=payments}'));
+    });
+
+    test('A single worker (useWorker with the default pool size) keeps plugin annotations', async () => {
+        createFile('pkg/src/billing.ts');
+        createFile('top.ts');
+        PluginRegistry.getInstance().register({
+            name: 'mark',
+            version: '1.0.0',
+            processEntry: e => e.name.endsWith('.ts') ? { ...e, annotations: { owner: 'payments' } } : e
+        });
+        pool.resize(1);
+
+        const result = await pool.generate(tempDir, { useWorker: true, iconStyle: 'none' });
+
+        assert.ok(result.data.includes('billing.ts {owner=payments}'), result.data);
+        assert.ok(result.data.includes('top.ts {owner=payments}'), result.data);
+    });
+
+    test('Cancellation returns partial results', async () => {
+        createFile('a/1.txt');
+        createFile('b/2.txt');
+
+        const result = await pool.generate(tempDir, { outputFormat: 'tree' }, undefined, () => true);
+
+        assert.strictEqual(result.partial, true);
+        assert.ok(result.data.includes('incomplete'));
+    });
+
+    test('Budgets cover the whole pooled scan', async () => {
+        for (let d = 0; d < 8; d++) {
+            for (let f = 0; f < 50; f++) {
+                createFile(`dir${d}/file${f}.txt`);
+            }
+        }
+        const count = (e: FileEntry): number => (e.children ?? []).reduce((n, c) => n + 1 + count(c), 0);
+
+        const result = await pool.generate(tempDir, { outputFormat: 'json', maxItems: 20 });
+        const json = JSON.parse(result.data);
+
+        // workers draw on one budget – at most one extra entry per thread slips through
+        assert.strictEqual(result.partial, false);
+        assert.strictEqual(json.meta.truncated, 'item-budget');
+        assert.ok(count(json.structure) <= 20 + pool.size, `${count(json.structure)} entries`);
+        // folders still queued when the budget ran out are left unscanned
+        assert.ok(json.structure.children.some((c: FileEntry) => c.truncated && c.children!.length === 0));
+
+        const timed = JSON.parse((await pool.generate(tempDir, { outputFormat: 'json', maxDurationMs: 1 })).data);
+        assert.strictEqual(timed.meta.truncated, 'time-budget');
+        assert.ok(count(timed.structure) < 8 * 51);
+    });
+
+    test('Resizes without losing warm workers', async () => {
+        createFile('a/1.txt');
+        await pool.primary.run(tempDir, {}).result;
+        const threadId = pool.primary.threadId;
+
+        pool.resize(1);
+        assert.strictEqual(pool.size, 1);
+        assert.strictEqual(pool.primary.threadId, threadId);
+    });
+});
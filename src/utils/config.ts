@@ -4,16 +4,21 @@
    ================================================================== */
 
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-import * as path from 'path';
-import { StructureConfig } from '../models/config.interface';
+import { OutputFormat, StructureConfig } from '../models/config.interface';
+import { readTemplates, writeTemplates } from './template-store';
+import { splitGlobs } from '../core/filters';
+import { parseQuery } from '../core/query';
 
 /* ==================================================================
    LOAD CONFIGURATION FROM SETTINGS
    ================================================================== */
 
-export async function getConfigFromSettings(): Promise<StructureConfig> {
-    const cfg = vscode.workspace.getConfiguration('advanced-folder-structure-navigator');
+/**
+ * Settings as a StructureConfig. `scope` (a folder) picks up folder-level
+ * settings in multi-root workspaces.
+ */
+export async function getConfigFromSettings(scope?: vscode.Uri): Promise<StructureConfig> {
+    const cfg = vscode.workspace.getConfiguration('advanced-folder-structure-navigator', scope);
 
     return {
         includeHidden: cfg.get<boolean>('includeHiddenFiles') ?? false,
@@ -26,15 +31,28 @@ export async function getConfigFromSettings(): Promise<StructureConfig> {
             '.vscode'
         ],
         excludePatterns: cfg.get<string[]>('excludePatterns') ?? null,
+        includePatterns: cfg.get<string[]>('includePatterns') ?? null,
+        editorExcludes: cfg.get<boolean>('respectEditorExcludes') ? editorExcludes(scope) : null,
+        filterExpression: cfg.get<string>('filterExpression') || null,
         maxDepth: cfg.get<number>('maxDepth') ?? 10,
         respectGitignore: cfg.get<boolean>('respectGitignore') ?? true,
+        respectStructureIgnore: cfg.get<boolean>('respectStructureIgnore') ?? true,
+        followSymlinks: cfg.get<boolean>('followSymlinks') ?? false,
+        maxItems: cfg.get<number>('maxItems') ?? 0,
+        maxDurationMs: cfg.get<number>('maxDurationMs') ?? 0,
+        maxEntriesPerDirectory: cfg.get<number>('maxEntriesPerDirectory') ?? 0,
         includeSize: cfg.get<boolean>('includeSize') ?? false,
         includePermissions: cfg.get<boolean>('includePermissions') ?? false,
         includeModifiedDate: cfg.get<boolean>('includeModifiedDate') ?? false,
+        sizeMode: cfg.get<'apparent' | 'allocated'>('sizeMode') ?? 'apparent',
+        includeGitInfo: cfg.get<boolean>('includeGitInfo') ?? false,
+        gitChurn: cfg.get<boolean>('gitChurn') ?? false,
         sortBy: cfg.get<'name' | 'size' | 'modified' | 'type'>('sortBy') ?? 'name',
-        outputFormat: cfg.get<'tree' | 'json' | 'markdown' | 'xml' | 'csv'>('outputFormat') ?? 'tree',
+        outputFormat: cfg.get<OutputFormat>('outputFormat') ?? 'tree',
+        diskUsageTopN: cfg.get<number>('diskUsageTopN') ?? 20,
         useWorker: cfg.get<boolean>('useWorker') ?? false,
         useStreaming: cfg.get<boolean>('useStreaming') ?? false,
+        workerPoolSize: cfg.get<number>('workerPoolSize') ?? 1,
         iconStyle: cfg.get<'emoji' | 'unicode' | 'ascii' | 'none'>('iconStyle') ?? 'emoji',
         customIcons: cfg.get<Record<string, string>>('customIcons') ?? {},
         compressLargeDirs: cfg.get<boolean>('compressLargeDirs') ?? true,
@@ -44,6 +62,20 @@ export async function getConfigFromSettings(): Promise<StructureConfig> {
     };
 }
 
+/** Switched-on `files.exclude` and `search.exclude` globs (`{ when }` conditions are skipped) */
+function editorExcludes(scope?: vscode.Uri): string[] {
+    const patterns = new Set<string>();
+    for (const section of ['files', 'search']) {
+        const excludes = vscode.workspace.getConfiguration(section, scope).get<Record<string, unknown>>('exclude') ?? {};
+        for (const [pattern, enabled] of Object.entries(excludes)) {
+            if (enabled === true) {
+                patterns.add(pattern);
+            }
+        }
+    }
+    return [...patterns];
+}
+
 /* ==================================================================
    INTERACTIVE CONFIGURATION WIZARD
    ================================================================== */
@@ -58,6 +90,7 @@ export async function showAdvancedConfigurationWizard(): Promise<StructureConfig
             { label: '📏 Include file sizes', value: 'includeSize' },
             { label: '🔒 Include permissions', value: 'includePermissions' },
             { label: '⏰ Include modified dates', value: 'includeModifiedDate' },
+            { label: '🌿 Include git status & last commit', value: 'includeGitInfo' },
             { label: '🚫 Respect .gitignore', value: 'respectGitignore' }
         ],
         { canPickMany: true, placeHolder: 'Select basic options' }
@@ -69,6 +102,7 @@ export async function showAdvancedConfigurationWizard(): Promise<StructureConfig
     cfg.includeSize = basic.some(i => i.value === 'includeSize');
     cfg.includePermissions = basic.some(i => i.value === 'includePermissions');
     cfg.includeModifiedDate = basic.some(i => i.value === 'includeModifiedDate');
+    cfg.includeGitInfo = basic.some(i => i.value === 'includeGitInfo');
     cfg.respectGitignore = basic.some(i => i.value === 'respectGitignore');
 
     // ---- step 2 : filtering mode ------------------------------------
@@ -76,6 +110,7 @@ export async function showAdvancedConfigurationWizard(): Promise<StructureConfig
         [
             { label: '🔎 Standard filtering (folders / glob patterns)', value: 'standard' },
             { label: '🎯 Whitelist extensions only', value: 'extensions' },
+            { label: '📌 Include by patterns only', value: 'include' },
             { label: '🚫 Exclude by patterns', value: 'exclude' }
         ],
         { placeHolder: 'Choose filtering strategy' }
@@ -92,6 +127,13 @@ export async function showAdvancedConfigurationWizard(): Promise<StructureConfig
         if (txt) {
             cfg.extensionFilter = txt.split(',').map(s => s.trim().replace(/^\./, '').toLowerCase());
         }
+    } else if (filterMode.value === 'include') {
+        const txt = await vscode.window.showInputBox({
+            prompt: 'Comma-separated globs to include, relative to the folder (e.g. src/**,docs/**/*.{md,mdx})'
+        });
+        if (txt) {
+            cfg.includePatterns = splitGlobs(txt);
+        }
     } else if (filterMode.value === 'exclude') {
         const txt = await vscode.window.showInputBox({
             prompt: 'Comma-separated glob patterns to exclude (e.g. *.log,temp/**,test/*)'
@@ -101,14 +143,39 @@ export async function showAdvancedConfigurationWizard(): Promise<StructureConfig
         }
     }
 
+    const expression = await vscode.window.showInputBox({
+        prompt: 'Filter expression – optional (e.g. size > 1MB and modified < 30d and not path ~ /test/)',
+        placeHolder: 'leave empty to keep every entry',
+        validateInput: v => {
+            if (!v.trim()) {
+                return null;
+            }
+            try {
+                parseQuery(v);
+                return null;
+            } catch (e) {
+                return e instanceof Error ? e.message : String(e);
+            }
+        }
+    });
+    if (expression?.trim()) {
+        cfg.filterExpression = expression.trim();
+    }
+
     // ---- step 3 : output format --------------------------------------
     const fmt = await vscode.window.showQuickPick(
         [
             { label: '🌳 Tree view', value: 'tree' },
             { label: '📋 JSON', value: 'json' },
+            { label: '🧾 YAML', value: 'yaml' },
+            { label: '🧾 TOML', value: 'toml' },
             { label: '📝 Markdown', value: 'markdown' },
             { label: '🏷️ XML', value: 'xml' },
-            { label: '📄 CSV', value: 'csv' }
+            { label: '📄 CSV', value: 'csv' },
+            { label: '💾 Disk usage (heaviest folders)', value: 'du' },
+            { label: '🧜 Mermaid diagram', value: 'mermaid' },
+            { label: '🕸️ Graphviz DOT', value: 'dot' },
+            { label: '🌐 Interactive HTML page', value: 'html' }
         ],
         { placeHolder: 'Select output format' }
     );
@@ -205,41 +272,25 @@ export async function applyPreset(presetName: string): Promise<void> {
    WORKSPACE TEMPLATE MANAGEMENT
    ================================================================== */
 
-export async function loadWorkspaceTemplates(): Promise<Record<string, StructureConfig>> {
-    const ws = vscode.workspace.workspaceFolders;
-    if (!ws?.length) {
-        return {};
-    }
-
-    const file = path.join(ws[0].uri.fsPath, '.vscode', 'folder-navigator-templates.json');
-    try {
-        const data = await fs.promises.readFile(file, 'utf8');
-        return JSON.parse(data);
-    } catch {
-        return {};
-    }
+/** Templates of one workspace folder (each folder has its own templates file) */
+export interface FolderTemplates {
+    folder: vscode.WorkspaceFolder;
+    templates: Record<string, StructureConfig>;
 }
 
-export async function saveWorkspaceTemplate(name: string, cfg: StructureConfig): Promise<void> {
-    const ws = vscode.workspace.workspaceFolders;
-    if (!ws?.length) {
-        throw new Error('No workspace folder');
-    }
-
-    const vscodeDir = path.join(ws[0].uri.fsPath, '.vscode');
-    await fs.promises.mkdir(vscodeDir, { recursive: true });
-
-    const file = path.join(vscodeDir, 'folder-navigator-templates.json');
-    let existing: Record<string, StructureConfig> = {};
-
-    try {
-        const raw = await fs.promises.readFile(file, 'utf8');
-        existing = JSON.parse(raw);
-    } catch {
-        // ignore – start fresh
-    }
+/** Templates of every workspace folder, in workspace order */
+export async function loadWorkspaceTemplates(): Promise<FolderTemplates[]> {
+    const ws = vscode.workspace.workspaceFolders ?? [];
+    return Promise.all(ws.map(async folder => ({ folder, templates: await readTemplates(folder.uri.fsPath) })));
+}
 
+export async function saveWorkspaceTemplate(
+    folder: vscode.WorkspaceFolder,
+    name: string,
+    cfg: StructureConfig
+): Promise<void> {
+    const existing = await readTemplates(folder.uri.fsPath);
     existing[name] = cfg;
-    await fs.promises.writeFile(file, JSON.stringify(existing, null, 2), 'utf8');
-    vscode.window.showInformationMessage(`Template **${name}** saved to workspace`);
+    await writeTemplates(folder.uri.fsPath, existing);
+    vscode.window.showInformationMessage(`Template **${name}** saved to ${folder.name}`);
 }
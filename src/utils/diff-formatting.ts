@@ -0,0 +1,150 @@
+/* ==================================================================
+   DIFF FORMATTING
+   Renders a StructureDiff as a merged tree, markdown report or JSON
+   ================================================================== */
+
+import { DiffNode, DiffStatus, StructureDiff } from '../core/diff';
+import { humanFileSize } from './fs-helpers';
+
+/* ==================================================================
+   MARKERS
+   ================================================================== */
+
+const MARKERS: Record<DiffStatus, string> = {
+    added: '+',
+    removed: '-',
+    changed: '~',
+    unchanged: ' ',
+    moved: '~',
+    renamed: '~'
+};
+
+function marker(node: DiffNode): string {
+    // the source side of a move/rename disappears from its old place
+    if (node.movedTo) {
+        return MARKERS.removed;
+    }
+    if (node.movedFrom) {
+        return MARKERS.added;
+    }
+    return MARKERS[node.status];
+}
+
+/* ==================================================================
+   MERGED TREE
+   ================================================================== */
+
+/**
+ * One tree containing the entries of both sides, each line prefixed
+ * with `+` (added), `-` (removed), `~` (changed) or a blank.
+ * Directories without any differences are shown collapsed.
+ */
+export function formatDiffTree(diff: StructureDiff, prefix = '', node: DiffNode = diff.root): string {
+    const lines: string[] = [];
+
+    if (!prefix) {
+        lines.push(`  📁 ${node.name}`);
+    }
+
+    const children = node.children ?? [];
+    for (let i = 0; i < children.length; i++) {
+        const child = children[i];
+        const isLast = i === children.length - 1;
+        const connector = isLast ? '└── ' : '├── ';
+        const subPrefix = isLast ? '    ' : '│   ';
+        const isDir = (child.after ?? child.before)!.type === 'directory';
+
+        let line = `${marker(child)} ${prefix}${connector}${isDir ? '📁 ' : ''}${child.name}${describe(child)}`;
+        if (isDir && child.children?.length && !child.hasChanges) {
+            line += ' (unchanged)';
+        }
+        lines.push(line);
+
+        if (child.children?.length && child.hasChanges) {
+            lines.push(formatDiffTree(diff, prefix + subPrefix, child));
+        }
+    }
+    return lines.join('\n');
+}
+
+function describe(node: DiffNode): string {
+    if (node.movedTo) {
+        return ` → ${node.status} to ${node.movedTo}`;
+    }
+    if (node.movedFrom) {
+        return ` ← ${node.status} from ${node.movedFrom}`;
+    }
+    if (node.status !== 'changed' || !node.changes) {
+        return '';
+    }
+    const parts = node.changes.map(c => {
+        switch (c) {
+            case 'type':
+                return `type ${node.before!.type} → ${node.after!.type}`;
+            case 'size':
+                return `size ${humanFileSize(node.before!.size!)} → ${humanFileSize(node.after!.size!)}`;
+            case 'modified':
+                return `modified ${node.before!.modified!.toISOString().split('T')[0]} → ${node.after!.modified!.toISOString().split('T')[0]}`;
+        }
+    });
+    return ` (${parts.join(', ')})`;
+}
+
+/* ==================================================================
+   MARKDOWN REPORT
+   ================================================================== */
+
+export function formatDiffMarkdown(diff: StructureDiff): string {
+    const s = diff.summary;
+    const lines = [
+        `# 📁 Directory Comparison`,
+        `**Left:** \`${diff.left}\``,
+        `**Right:** \`${diff.right}\``,
+        '',
+        '## Summary',
+        '| Status | Count |',
+        '| --- | ---: |',
+        `| + Added | ${s.added} |`,
+        `| - Removed | ${s.removed} |`,
+        `| ~ Changed | ${s.changed} |`,
+        `| ~ Moved | ${s.moved} |`,
+        `| ~ Renamed | ${s.renamed} |`,
+        `| Unchanged | ${s.unchanged} |`,
+        ''
+    ];
+
+    if (diff.moves.length) {
+        lines.push('## Moves & renames', '| Kind | From | To |', '| --- | --- | --- |');
+        for (const m of diff.moves) {
+            lines.push(`| ${m.kind} | \`${m.from}\` | \`${m.to}\` |`);
+        }
+        lines.push('');
+    }
+
+    lines.push(
+        '## Merged tree',
+        '```diff',
+        formatDiffTree(diff),
+        '```',
+        '',
+        '_Generated by Folder Structure Navigator_'
+    );
+    return lines.join('\n');
+}
+
+/* ==================================================================
+   JSON (for tooling)
+   ================================================================== */
+
+export function formatDiffJSON(diff: StructureDiff): string {
+    const meta = {
+        generatedAt: new Date().toISOString(),
+        left: diff.left,
+        right: diff.right
+    };
+    return JSON.stringify(
+        { meta, summary: diff.summary, moves: diff.moves, root: diff.root },
+        null,
+        2
+    );
+}
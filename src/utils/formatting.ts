@@ -1,11 +1,11 @@
 /* ==================================================================
    FORMATTING UTILITIES
-   Handles all output formatting (tree, JSON, markdown, XML, CSV)
+   Handles all output formatting (tree, JSON, markdown, XML, CSV, diagrams)
    ================================================================== */
 
 import * as path from 'path';
-import { FileEntry } from '../models/file-entry.interface';
-import { StructureConfig } from '../models/config.interface';
+import { FileEntry, ScanError, TruncationReason } from '../models/file-entry.interface';
+import { OutputFormat, StructureConfig } from '../models/config.interface';
 import { humanFileSize } from './fs-helpers';
 
 /* ==================================================================
@@ -62,6 +62,94 @@ export function getIcon(entry: FileEntry, cfg: Required<StructureConfig>): strin
     return (emojiMap[key] || defaultEmoji) + ' ';
 }
 
+/* ==================================================================
+   PLUGIN ANNOTATIONS
+   ================================================================== */
+
+/** Render plugin annotations as ` {owner=team-a, target=//svc}` */
+export function annotationSuffix(entry: FileEntry): string {
+    const pairs = Object.entries(entry.annotations ?? {});
+    if (!pairs.length) {
+        return '';
+    }
+    return ` {${pairs.map(([k, v]) => `${k}=${v}`).join(', ')}}`;
+}
+
+/** Render a symlink as ` -> target`, flagging broken links and cycles */
+export function linkSuffix(entry: FileEntry): string {
+    if (entry.target === undefined) {
+        return '';
+    }
+    const flag = entry.broken ? ' (broken)' : entry.cycle ? ' (cycle)' : '';
+    return ` -> ${entry.target}${flag}`;
+}
+
+/** Render git metadata as ` ⎇ [modified] a1b2c3d 2025-01-31 Ada · 42 commits` (clean is not marked) */
+export function gitSuffix(entry: FileEntry): string {
+    const git = entry.git;
+    if (!git) {
+        return '';
+    }
+    const parts: string[] = [];
+    if (git.status && git.status !== 'clean') {
+        parts.push(`[${git.status}]`);
+    }
+    if (git.hash) {
+        parts.push(`${git.hash} ${git.date?.toISOString().split('T')[0] ?? ''} ${git.author ?? ''}`.trimEnd());
+    }
+    let text = parts.join(' ');
+    if (git.commits !== undefined) {
+        text += `${text ? ' · ' : ''}${git.commits} ${git.commits === 1 ? 'commit' : 'commits'}`;
+    }
+    return text ? ` ⎇ ${text}` : '';
+}
+
+/** Render a read failure as ` ⚠ permission denied` */
+export function errorSuffix(entry: FileEntry): string {
+    return entry.error ? ` ⚠ ${entry.error}` : '';
+}
+
+/** `… (incomplete – scan stopped: item budget reached)` – closes a folder the scan did not finish */
+export function truncationMarker(reason?: TruncationReason): string {
+    const why = reason === 'item-budget' ? ': item budget reached' : reason === 'time-budget' ? ': time budget reached' : '';
+    return `… (incomplete – scan stopped${why})`;
+}
+
+/** `… 120 more entries (maxEntriesPerDirectory)` – closes a folder whose listing was capped */
+export function omittedMarker(count: number): string {
+    return `… ${count} more ${count === 1 ? 'entry' : 'entries'} (maxEntriesPerDirectory)`;
+}
+
+/* ==================================================================
+   READ ERRORS
+   Entries the scan could not read – collected from the tree, so
+   subtrees built on worker threads report theirs too
+   ================================================================== */
+
+export function scanErrors(root: FileEntry): ScanError[] {
+    const errors: ScanError[] = [];
+    const walk = (node: FileEntry) => {
+        if (node.error) {
+            errors.push({ path: node.path, error: node.error });
+        }
+        node.children?.forEach(walk);
+    };
+    walk(root);
+    return errors;
+}
+
+/** Summary lines below a tree (none when everything was read), paths relative to `rootPath` */
+export function errorSummary(errors: ScanError[], rootPath: string): string[] {
+    if (!errors.length) {
+        return [];
+    }
+    const count = errors.length === 1 ? '1 entry' : `${errors.length} entries`;
+    return [
+        `⚠ ${count} could not be read:`,
+        ...errors.map(e => `  ${path.relative(rootPath, e.path).split(path.sep).join('/') || e.path} – ${e.error}`)
+    ];
+}
+
 /* ==================================================================
    TREE FORMAT
    ================================================================== */
@@ -70,7 +158,8 @@ export function formatTree(
     entry: FileEntry,
     cfg: Required<StructureConfig>,
     prefix = '',
-    genTime?: number
+    genTime?: number,
+    truncation = entry.truncation
 ): string {
     // Use array join instead of string concatenation for better performance
     const lines: string[] = [];
@@ -84,22 +173,21 @@ export function formatTree(
         lines.push('─'.repeat(50));
     }
 
-    if (!entry.children?.length) {
-        return lines.join('\n');
-    }
-
-    for (let i = 0; i < entry.children.length; i++) {
-        const child = entry.children[i];
-        const isLast = i === entry.children.length - 1;
+    const children = entry.children ?? [];
+    for (let i = 0; i < children.length; i++) {
+        const child = children[i];
+        const isLast = i === children.length - 1 && !entry.truncated && !entry.omitted;
         const connector = isLast ? '└── ' : '├── ';
         const subPrefix = isLast ? '    ' : '│   ';
 
         const icon = getIcon(child, cfg);
-        let line = `${prefix}${connector}${icon}${child.name}`;
+        let line = `${prefix}${connector}${icon}${child.name}${linkSuffix(child)}`;
 
         // optional metadata
         if (cfg.includeSize && child.size !== undefined) {
-            line += ` (${humanFileSize(child.size)})`;
+            line += child.fileCount !== undefined
+                ? ` (${humanFileSize(child.size)}, ${child.fileCount} files)`
+                : ` (${humanFileSize(child.size)})`;
         }
         if (cfg.includePermissions && child.permissions) {
             line += ` [${child.permissions}]`;
@@ -107,19 +195,36 @@ export function formatTree(
         if (cfg.includeModifiedDate && child.modified) {
             line += ` ⏰ ${child.modified.toISOString().split('T')[0]}`;
         }
+        line += gitSuffix(child) + annotationSuffix(child) + errorSuffix(child);
 
         lines.push(line);
 
         // recurse
-        if (child.children && child.children.length) {
+        const count = child.children?.length ?? 0;
+        if (count || child.truncated || child.omitted) {
             // Compression – collapse huge directories if requested
-            if (cfg.compressLargeDirs && child.children.length > cfg.compressionThreshold!) {
-                lines.push(`${prefix}${subPrefix}… (${child.children.length} items, collapsed)`);
+            if (cfg.compressLargeDirs && count > cfg.compressionThreshold!) {
+                lines.push(`${prefix}${subPrefix}… (${count} items, collapsed)`);
             } else {
-                lines.push(formatTree(child, cfg, prefix + subPrefix));
+                lines.push(formatTree(child, cfg, prefix + subPrefix, undefined, truncation));
             }
         }
     }
+
+    // the scan stopped before this directory was fully read, or its listing was capped
+    if (entry.truncated) {
+        lines.push(`${prefix}└── ${truncationMarker(truncation)}`);
+    } else if (entry.omitted) {
+        lines.push(`${prefix}└── ${omittedMarker(entry.omitted)}`);
+    }
+
+    // what could not be read, once below the whole tree
+    if (!prefix) {
+        const summary = errorSummary(scanErrors(entry), entry.path);
+        if (summary.length) {
+            lines.push('', ...summary);
+        }
+    }
     return lines.join('\n');
 }
 
@@ -127,18 +232,38 @@ export function formatTree(
    JSON FORMAT
    ================================================================== */
 
+/**
+ * Version of the `{ meta, structure }` document shape (JSON, YAML, TOML),
+ * described by schemas/structure.schema.json. Bump it on breaking changes –
+ * removed or renamed fields, changed types – and update the schema.
+ */
+export const SCHEMA_VERSION = 1;
+
+/**
+ * Generation metadata shared by the JSON, YAML, TOML and HTML formats –
+ * `truncated` says why the scan stopped early and `errors` lists the
+ * entries of `root` that could not be read (each only when it applies)
+ */
+export function generationMeta(root: FileEntry, cfg: Required<StructureConfig>, genTime: number, processed: number) {
+    const errors = scanErrors(root);
+    return {
+        schemaVersion: SCHEMA_VERSION,
+        generatedAt: new Date().toISOString(),
+        generationTime: `${genTime}ms`,
+        itemsProcessed: processed,
+        ...(root.truncation ? { truncated: root.truncation } : {}),
+        ...(errors.length ? { errors } : {}),
+        config: cfg
+    };
+}
+
 export function formatJSON(
     entry: FileEntry,
     cfg: Required<StructureConfig>,
     genTime: number,
     processed: number
 ): string {
-    const meta = {
-        generatedAt: new Date().toISOString(),
-        generationTime: `${genTime}ms`,
-        itemsProcessed: processed,
-        config: cfg
-    };
+    const meta = generationMeta(entry, cfg, genTime, processed);
     return JSON.stringify({ meta, structure: entry }, null, 2);
 }
 
@@ -158,7 +283,7 @@ export function formatMarkdown(
     md += `**Items processed:** ${processed}\n\n`;
     md += '## Directory tree\n```\n';
     md += formatTree(entry, cfg);
-    md += '```\n';
+    md += '\n```\n';
     return md;
 }
 
@@ -173,52 +298,283 @@ export function formatXML(
     let xml = `<?xml version="1.0" encoding="UTF-8"?>\n`;
     xml += `<folderStructure generated="${new Date().toISOString()}" timeMs="${genTime}">\n`;
     xml += xmlNode(entry, 1);
+    xml += xmlErrors(scanErrors(entry), '  ');
     xml += `</folderStructure>\n`;
     return xml;
 }
 
 function xmlNode(node: FileEntry, indent: number): string {
     const pad = '  '.repeat(indent);
-    const attrs = [
-        `name="${node.name}"`,
+    const attrs = xmlAttributes(node);
+    const inner = xmlAnnotations(node, pad + '  ') + (node.children ?? []).map(c => xmlNode(c, indent + 1)).join('');
+    // no children array → self-closing; an empty one (e.g. an empty folder) → open + close
+    if (!node.children && !inner) {
+        return `${pad}<node ${attrs} />\n`;
+    }
+    return inner ? `${pad}<node ${attrs}>\n${inner}${pad}</node>\n` : `${pad}<node ${attrs}></node>\n`;
+}
+
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/** Attributes of a `<node>` – every scalar FileEntry field, so XML reads back losslessly */
+export function xmlAttributes(node: FileEntry): string {
+    return [
+        `name="${escapeXml(node.name)}"`,
         `type="${node.type}"`,
         node.size !== undefined ? `size="${node.size}"` : '',
         node.permissions ? `perm="${node.permissions}"` : '',
-        node.modified ? `mod="${node.modified.toISOString()}"` : ''
+        node.modified ? `mod="${node.modified.toISOString()}"` : '',
+        node.target !== undefined ? `target="${escapeXml(node.target)}"` : '',
+        node.broken ? 'broken="true"' : '',
+        node.cycle ? 'cycle="true"' : '',
+        `path="${escapeXml(node.path)}"`,
+        node.fileCount !== undefined ? `files="${node.fileCount}"` : '',
+        node.percentOfParent !== undefined ? `pct="${node.percentOfParent}"` : '',
+        node.truncated ? 'truncated="true"' : '',
+        node.truncation ? `truncation="${node.truncation}"` : '',
+        node.omitted ? `omitted="${node.omitted}"` : '',
+        node.error ? `error="${escapeXml(node.error)}"` : '',
+        node.git?.status ? `git-status="${node.git.status}"` : '',
+        node.git?.hash ? `git-hash="${node.git.hash}"` : '',
+        node.git?.author !== undefined ? `git-author="${escapeXml(node.git.author)}"` : '',
+        node.git?.date ? `git-date="${node.git.date.toISOString()}"` : '',
+        node.git?.commits !== undefined ? `git-commits="${node.git.commits}"` : ''
     ]
         .filter(Boolean)
         .join(' ');
-    if (!node.children?.length) {
-        return `${pad}<node ${attrs} />\n`;
-    }
-    let out = `${pad}<node ${attrs}>\n`;
-    for (const child of node.children) {
-        out += xmlNode(child, indent + 1);
+}
+
+/** Plugin annotations as `<annotation key="…" value="…" />` children */
+export function xmlAnnotations(node: FileEntry, pad: string): string {
+    return Object.entries(node.annotations ?? {})
+        .map(([k, v]) => `${pad}<annotation key="${escapeXml(k)}" value="${escapeXml(v)}" />\n`)
+        .join('');
+}
+
+/** `<errors>` after the root node – every entry that could not be read */
+export function xmlErrors(errors: ScanError[], pad: string): string {
+    if (!errors.length) {
+        return '';
     }
-    out += `${pad}</node>\n`;
-    return out;
+    const items = errors.map(e => `${pad}  <error path="${escapeXml(e.path)}" reason="${escapeXml(e.error)}" />\n`).join('');
+    return `${pad}<errors count="${errors.length}">\n${items}${pad}</errors>\n`;
 }
 
 /* ==================================================================
    CSV FORMAT
    ================================================================== */
 
-export function formatCSV(root: FileEntry): string {
-    // Columns: path, type, size, permissions, modified
-    const rows: string[] = [
-        ['Path', 'Type', 'Size (bytes)', 'Permissions', 'Modified'].join(',')
+/** RFC 4180 field – quotes doubled */
+export function csvQuote(text: string): string {
+    return `"${text.replace(/"/g, '""')}"`;
+}
+
+export const CSV_HEADER = ['Path', 'Type', 'Size (bytes)', 'Permissions', 'Modified', 'Target'];
+/** Appended when the scan read git metadata */
+export const CSV_GIT_HEADER = ['Git status', 'Last commit', 'Commit author', 'Commit date', 'Commits'];
+
+export function csvCells(node: FileEntry, withGit: boolean): string[] {
+    const cells = [
+        csvQuote(node.path),
+        node.type,
+        node.size?.toString() ?? '',
+        node.permissions ?? '',
+        node.modified?.toISOString() ?? '',
+        node.target !== undefined ? csvQuote(node.target) : ''
     ];
+    if (withGit) {
+        const git = node.git ?? {};
+        cells.push(
+            git.status ?? '',
+            git.hash ?? '',
+            git.author !== undefined ? csvQuote(git.author) : '',
+            git.date?.toISOString() ?? '',
+            git.commits?.toString() ?? ''
+        );
+    }
+    return cells;
+}
+
+export function formatCSV(root: FileEntry): string {
+    const hasGit = (node: FileEntry): boolean => !!node.git || (node.children ?? []).some(hasGit);
+    const withGit = hasGit(root);
+
+    const rows: string[] = [(withGit ? [...CSV_HEADER, ...CSV_GIT_HEADER] : CSV_HEADER).join(',')];
     const walk = (node: FileEntry) => {
-        const row = [
-            `"${node.path}"`,
-            node.type,
-            node.size?.toString() ?? '',
-            node.permissions ?? '',
-            node.modified?.toISOString() ?? ''
-        ].join(',');
-        rows.push(row);
+        rows.push(csvCells(node, withGit).join(','));
         node.children?.forEach(walk);
     };
     walk(root);
     return rows.join('\n');
 }
+
+/* ==================================================================
+   DISK USAGE FORMAT (top-N heaviest subtrees)
+   ================================================================== */
+
+export function formatDiskUsage(root: FileEntry, cfg: Required<StructureConfig>): string {
+    const dirs: FileEntry[] = [];
+    const walk = (node: FileEntry) => {
+        for (const child of node.children ?? []) {
+            if (child.type === 'directory') {
+                dirs.push(child);
+                walk(child);
+            }
+        }
+    };
+    walk(root);
+    dirs.sort((a, b) => (b.size ?? 0) - (a.size ?? 0) || a.path.localeCompare(b.path));
+
+    const total = root.size ?? 0;
+    const lines = [
+        `💾 ${root.name} – ${humanFileSize(total)} in ${root.fileCount ?? 0} files (${cfg.sizeMode} size)`,
+        '─'.repeat(50)
+    ];
+    const top = dirs.slice(0, cfg.diskUsageTopN);
+    if (!top.length) {
+        lines.push('(no subdirectories)');
+    }
+    for (const dir of top) {
+        const share = total ? (dir.size ?? 0) / total * 100 : 0;
+        const rel = path.relative(root.path, dir.path).split(path.sep).join('/');
+        lines.push([
+            `${share.toFixed(1).padStart(5)}%`,
+            humanFileSize(dir.size ?? 0).padStart(9),
+            `${String(dir.fileCount ?? 0).padStart(7)} files`,
+            `${rel}/`,
+            `(${dir.percentOfParent ?? 0}% of parent)`
+        ].join('  '));
+    }
+    if (dirs.length > top.length) {
+        lines.push(`… ${dirs.length - top.length} smaller folders not shown`);
+    }
+    if (root.truncated) {
+        lines.push(`${truncationMarker(root.truncation)} – totals cover what was scanned`);
+    }
+    // unreadable folders count as empty
+    const summary = errorSummary(scanErrors(root), root.path);
+    if (summary.length) {
+        lines.push('', ...summary);
+    }
+    return lines.join('\n');
+}
+
+/* ==================================================================
+   DIAGRAM FORMATS (Mermaid flowchart / Graphviz DOT)
+   ================================================================== */
+
+export type DiagramNodeKind = 'directory' | 'file' | 'collapsed';
+
+/** `src/`, `main.ts` – with includeSize also `(1.2 MB, 40%)` */
+export function diagramLabel(entry: FileEntry, cfg: Required<StructureConfig>): string {
+    let label = entry.type === 'directory' ? `${entry.name}/` : entry.name;
+    label += linkSuffix(entry);
+    if (cfg.includeSize && entry.size !== undefined) {
+        label += entry.percentOfParent !== undefined
+            ? ` (${humanFileSize(entry.size)}, ${entry.percentOfParent}%)`
+            : ` (${humanFileSize(entry.size)})`;
+    }
+    return label;
+}
+
+/** Mermaid node: folders are boxes, files rounded, collapsed folders stadiums */
+export function mermaidNode(id: string, label: string, kind: DiagramNodeKind): string {
+    const text = `"${label.replace(/"/g, '#quot;')}"`;
+    switch (kind) {
+        case 'directory':
+            return `${id}[${text}]`;
+        case 'collapsed':
+            return `${id}([${text}])`;
+        default:
+            return `${id}(${text})`;
+    }
+}
+
+/** DOT node statement; `fontSize` weights the label by size */
+export function dotNode(id: string, label: string, kind: DiagramNodeKind, fontSize?: number): string {
+    const attrs = [`label="${label.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`];
+    if (kind === 'directory') {
+        attrs.push('shape=folder');
+    } else if (kind === 'collapsed') {
+        attrs.push('style=dashed');
+    }
+    if (fontSize !== undefined) {
+        attrs.push(`fontsize=${fontSize}`);
+    }
+    return `${id} [${attrs.join(', ')}];`;
+}
+
+export const DOT_HEADER = [
+    'digraph structure {',
+    '    rankdir=LR;',
+    '    node [shape=box, fontname="Helvetica", fontsize=10];'
+];
+
+/**
+ * Visit every node of the diagram in pre-order. Directories above the
+ * compression threshold get a single `… N items` child instead of their
+ * contents.
+ */
+function walkDiagram(
+    root: FileEntry,
+    cfg: Required<StructureConfig>,
+    visit: (id: string, parent: string | null, kind: DiagramNodeKind, label: string, entry?: FileEntry) => void
+): void {
+    let next = 0;
+    const walk = (node: FileEntry, parent: string | null) => {
+        const id = `n${next++}`;
+        const kind = node.type === 'directory' || node.children ? 'directory' : 'file';
+        visit(id, parent, kind, diagramLabel(node, cfg), node);
+
+        const count = node.children?.length ?? 0;
+        if (cfg.compressLargeDirs && count > cfg.compressionThreshold) {
+            visit(`n${next++}`, id, 'collapsed', `… ${count} items`);
+            return;
+        }
+        node.children?.forEach(child => walk(child, id));
+    };
+    walk(root, null);
+}
+
+export function formatMermaid(root: FileEntry, cfg: Required<StructureConfig>): string {
+    const lines = ['graph TD'];
+    walkDiagram(root, cfg, (id, parent, kind, label) => {
+        const node = mermaidNode(id, label, kind);
+        lines.push(parent ? `    ${parent} --> ${node}` : `    ${node}`);
+    });
+    return lines.join('\n');
+}
+
+export function formatDot(root: FileEntry, cfg: Required<StructureConfig>): string {
+    const lines = [...DOT_HEADER];
+    // with sizes, labels grow from 10pt to 24pt with their share of the whole tree
+    const total = cfg.includeSize ? root.size ?? 0 : 0;
+    walkDiagram(root, cfg, (id, parent, kind, label, entry) => {
+        const weight = total && entry ? 10 + Math.round(14 * (entry.size ?? 0) / total) : undefined;
+        lines.push(`    ${dotNode(id, label, kind, weight)}`);
+        if (parent) {
+            lines.push(`    ${parent} -> ${id};`);
+        }
+    });
+    lines.push('}');
+    return lines.join('\n');
+}
+
+/** File extension used when saving output in `format` */
+export function outputFileExtension(format: OutputFormat): string {
+    switch (format) {
+        case 'tree':
+        case 'du':
+            return 'txt';
+        case 'mermaid':
+            return 'mmd';
+        default:
+            return format;
+    }
+}
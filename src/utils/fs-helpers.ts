@@ -5,8 +5,10 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { GitignoreRules } from '../models/file-entry.interface';
+import { DirItem, GitignoreRules, IgnoreRule } from '../models/file-entry.interface';
 import { gitignoreCache, statsCache } from './cache';
+import { createIgnoreRules, parseIgnoreFile } from './ignore-rules';
+import { ScanIndex } from './scan-index';
 
 /* ==================================================================
    DIRECTORY VALIDATION
@@ -21,48 +23,114 @@ export async function isValidDirectory(p: string): Promise<boolean> {
     }
 }
 
+/* ==================================================================
+   DIRECTORY LISTING (served from ScanIndex when mtime is unchanged)
+   ================================================================== */
+
+export async function readDirItems(dir: string): Promise<DirItem[]> {
+    const index = ScanIndex.getInstance();
+    if (!index.enabled) {
+        return fs.promises.readdir(dir, { withFileTypes: true });
+    }
+
+    const { mtimeMs } = await fs.promises.stat(dir);
+    const cached = index.lookup(dir, mtimeMs);
+    if (cached) {
+        return cached;
+    }
+    const items = await fs.promises.readdir(dir, { withFileTypes: true });
+    index.store(dir, mtimeMs, items);
+    return items;
+}
+
+/** A listed entry that was gone by the time it was read */
+export const VANISHED = 'vanished during the scan';
+
+/**
+ * Short reason a path could not be read, for the ⚠ marker and error
+ * summaries. Knows Node's error codes and those of vscode.FileSystemError.
+ */
+export function describeReadError(err: unknown): string {
+    const code = (err as { code?: unknown } | null)?.code;
+    switch (code) {
+        case 'EACCES':
+        case 'EPERM':
+        case 'NoPermissions':
+            return 'permission denied';
+        case 'ENOENT':
+        case 'ENOTDIR':
+        case 'FileNotFound':
+        case 'FileNotADirectory':
+            return VANISHED;
+        case 'ETIMEDOUT':
+            return 'timed out';
+        case 'Unavailable':
+            return 'unavailable';
+    }
+    if (typeof code === 'string' && code) {
+        return `read error (${code})`;
+    }
+    return err instanceof Error ? err.message : String(err);
+}
+
 /* ==================================================================
    GITIGNORE UTILITIES
    ================================================================== */
 
+/**
+ * Effective ignore rules for the *contents* of `dir`.
+ * Cascades every ignore source from the repository root down to `dir`:
+ * `.git/info/exclude` first, then each `.gitignore` on the way, so deeper
+ * files take precedence. Outside a repository the cascade starts at the
+ * filesystem root. Results are cached per directory in `gitignoreCache`.
+ */
 export async function getGitignoreRules(dir: string): Promise<GitignoreRules | null> {
-    if (gitignoreCache.has(dir)) {
-        return gitignoreCache.get(dir)!;
+    const rules = await resolveGitignoreRules(path.resolve(dir));
+    return rules.patterns.length ? rules : null;
+}
+
+async function resolveGitignoreRules(dir: string): Promise<GitignoreRules> {
+    const cached = gitignoreCache.get(dir);
+    if (cached) {
+        return cached;
     }
-    const nearest = await findNearestGitignore(dir);
-    if (!nearest) {
-        return null;
+
+    // ---- inherited rules (stop at the repo root / filesystem root) -------
+    let inherited: IgnoreRule[] = [];
+    const parent = path.dirname(dir);
+    if (await pathExists(path.join(dir, '.git'))) {
+        inherited = parseIgnoreFile(
+            await readTextFile(path.join(dir, '.git', 'info', 'exclude')),
+            dir
+        );
+    } else if (parent !== dir) {
+        inherited = (await resolveGitignoreRules(parent)).rules;
     }
-    const content = await fs.promises.readFile(nearest, 'utf8');
-    const patterns = content
-        .split('\n')
-        .map(l => l.trim())
-        .filter(l => l && !l.startsWith('#'));
-
-    const rules: GitignoreRules = {
-        patterns,
-        isIgnored: (filePath: string) => {
-            const rel = path.relative(path.dirname(nearest), filePath);
-            return patterns.some(p => matchesPattern(rel, p));
-        }
-    };
+
+    // ---- this directory's own .gitignore ---------------------------------
+    const own = parseIgnoreFile(await readTextFile(path.join(dir, '.gitignore')), dir);
+    const all = own.length ? [...inherited, ...own] : inherited;
+
+    const rules = createIgnoreRules(all);
     gitignoreCache.set(dir, rules);
     return rules;
 }
 
-async function findNearestGitignore(start: string): Promise<string | null> {
-    let cur = start;
-    while (cur && cur !== path.dirname(cur)) {
-        const candidate = path.join(cur, '.gitignore');
-        try {
-            await fs.promises.access(candidate);
-            return candidate;
-        } catch {
-            // keep climbing
-            cur = path.dirname(cur);
-        }
-    }
-    return null;
+async function pathExists(p: string): Promise<boolean> {
+    try {
+        await fs.promises.access(p);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export async function readTextFile(p: string): Promise<string> {
+    try {
+        return await fs.promises.readFile(p, 'utf8');
+    } catch {
+        return '';
+    }
 }
 
 export function matchesPattern(filePath: string, pattern: string): boolean {
@@ -106,6 +174,31 @@ export async function getStats(p: string): Promise<fs.Stats | null> {
     }
 }
 
+/** Metadata of a symlink itself, not of its target */
+export async function getLinkStats(p: string): Promise<fs.Stats | null> {
+    try {
+        return await fs.promises.lstat(p);
+    } catch {
+        return null;
+    }
+}
+
+/** Link text plus the target's stats (`null` = broken link) */
+export async function resolveSymlink(p: string): Promise<{ target: string; stats: fs.Stats | null }> {
+    let target = '';
+    try {
+        target = await fs.promises.readlink(p);
+    } catch {
+        // not a link (anymore)
+    }
+    return { target, stats: await getStats(p) };
+}
+
+/** Identity of a file system object – equal for every path that reaches it (undefined when unknown) */
+export function inodeKey(stats: { dev?: number; ino?: number }): string | undefined {
+    return stats.dev === undefined || stats.ino === undefined ? undefined : `${stats.dev}:${stats.ino}`;
+}
+
 export function permissionsString(mode: number): string {
     const map = ['r', 'w', 'x'];
     let str = '';
@@ -0,0 +1,60 @@
+/* ==================================================================
+   GIT HELPERS (NO VSCODE DEPENDENCIES)
+   Thin wrappers around the `git` binary – every helper resolves to
+   `undefined` when git is missing or the folder is not a repository
+   (streamGit, for output too large to buffer, rejects instead)
+   ================================================================== */
+
+import { execFile, spawn } from 'child_process';
+import * as readline from 'readline';
+
+export class GitError extends Error {}
+
+/** Run git in `cwd` and return its stdout, or undefined on any failure */
+export function runGit(cwd: string, args: string[]): Promise<string | undefined> {
+    return new Promise(resolve => {
+        execFile('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (err, stdout) => {
+            resolve(err ? undefined : stdout);
+        });
+    });
+}
+
+/**
+ * Run git in `cwd` and hand its stdout to `onLine` one line at a time –
+ * nothing is buffered, so a full history of any size fits. Rejects with a
+ * GitError carrying git's message when it cannot run or exits non-zero.
+ */
+export function streamGit(cwd: string, args: string[], onLine: (line: string) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const child = spawn('git', args, { cwd, stdio: ['ignore', 'pipe', 'pipe'] });
+        let stderr = '';
+        child.stderr.setEncoding('utf8');
+        child.stderr.on('data', (chunk: string) => {
+            stderr = (stderr + chunk).slice(-4096);
+        });
+        readline.createInterface({ input: child.stdout, crlfDelay: Infinity }).on('line', onLine);
+        child.on('error', e => reject(new GitError(e.message)));
+        child.on('close', code => {
+            if (code === 0) {
+                resolve();
+            } else {
+                reject(new GitError(stderr.trim().split('\n').pop() || `git exited with code ${code}`));
+            }
+        });
+    });
+}
+
+/** Full hash of the commit checked out in `cwd` */
+export function gitHead(cwd: string): Promise<string | undefined> {
+    return runGit(cwd, ['rev-parse', 'HEAD']).then(out => out?.trim());
+}
+
+/** Branch, remote branch and tag names (`origin/HEAD` aliases left out) */
+export async function gitRefs(cwd: string): Promise<string[] | undefined> {
+    const out = await runGit(cwd, [
+        'for-each-ref', '--format=%(refname) %(refname:short)', 'refs/heads', 'refs/remotes', 'refs/tags'
+    ]);
+    return out?.split('\n')
+        .filter(line => line && !line.split(' ')[0].endsWith('/HEAD'))
+        .map(line => line.slice(line.indexOf(' ') + 1));
+}
@@ -0,0 +1,289 @@
+/* ==================================================================
+   HTML FORMAT
+   A single self-contained page (inline CSS + JS, no external assets)
+   with a collapsible tree, search box and sorting
+   ================================================================== */
+
+import * as path from 'path';
+import { FileEntry, ScanError } from '../models/file-entry.interface';
+import { StructureConfig } from '../models/config.interface';
+import { humanFileSize } from './fs-helpers';
+import { generationMeta, getIcon, linkSuffix, truncationMarker } from './formatting';
+
+/**
+ * Compact node embedded in the page – short keys keep large trees small.
+ * n = name, i = icon, d = directory, s/h = size in bytes / human readable,
+ * m/md = mtime in ms / as date, l = symlink suffix, x = scan incomplete,
+ * e = read error, o = entries left out (maxEntriesPerDirectory), c = children
+ */
+interface HtmlNode {
+    n: string;
+    i: string;
+    d?: 1;
+    s?: number;
+    h?: string;
+    m?: number;
+    md?: string;
+    l?: string;
+    x?: 1;
+    e?: string;
+    o?: number;
+    c?: HtmlNode[];
+}
+
+function toHtmlNode(entry: FileEntry, cfg: Required<StructureConfig>): HtmlNode {
+    const node: HtmlNode = { n: entry.name, i: getIcon(entry, cfg).trim() };
+    if (entry.type === 'directory' || entry.children) {
+        node.d = 1;
+        node.c = (entry.children ?? []).map(child => toHtmlNode(child, cfg));
+    }
+    if (entry.size !== undefined) {
+        node.s = entry.size;
+        node.h = humanFileSize(entry.size);
+    }
+    if (entry.modified) {
+        node.m = entry.modified.getTime();
+        node.md = entry.modified.toISOString().split('T')[0];
+    }
+    const link = linkSuffix(entry);
+    if (link) {
+        node.l = link;
+    }
+    if (entry.truncated) {
+        node.x = 1;
+    }
+    if (entry.error) {
+        node.e = entry.error;
+    }
+    if (entry.omitted) {
+        node.o = entry.omitted;
+    }
+    return node;
+}
+
+/** Collapsible list of the entries that could not be read */
+function errorDetails(errors: ScanError[], rootPath: string): string {
+    if (!errors.length) {
+        return '';
+    }
+    const items = errors
+        .map(e => `<li>${escapeHtml(path.relative(rootPath, e.path).split(path.sep).join('/') || e.path)} – ${escapeHtml(e.error)}</li>`)
+        .join('');
+    return `<details class="errors"><summary>⚠ ${errors.length === 1 ? '1 entry' : `${errors.length} entries`} could not be read</summary><ul>${items}</ul></details>\n`;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/** JSON that is safe inside a <script> element */
+function scriptJson(value: unknown): string {
+    return JSON.stringify(value)
+        .replace(/</g, '\\u003c')
+        .replace(/\u2028/g, '\\u2028')
+        .replace(/\u2029/g, '\\u2029');
+}
+
+export function formatHTML(
+    root: FileEntry,
+    cfg: Required<StructureConfig>,
+    genTime: number,
+    processed: number
+): string {
+    const meta = generationMeta(root, cfg, genTime, processed);
+    const title = escapeHtml(root.name);
+    const stopped = meta.truncated ? ` · ⚠ ${escapeHtml(truncationMarker(meta.truncated).slice(3, -1))}` : '';
+    const totals = root.size !== undefined
+        ? ` · ${escapeHtml(humanFileSize(root.size))}${root.fileCount !== undefined ? ` in ${root.fileCount} files` : ''}`
+        : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title} – folder structure</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+<h1>📁 ${title}</h1>
+<p class="meta">Generated ${escapeHtml(meta.generatedAt)} in ${escapeHtml(meta.generationTime)} · ${meta.itemsProcessed} items${totals}${stopped}</p>
+${errorDetails(meta.errors ?? [], root.path)}<details class="config"><summary>Configuration</summary><pre>${escapeHtml(JSON.stringify(meta.config, null, 2))}</pre></details>
+<div class="controls">
+<input id="search" type="search" placeholder="Search files and folders…" autofocus>
+<label>Sort by <select id="sort"><option value="name">Name</option><option value="size">Size</option><option value="mtime">Modified</option></select></label>
+<button id="expand" type="button">Expand all</button>
+<button id="collapse" type="button">Collapse all</button>
+<span id="count"></span>
+</div>
+</header>
+<main id="tree"></main>
+<script id="data" type="application/json">${scriptJson(toHtmlNode(root, cfg))}</script>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/* ==================================================================
+   PAGE ASSETS (inlined)
+   ================================================================== */
+
+const STYLE = `
+body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 0; color: #1f2328; background: #fff; }
+header { position: sticky; top: 0; background: #f6f8fa; border-bottom: 1px solid #d0d7de; padding: 12px 20px; }
+h1 { font-size: 20px; margin: 0 0 4px; }
+.meta { margin: 0 0 8px; color: #59636e; }
+.config pre { max-height: 240px; overflow: auto; background: #fff; border: 1px solid #d0d7de; padding: 8px; }
+.errors { color: #9a6700; margin-bottom: 8px; }
+.errors ul { max-height: 160px; overflow: auto; }
+.controls { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; }
+#search { flex: 1; min-width: 200px; padding: 4px 8px; font-size: 14px; }
+#count { color: #59636e; }
+main { padding: 12px 20px; }
+ul { list-style: none; margin: 0; padding-left: 20px; }
+main > ul { padding-left: 0; }
+summary { cursor: pointer; }
+.row { white-space: nowrap; }
+.info { color: #59636e; margin-left: 8px; font-size: 12px; }
+.link { color: #8250df; }
+.incomplete { color: #9a6700; font-style: italic; }
+mark { background: #fff8c5; }
+@media (prefers-color-scheme: dark) {
+  body { color: #e6edf3; background: #0d1117; }
+  header { background: #161b22; border-color: #30363d; }
+  .meta, .info, #count { color: #9198a1; }
+  .config pre { background: #0d1117; border-color: #30363d; }
+  mark { background: #bb800926; color: inherit; }
+}
+`;
+
+// Free of backticks and `${`, so it can live in this template literal
+const SCRIPT = `
+(function () {
+  var root = JSON.parse(document.getElementById('data').textContent);
+  var tree = document.getElementById('tree');
+  var search = document.getElementById('search');
+  var sort = document.getElementById('sort');
+  var count = document.getElementById('count');
+
+  function compare(a, b) {
+    if (a.d && !b.d) { return -1; }
+    if (!a.d && b.d) { return 1; }
+    if (sort.value === 'size' && (a.s || 0) !== (b.s || 0)) { return (b.s || 0) - (a.s || 0); }
+    if (sort.value === 'mtime' && (a.m || 0) !== (b.m || 0)) { return (b.m || 0) - (a.m || 0); }
+    return a.n.localeCompare(b.n, undefined, { numeric: true });
+  }
+
+  function label(node, query) {
+    var span = document.createElement('span');
+    span.className = 'row';
+    span.appendChild(document.createTextNode(node.i ? node.i + ' ' : ''));
+    var at = query ? node.n.toLowerCase().indexOf(query) : -1;
+    if (at >= 0) {
+      span.appendChild(document.createTextNode(node.n.slice(0, at)));
+      var mark = document.createElement('mark');
+      mark.textContent = node.n.slice(at, at + query.length);
+      span.appendChild(mark);
+      span.appendChild(document.createTextNode(node.n.slice(at + query.length)));
+    } else {
+      span.appendChild(document.createTextNode(node.n));
+    }
+    if (node.l) {
+      var link = document.createElement('span');
+      link.className = 'link';
+      link.textContent = node.l;
+      span.appendChild(link);
+    }
+    var info = [];
+    if (node.h) { info.push(node.h); }
+    if (node.md) { info.push(node.md); }
+    if (node.e) { info.push('⚠ ' + node.e); }
+    if (info.length) {
+      var extra = document.createElement('span');
+      extra.className = 'info';
+      extra.textContent = info.join(' · ');
+      span.appendChild(extra);
+    }
+    return span;
+  }
+
+  // Keep nodes matching the query plus their ancestors; null when nothing matches
+  function filter(node, query) {
+    var self = node.n.toLowerCase().indexOf(query) >= 0;
+    if (!node.d) { return self ? node : null; }
+    var kept = [];
+    (node.c || []).forEach(function (child) {
+      var hit = filter(child, query);
+      if (hit) { kept.push(hit); }
+    });
+    if (!self && !kept.length) { return null; }
+    var copy = {};
+    for (var k in node) { copy[k] = node[k]; }
+    copy.c = self && !kept.length ? node.c : kept;
+    return copy;
+  }
+
+  var matches = 0;
+  function render(node, depth, query) {
+    var li = document.createElement('li');
+    if (query && node.n.toLowerCase().indexOf(query) >= 0) { matches++; }
+    if (!node.d) {
+      li.appendChild(label(node, query));
+      return li;
+    }
+    var details = document.createElement('details');
+    details.open = query ? true : depth < 1;
+    var summary = document.createElement('summary');
+    summary.appendChild(label(node, query));
+    details.appendChild(summary);
+    var ul = document.createElement('ul');
+    (node.c || []).slice().sort(compare).forEach(function (child) {
+      ul.appendChild(render(child, depth + 1, query));
+    });
+    if (node.x) {
+      var more = document.createElement('li');
+      more.className = 'incomplete';
+      more.textContent = '… incomplete – scan stopped';
+      ul.appendChild(more);
+    } else if (node.o) {
+      var rest = document.createElement('li');
+      rest.className = 'incomplete';
+      rest.textContent = '… ' + node.o + ' more entries';
+      ul.appendChild(rest);
+    }
+    details.appendChild(ul);
+    li.appendChild(details);
+    return li;
+  }
+
+  function update() {
+    var query = search.value.trim().toLowerCase();
+    var top = query ? filter(root, query) : root;
+    var ul = document.createElement('ul');
+    matches = 0;
+    if (top) { ul.appendChild(render(top, 0, query)); }
+    tree.replaceChildren(ul);
+    count.textContent = query ? matches + ' matching items' : '';
+  }
+
+  function toggleAll(open) {
+    tree.querySelectorAll('details').forEach(function (d) { d.open = open; });
+  }
+
+  var timer;
+  search.addEventListener('input', function () {
+    clearTimeout(timer);
+    timer = setTimeout(update, 150);
+  });
+  sort.addEventListener('change', update);
+  document.getElementById('expand').addEventListener('click', function () { toggleAll(true); });
+  document.getElementById('collapse').addEventListener('click', function () { toggleAll(false); });
+  update();
+})();
+`;
@@ -0,0 +1,121 @@
+/* ==================================================================
+   IGNORE RULES
+   Git-compatible parsing and evaluation of .gitignore-style files
+   ================================================================== */
+
+import * as path from 'path';
+import { Minimatch } from 'minimatch';
+import { GitignoreRules, IgnoreRule } from '../models/file-entry.interface';
+
+// git's wildmatch has no braces or extglobs, and leading dots are literal
+const MATCH_OPTIONS = { dot: true, nobrace: true, noext: true, nocomment: true, nonegate: true };
+
+/* ==================================================================
+   PARSING
+   ================================================================== */
+
+/**
+ * Parse the content of an ignore file located in `base`.
+ * Follows gitignore(5): comments, `\#` / `\!` escapes, trailing-space
+ * trimming, `!` negation, trailing `/` for directories and anchoring
+ * for any pattern with a `/` at the start or in the middle.
+ */
+export function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        let line = trimTrailingSpaces(rawLine);
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+
+        let negated = false;
+        if (line.startsWith('!')) {
+            negated = true;
+            line = line.slice(1);
+        } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+            line = line.slice(1);
+        }
+
+        let dirOnly = false;
+        if (line.endsWith('/')) {
+            dirOnly = true;
+            line = line.slice(0, -1);
+        }
+        if (!line) {
+            continue;
+        }
+
+        const anchored = line.includes('/');
+        if (line.startsWith('/')) {
+            line = line.slice(1);
+        }
+
+        const matcher = new Minimatch(line, MATCH_OPTIONS);
+        rules.push({
+            pattern: rawLine.trim(),
+            base,
+            negated,
+            dirOnly,
+            anchored,
+            matches: subject => matcher.match(subject)
+        });
+    }
+    return rules;
+}
+
+function trimTrailingSpaces(line: string): string {
+    // "foo\ " keeps its escaped trailing space
+    let end = line.length;
+    while (end > 0 && (line[end - 1] === ' ' || line[end - 1] === '\t' || line[end - 1] === '\r')) {
+        if (line[end - 2] === '\\') {
+            break;
+        }
+        end--;
+    }
+    return line.slice(0, end);
+}
+
+/* ==================================================================
+   EVALUATION
+   ================================================================== */
+
+/**
+ * Evaluate `rules` (ordered from lowest to highest precedence) for a path.
+ * The last matching rule wins, so a later `!keep.me` re-includes a file that
+ * an earlier rule excluded. Parent directories are not re-checked here –
+ * callers walk the tree top-down and never descend into ignored folders,
+ * which gives git's "cannot re-include inside an excluded directory" rule.
+ */
+export function isPathIgnored(rules: IgnoreRule[], filePath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+
+    for (const rule of rules) {
+        if (rule.dirOnly && !isDirectory) {
+            continue;
+        }
+        // patterns only apply inside the directory of their ignore file
+        const rel = path.relative(rule.base, filePath);
+        if (!rel || rel.startsWith('..') || path.isAbsolute(rel)) {
+            continue;
+        }
+        const subject = rule.anchored
+            ? rel.split(path.sep).join('/')
+            : path.basename(rel);
+
+        if (rule.negated === ignored && rule.matches(subject)) {
+            ignored = !rule.negated;
+        }
+    }
+    return ignored;
+}
+
+/** Bundle cascaded rules (lowest → highest precedence) for a folder's contents */
+export function createIgnoreRules(rules: IgnoreRule[]): GitignoreRules {
+    return {
+        patterns: rules.map(r => r.pattern),
+        rules,
+        isIgnored: (filePath: string, isDirectory = false) =>
+            isPathIgnored(rules, filePath, isDirectory)
+    };
+}
@@ -0,0 +1,611 @@
+/* ==================================================================
+   STRUCTURE PARSING
+   Reads exported structures (tree text, markdown, JSON, XML, CSV) back
+   into a FileEntry tree. JSON and XML round-trip losslessly; the other
+   formats keep only what they print.
+   ================================================================== */
+
+import { FileEntry, GitEntryInfo, GitStatus, TruncationReason } from '../models/file-entry.interface';
+
+export type ParseFormat = 'tree' | 'markdown' | 'json' | 'xml' | 'csv';
+
+export interface ParseOptions {
+    format?: ParseFormat;                   // detected from the content when omitted
+    rootPath?: string;                      // `path` of the root entry (default: its name)
+    customIcons?: Record<string, string>;   // the export's customIcons, so tree labels lose them too
+}
+
+export class StructureParseError extends Error {}
+
+/** Guess the format of a structure document */
+export function detectStructureFormat(text: string): ParseFormat {
+    const trimmed = text.trimStart();
+    if (trimmed.startsWith('{')) {
+        return 'json';
+    }
+    if (trimmed.startsWith('<')) {
+        return 'xml';
+    }
+    if (/^"?Path"?,"?Type"?(,|\r?\n|$)/.test(trimmed)) {
+        return 'csv';
+    }
+    if (/^#\s/.test(trimmed) || /^```/m.test(trimmed) || /^- /.test(trimmed)) {
+        return 'markdown';
+    }
+    return 'tree';
+}
+
+export function parseStructure(text: string, opts: ParseOptions = {}): FileEntry {
+    const format = opts.format ?? detectStructureFormat(text);
+    let root: FileEntry;
+    switch (format) {
+        case 'json':
+            root = parseJSON(text);
+            break;
+        case 'xml':
+            root = parseXML(text);
+            break;
+        case 'csv':
+            root = parseCSV(text);
+            break;
+        case 'markdown':
+            root = parseMarkdown(text, opts);
+            break;
+        default:
+            root = parseTree(text, opts);
+    }
+    // JSON, XML and CSV carry their own paths
+    if (opts.rootPath !== undefined || format === 'tree' || format === 'markdown') {
+        assignPaths(root, opts.rootPath ?? root.name);
+    }
+    return root;
+}
+
+/* ==================================================================
+   TREE TEXT (formatTree output with any iconStyle, or hand-written)
+   ================================================================== */
+
+// `├── `, `└── ` (or ASCII `|-- `, `` `-- ``) after any number of 4-wide indents
+const INDENT = '((?:│ {3}| {4}|\\| {3})*)';
+const ENTRY_LINE = new RegExp(`^${INDENT}(├── |└── |\\|-- |\`-- )(.*)$`);
+const COLLAPSED_LINE = new RegExp(`^${INDENT}… \\(\\d+ items, collapsed\\)$`);
+// an icon (emoji sequence or `[F]`-style tag) followed by a space
+const ICON = /^(?:\p{Extended_Pictographic}[\p{Extended_Pictographic}\uFE0F\u200D]*|\[[A-Z]\]) /u;
+const FOLDER_ICON = '📁';
+const LINK_ICON = '🔗';
+
+function parseTree(text: string, opts: ParseOptions): FileEntry {
+    const lines = text.split(/\r?\n/);
+    let rootName = '.';
+    const root: FileEntry = { name: rootName, path: '', type: 'directory', children: [] };
+    const stack: FileEntry[] = [root];            // stack[d] = parent of entries at depth d
+
+    for (const line of lines) {
+        const m = ENTRY_LINE.exec(line);
+        if (!m) {
+            const collapsed = COLLAPSED_LINE.exec(line);
+            if (collapsed) {
+                // children of the entry above were left out – it is still a folder
+                markDirectory(stack[collapsed[1].length / 4]);
+                continue;
+            }
+            // the header: `📁 name` or a bare `name/` before the first entry
+            const header = line.trim();
+            if (stack.length === 1 && !root.children!.length && header && !/^[─⏱-]/.test(header)) {
+                rootName = stripIcon(header, opts).name.replace(/\/$/, '');
+            }
+            continue;
+        }
+
+        const depth = m[1].length / 4;
+        if (depth > stack.length - 1) {
+            throw new StructureParseError(`Unexpected indentation: "${line}"`);
+        }
+        stack.length = depth + 1;
+        const parent = stack[depth];
+
+        const label = m[3].trim();
+        if (label.startsWith('…')) {
+            // `… (incomplete – scan stopped)` closes a directory the scan did not finish,
+            // `… 12 more entries` one whose listing was capped
+            const omitted = /^… (\d+) more entr/.exec(label);
+            const budget = /scan stopped: (item|time) budget/.exec(label);
+            if (label.includes('incomplete')) {
+                parent.truncated = true;
+                if (budget) {
+                    root.truncation = `${budget[1]}-budget` as TruncationReason;
+                }
+            } else if (omitted) {
+                parent.omitted = Number(omitted[1]);
+            }
+            continue;
+        }
+
+        const entry = parseLabel(label, opts);
+        // an entry with children is a folder even without an icon
+        markDirectory(parent);
+        (parent.children ??= []).push(entry);
+        stack.push(entry);
+    }
+
+    root.name = rootName;
+    return root;
+}
+
+function markDirectory(entry: FileEntry | undefined): void {
+    if (entry && entry.type !== 'directory') {
+        entry.type = 'directory';
+    }
+    if (entry) {
+        entry.children ??= [];
+    }
+}
+
+function stripIcon(label: string, opts: ParseOptions): { name: string; icon: string } {
+    const custom = Object.values(opts.customIcons ?? {}).find(i => i && label.startsWith(`${i} `));
+    if (custom !== undefined) {
+        return { name: label.slice(custom.length + 1), icon: custom };
+    }
+    const icon = ICON.exec(label);
+    if (!icon) {
+        return { name: label, icon: '' };
+    }
+    return { name: label.slice(icon[0].length), icon: icon[0].trimEnd() };
+}
+
+/**
+ * One tree line without its connector, e.g.
+ * `🔗 dist -> ../build (broken) (1.5 KB) [rwxr-xr-x] ⏰ 2025-01-31 {owner=web} ⚠ timed out`.
+ * The suffixes formatTree appends are taken off from the end; sizes and
+ * dates come back only as precise as they were printed.
+ */
+function parseLabel(label: string, opts: ParseOptions): FileEntry {
+    const { name, icon } = stripIcon(label, opts);
+    let rest = name;
+    const take = (re: RegExp): RegExpExecArray | null => {
+        const m = re.exec(rest);
+        if (m) {
+            rest = rest.slice(0, m.index);
+        }
+        return m;
+    };
+
+    const entry: FileEntry = { name: '', path: '', type: 'file' };
+    const error = take(/ ⚠ (.+)$/);
+    const annotations = take(/ \{([^{}]*=[^{}]*)\}$/);
+    const git = take(/ ⎇ (.+)$/);
+    const modified = take(/ ⏰ (\d{4}-\d{2}-\d{2})$/);
+    const permissions = take(/ \[([-rwxsStT]{9})\]$/);
+    const size = take(/ \((\d+(?:\.\d)? (?:B|KB|MB|GB|TB))(?:, (\d+) files)?\)$/);
+
+    const arrow = rest.indexOf(' -> ');
+    if (arrow >= 0) {
+        entry.type = 'symlink';
+        let target = rest.slice(arrow + 4);
+        rest = rest.slice(0, arrow);
+        if (target.endsWith(' (broken)')) {
+            entry.broken = true;
+            target = target.slice(0, -' (broken)'.length);
+        } else if (target.endsWith(' (cycle)')) {
+            entry.cycle = true;
+            target = target.slice(0, -' (cycle)'.length);
+        }
+        entry.target = target;
+    } else if (icon === LINK_ICON) {
+        entry.type = 'symlink';
+    } else if (icon === FOLDER_ICON || rest.endsWith('/') || size?.[2] !== undefined) {
+        entry.type = 'directory';
+        entry.children = [];
+    }
+    entry.name = rest.replace(/\/$/, '');
+
+    if (size) {
+        entry.size = parseHumanSize(size[1]);
+        if (size[2] !== undefined) {
+            entry.fileCount = Number(size[2]);
+        }
+    }
+    if (permissions) {
+        entry.permissions = permissions[1];
+    }
+    if (modified) {
+        entry.modified = new Date(modified[1]);
+    }
+    if (git) {
+        entry.git = parseGitSuffix(git[1]);
+    }
+    if (annotations) {
+        entry.annotations = Object.fromEntries(annotations[1].split(', ').map(pair => {
+            const eq = pair.indexOf('=');
+            return [pair.slice(0, eq), pair.slice(eq + 1)];
+        }));
+    }
+    if (error) {
+        entry.error = error[1];
+    }
+    return entry;
+}
+
+/** Inverse of gitSuffix: `[modified] a1b2c3d 2025-01-31 Ada Lovelace · 42 commits` */
+function parseGitSuffix(text: string): GitEntryInfo {
+    const git: GitEntryInfo = {};
+    let rest = text;
+    const churn = /(?:^| · )(\d+) commits?$/.exec(rest);
+    if (churn) {
+        git.commits = Number(churn[1]);
+        rest = rest.slice(0, churn.index);
+    }
+    const status = /^\[(untracked|modified|staged)\] ?/.exec(rest);
+    if (status) {
+        git.status = status[1] as GitStatus;
+        rest = rest.slice(status[0].length);
+    }
+    const commit = /^([0-9a-f]{4,40}) (\d{4}-\d{2}-\d{2})(?: (.+))?$/.exec(rest);
+    if (commit) {
+        git.status ??= 'clean';                 // clean entries carry no marker
+        git.hash = commit[1];
+        git.date = new Date(commit[2]);
+        if (commit[3] !== undefined) {
+            git.author = commit[3];
+        }
+    }
+    return git;
+}
+
+/** Inverse of humanFileSize, to its one-decimal precision */
+function parseHumanSize(text: string): number {
+    const [num, unit] = text.split(' ');
+    return Math.round(Number(num) * Math.pow(1024, ['B', 'KB', 'MB', 'GB', 'TB'].indexOf(unit)));
+}
+
+/* ==================================================================
+   MARKDOWN (formatMarkdown output, fenced trees, nested lists)
+   ================================================================== */
+
+function parseMarkdown(text: string, opts: ParseOptions): FileEntry {
+    const fence = /^```[^\n]*\n([\s\S]*?)^```/m.exec(text);
+    let root: FileEntry;
+    if (fence) {
+        root = parseTree(fence[1], opts);
+    } else if (/^ *- /m.test(text)) {
+        root = parseList(text);
+    } else {
+        throw new StructureParseError('No fenced code block with a tree or nested list found');
+    }
+    // formatMarkdown puts the root name in the heading: `# 📁 name`
+    const heading = /^#\s+(.+)$/m.exec(text);
+    if (root.name === '.' && heading) {
+        root.name = stripIcon(heading[1].trim(), opts).name;
+    }
+    return root;
+}
+
+/** Nested list (the `list` structure block): `- **src/**` / `  - index.ts` */
+function parseList(text: string): FileEntry {
+    const root: FileEntry = { name: '.', path: '', type: 'directory', children: [] };
+    const stack: FileEntry[] = [root];
+    for (const line of text.split(/\r?\n/)) {
+        const m = /^( *)- (.+)$/.exec(line);
+        if (!m) {
+            continue;
+        }
+        const depth = Math.floor(m[1].length / 2);
+        if (depth > stack.length - 1) {
+            throw new StructureParseError(`Unexpected indentation: "${line}"`);
+        }
+        stack.length = depth + 1;
+        const parent = stack[depth];
+
+        const label = m[2].trim().replace(/^\*\*(.*)\*\*$/, '$1').replace(/^`(.*)`$/, '$1');
+        const entry: FileEntry = label.endsWith('/')
+            ? { name: label.slice(0, -1), path: '', type: 'directory', children: [] }
+            : { name: label, path: '', type: 'file' };
+        markDirectory(parent);
+        (parent.children ??= []).push(entry);
+        stack.push(entry);
+    }
+    return root;
+}
+
+/* ==================================================================
+   JSON (formatJSON output or a bare FileEntry)
+   ================================================================== */
+
+function parseJSON(text: string): FileEntry {
+    let doc: unknown;
+    try {
+        doc = JSON.parse(text);
+    } catch (e) {
+        throw new StructureParseError(`Invalid JSON: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    const root = (doc as { structure?: unknown })?.structure ?? doc;
+    return reviveEntry(root, 'structure');
+}
+
+function reviveEntry(value: unknown, where: string): FileEntry {
+    const raw = value as Partial<Record<keyof FileEntry, unknown>>;
+    if (!raw || typeof raw !== 'object' || typeof raw.name !== 'string' || !isEntryType(raw.type)) {
+        throw new StructureParseError(`${where} is not a structure entry (needs name and type)`);
+    }
+    const entry = { ...raw, path: typeof raw.path === 'string' ? raw.path : raw.name } as FileEntry;
+    if (typeof raw.modified === 'string') {
+        entry.modified = new Date(raw.modified);
+    }
+    const git = raw.git as Record<string, unknown> | undefined;
+    if (git && typeof git.date === 'string') {
+        entry.git = { ...git, date: new Date(git.date) } as GitEntryInfo;
+    }
+    if (raw.children !== undefined) {
+        if (!Array.isArray(raw.children)) {
+            throw new StructureParseError(`${where}.children must be an array`);
+        }
+        entry.children = raw.children.map((c, i) => reviveEntry(c, `${where}.children[${i}]`));
+    }
+    return entry;
+}
+
+/* ==================================================================
+   XML (formatXML output, batch or streaming)
+   ================================================================== */
+
+const XML_TAG = /<(\/?)([\w:-]+)((?:\s+[\w:-]+\s*=\s*"[^"]*")*)\s*(\/?)>/g;
+const XML_ATTR = /([\w:-]+)\s*=\s*"([^"]*)"/g;
+
+function parseXML(text: string): FileEntry {
+    const body = text.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->/g, '');
+    const stack: FileEntry[] = [];
+    let root: FileEntry | undefined;
+
+    for (const [, closing, tag, attrText, selfClosing] of body.matchAll(XML_TAG)) {
+        if (tag !== 'node' && tag !== 'annotation') {
+            continue;                               // <folderStructure> wrapper
+        }
+        if (closing) {
+            const done = tag === 'node' ? stack.pop() : undefined;
+            // `<node>` around annotations only: a file, not an empty folder
+            if (done && done.type !== 'directory' && !done.children!.length && done.annotations) {
+                delete done.children;
+            }
+            continue;
+        }
+        const attrs: Record<string, string> = {};
+        for (const [, key, value] of attrText.matchAll(XML_ATTR)) {
+            attrs[key] = unescapeXml(value);
+        }
+
+        const parent = stack[stack.length - 1];
+        if (tag === 'annotation') {
+            if (parent && attrs.key !== undefined) {
+                (parent.annotations ??= {})[attrs.key] = attrs.value ?? '';
+            }
+            continue;
+        }
+
+        const entry = xmlEntry(attrs);
+        if (parent) {
+            parent.children!.push(entry);
+        } else if (!root) {
+            root = entry;
+        } else {
+            throw new StructureParseError('More than one root <node> element');
+        }
+        if (!selfClosing) {
+            entry.children = [];
+            stack.push(entry);
+        }
+    }
+    if (!root) {
+        throw new StructureParseError('No <node> element found');
+    }
+    if (stack.length) {
+        throw new StructureParseError(`Unclosed <node name="${stack[stack.length - 1].name}">`);
+    }
+    return root;
+}
+
+/** Attributes written by xmlAttributes, mapped back to FileEntry fields */
+function xmlEntry(attrs: Record<string, string>): FileEntry {
+    if (attrs.name === undefined || !isEntryType(attrs.type)) {
+        throw new StructureParseError('<node> needs name and type attributes');
+    }
+    const entry: FileEntry = { name: attrs.name, path: attrs.path ?? attrs.name, type: attrs.type };
+    if (attrs.size !== undefined) {
+        entry.size = Number(attrs.size);
+    }
+    if (attrs.perm !== undefined) {
+        entry.permissions = attrs.perm;
+    }
+    if (attrs.mod !== undefined) {
+        entry.modified = new Date(attrs.mod);
+    }
+    if (attrs.target !== undefined) {
+        entry.target = attrs.target;
+    }
+    if (attrs.broken === 'true') {
+        entry.broken = true;
+    }
+    if (attrs.cycle === 'true') {
+        entry.cycle = true;
+    }
+    if (attrs.files !== undefined) {
+        entry.fileCount = Number(attrs.files);
+    }
+    if (attrs.pct !== undefined) {
+        entry.percentOfParent = Number(attrs.pct);
+    }
+    if (attrs.truncated === 'true') {
+        entry.truncated = true;
+    }
+    if (attrs.truncation !== undefined) {
+        entry.truncation = attrs.truncation as TruncationReason;
+    }
+    if (attrs.omitted !== undefined) {
+        entry.omitted = Number(attrs.omitted);
+    }
+    if (attrs.error !== undefined) {
+        entry.error = attrs.error;
+    }
+    const git: GitEntryInfo = {};
+    if (attrs['git-status'] !== undefined) {
+        git.status = attrs['git-status'] as GitStatus;
+    }
+    if (attrs['git-hash'] !== undefined) {
+        git.hash = attrs['git-hash'];
+    }
+    if (attrs['git-author'] !== undefined) {
+        git.author = attrs['git-author'];
+    }
+    if (attrs['git-date'] !== undefined) {
+        git.date = new Date(attrs['git-date']);
+    }
+    if (attrs['git-commits'] !== undefined) {
+        git.commits = Number(attrs['git-commits']);
+    }
+    if (Object.keys(git).length) {
+        entry.git = git;
+    }
+    return entry;
+}
+
+function unescapeXml(text: string): string {
+    const named: Record<string, string> = { lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' };
+    return text.replace(/&(#x[\da-fA-F]+|#\d+|\w+);/g, (all, ref: string) => {
+        if (ref.startsWith('#x')) {
+            return String.fromCodePoint(parseInt(ref.slice(2), 16));
+        }
+        if (ref.startsWith('#')) {
+            return String.fromCodePoint(Number(ref.slice(1)));
+        }
+        return named[ref] ?? all;
+    });
+}
+
+/* ==================================================================
+   CSV (formatCSV output – the first row is the root)
+   ================================================================== */
+
+function parseCSV(text: string): FileEntry {
+    const [header = [], ...rows] = parseCSVRows(text);
+    const [iPath, iType, iSize, iPerm, iMod, iTarget, iStatus, iHash, iAuthor, iDate, iCommits] = [
+        'Path', 'Type', 'Size (bytes)', 'Permissions', 'Modified', 'Target',
+        'Git status', 'Last commit', 'Commit author', 'Commit date', 'Commits'
+    ].map(col => header.indexOf(col));
+    if (iPath < 0 || iType < 0) {
+        throw new StructureParseError('CSV needs Path and Type columns');
+    }
+
+    const byPath = new Map<string, FileEntry>();
+    let root: FileEntry | undefined;
+    for (const row of rows) {
+        const p = row[iPath];
+        const type = row[iType];
+        if (!p) {
+            continue;                               // blank line
+        }
+        if (!isEntryType(type)) {
+            throw new StructureParseError(`Unknown type "${type}" for ${p}`);
+        }
+        const entry: FileEntry = { name: p.split(/[\\/]/).filter(Boolean).pop() ?? p, path: p, type };
+        if (type === 'directory') {
+            entry.children = [];
+        }
+        if (row[iSize]) {
+            entry.size = Number(row[iSize]);
+        }
+        if (row[iPerm]) {
+            entry.permissions = row[iPerm];
+        }
+        if (row[iMod]) {
+            entry.modified = new Date(row[iMod]);
+        }
+        if (iTarget >= 0 && row[iTarget]) {
+            entry.target = row[iTarget];
+        }
+        const git: GitEntryInfo = {};
+        if (iStatus >= 0 && row[iStatus]) {
+            git.status = row[iStatus] as GitStatus;
+        }
+        if (iHash >= 0 && row[iHash]) {
+            git.hash = row[iHash];
+            git.author = row[iAuthor];
+            git.date = new Date(row[iDate]);
+        }
+        if (iCommits >= 0 && row[iCommits]) {
+            git.commits = Number(row[iCommits]);
+        }
+        if (Object.keys(git).length) {
+            entry.git = git;
+        }
+
+        const parent = byPath.get(p.replace(/[\\/][^\\/]*$/, ''));
+        if (parent) {
+            markDirectory(parent);
+            parent.children!.push(entry);
+        } else if (!root) {
+            root = entry;
+        } else {
+            throw new StructureParseError(`Row "${p}" is not inside ${root.path}`);
+        }
+        byPath.set(p, entry);
+    }
+    if (!root) {
+        throw new StructureParseError('CSV has no rows');
+    }
+    return root;
+}
+
+/** RFC 4180 – quoted fields may hold commas, newlines and doubled quotes */
+function parseCSVRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch !== '"') {
+                field += ch;
+            } else if (text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else {
+                quoted = false;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+}
+
+/* ==================================================================
+   HELPERS
+   ================================================================== */
+
+function isEntryType(type: unknown): type is FileEntry['type'] {
+    return type === 'file' || type === 'directory' || type === 'symlink';
+}
+
+function assignPaths(entry: FileEntry, p: string): void {
+    entry.path = p;
+    for (const child of entry.children ?? []) {
+        assignPaths(child, `${p}/${child.name}`);
+    }
+}
@@ -0,0 +1,195 @@
+/* ==================================================================
+   PERSISTENT SCAN INDEX
+   Directory listings keyed by path + mtime, saved to disk so that
+   repeated generations only re-read directories that changed
+   ================================================================== */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DirItem } from '../models/file-entry.interface';
+
+const INDEX_VERSION = 1;
+const SAVE_DELAY = 5000;        // ms – coalesce saves while a scan is running
+const RACY_WINDOW = 2000;       // ms – listings this fresh may still change within the same mtime tick
+
+type EntryKind = 'd' | 'f' | 'l' | 'o';
+
+interface IndexedDirectory {
+    mtimeMs: number;
+    items: IndexedItem[];
+}
+
+/** On-disk layout: `{ version, dirs: { [path]: [mtimeMs, [[name, kind], …]] } }` */
+interface IndexFile {
+    version: number;
+    dirs: Record<string, [number, [string, EntryKind][]]>;
+}
+
+/* ==================================================================
+   INDEXED DIRECTORY ITEM (stands in for fs.Dirent)
+   ================================================================== */
+
+class IndexedItem implements DirItem {
+    constructor(readonly name: string, private readonly kind: EntryKind) {}
+
+    static from(item: DirItem): IndexedItem {
+        const kind: EntryKind = item.isDirectory() ? 'd'
+            : item.isSymbolicLink() ? 'l'
+                : item.isFile() ? 'f'
+                    : 'o';
+        return new IndexedItem(item.name, kind);
+    }
+
+    isDirectory(): boolean { return this.kind === 'd'; }
+    isFile(): boolean { return this.kind === 'f'; }
+    isSymbolicLink(): boolean { return this.kind === 'l'; }
+    toJSON(): [string, EntryKind] { return [this.name, this.kind]; }
+}
+
+/* ==================================================================
+   SCAN INDEX (singleton – shared by every generator in this thread)
+   ================================================================== */
+
+export class ScanIndex {
+    private static instance: ScanIndex;
+    private dirs = new Map<string, IndexedDirectory>();
+    private file: string | null = null;          // null = index disabled
+    private dirty = false;
+    private saveTimer: NodeJS.Timeout | undefined;
+    private hits = 0;
+    private misses = 0;
+
+    private constructor() {}
+
+    static getInstance(): ScanIndex {
+        if (!ScanIndex.instance) {
+            ScanIndex.instance = new ScanIndex();
+        }
+        return ScanIndex.instance;
+    }
+
+    /** True once `load` was called – until then every lookup misses */
+    get enabled(): boolean {
+        return this.file !== null;
+    }
+
+    /**
+     * Enable the index and read a previous snapshot from `file`.
+     * A missing, corrupt or outdated file simply starts an empty index.
+     */
+    async load(file: string): Promise<void> {
+        this.file = file;
+        this.dirs.clear();
+        this.dirty = false;
+        try {
+            const data = JSON.parse(await fs.promises.readFile(file, 'utf8')) as IndexFile;
+            if (data.version !== INDEX_VERSION) {
+                return;
+            }
+            for (const [dir, [mtimeMs, items]] of Object.entries(data.dirs)) {
+                this.dirs.set(dir, {
+                    mtimeMs,
+                    items: items.map(([name, kind]) => new IndexedItem(name, kind))
+                });
+            }
+        } catch {
+            // start empty
+        }
+    }
+
+    /** Write pending changes and stop using the index */
+    async disable(): Promise<void> {
+        await this.flush();
+        this.file = null;
+        this.dirs.clear();
+    }
+
+    /** Cached listing of `dir` if it was indexed with the same mtime */
+    lookup(dir: string, mtimeMs: number): DirItem[] | undefined {
+        const rec = this.dirs.get(dir);
+        if (rec && rec.mtimeMs === mtimeMs) {
+            this.hits++;
+            return rec.items;
+        }
+        this.misses++;
+        return undefined;
+    }
+
+    /** Remember a fresh listing of `dir` */
+    store(dir: string, mtimeMs: number, items: DirItem[]): void {
+        if (!this.enabled) {
+            return;
+        }
+        // a directory modified just now may change again without its mtime moving
+        if (Date.now() - mtimeMs < RACY_WINDOW) {
+            this.dirs.delete(dir);
+            return;
+        }
+        this.dirs.set(dir, { mtimeMs, items: items.map(IndexedItem.from) });
+        this.scheduleSave();
+    }
+
+    /**
+     * Forget `p` (and everything below it) plus its parent listing.
+     * Called by the file watcher for every create / change / delete.
+     */
+    invalidate(p: string): void {
+        const prefix = p + path.sep;
+        const ownDeleted = this.dirs.delete(p);
+        let changed = this.dirs.delete(path.dirname(p)) || ownDeleted;
+        for (const dir of this.dirs.keys()) {
+            if (dir.startsWith(prefix)) {
+                this.dirs.delete(dir);
+                changed = true;
+            }
+        }
+        if (changed) {
+            this.scheduleSave();
+        }
+    }
+
+    clear(): void {
+        this.dirs.clear();
+        this.hits = 0;
+        this.misses = 0;
+        this.scheduleSave();
+    }
+
+    getStats(): { directories: number; hits: number; misses: number } {
+        return { directories: this.dirs.size, hits: this.hits, misses: this.misses };
+    }
+
+    /** Write the index now if anything changed since the last save */
+    async flush(): Promise<void> {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+        }
+        if (!this.file || !this.dirty) {
+            return;
+        }
+        this.dirty = false;
+
+        const data: IndexFile = { version: INDEX_VERSION, dirs: {} };
+        for (const [dir, rec] of this.dirs) {
+            data.dirs[dir] = [rec.mtimeMs, rec.items.map(i => i.toJSON())];
+        }
+        // write + rename so a crash never leaves a half-written index behind
+        const tmp = `${this.file}.tmp`;
+        await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+        await fs.promises.writeFile(tmp, JSON.stringify(data), 'utf8');
+        await fs.promises.rename(tmp, this.file);
+    }
+
+    private scheduleSave(): void {
+        this.dirty = true;
+        if (!this.file || this.saveTimer) {
+            return;
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            this.flush().catch(e => console.error('Failed to save scan index:', e));
+        }, SAVE_DELAY);
+        this.saveTimer.unref();
+    }
+}
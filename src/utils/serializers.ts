@@ -0,0 +1,135 @@
+/* ==================================================================
+   YAML / TOML FORMATS
+   Same `{ meta, structure }` document as formatJSON, so every export
+   validates against schemas/structure.schema.json once parsed
+   ================================================================== */
+
+import { FileEntry } from '../models/file-entry.interface';
+import { StructureConfig } from '../models/config.interface';
+import { generationMeta } from './formatting';
+
+type Plain = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is Plain {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/** Strings are always double-quoted – JSON escapes are valid in both YAML and TOML */
+function quote(text: string): string {
+    return JSON.stringify(text).replace(/\x7f/g, '\\u007F');
+}
+
+/* ==================================================================
+   YAML
+   ================================================================== */
+
+export function formatYAML(
+    entry: FileEntry,
+    cfg: Required<StructureConfig>,
+    genTime: number,
+    processed: number
+): string {
+    const doc = { meta: generationMeta(entry, cfg, genTime, processed), structure: entry };
+    return yamlValue(doc, '').replace(/^\n/, '') + '\n';
+}
+
+function yamlKey(key: string): string {
+    return /^[A-Za-z_][\w-]*$/.test(key) ? key : quote(key);
+}
+
+/** Text following `key:` or `-` – a nested block starts with a newline */
+function yamlValue(value: unknown, indent: string): string {
+    if (Array.isArray(value)) {
+        if (!value.length) {
+            return ' []';
+        }
+        // `- ` takes the place of the item's first line break + indent
+        return value
+            .map(item => `\n${indent}-${yamlValue(item, indent + '  ').replace(/^\n */, ' ')}`)
+            .join('');
+    }
+    if (isPlainObject(value)) {
+        const fields = Object.entries(value).filter(([, v]) => v !== undefined);
+        if (!fields.length) {
+            return ' {}';
+        }
+        return fields.map(([k, v]) => `\n${indent}${yamlKey(k)}:${yamlValue(v, indent + '  ')}`).join('');
+    }
+    if (value === null) {
+        return ' null';
+    }
+    if (value instanceof Date) {
+        return ` ${value.toISOString()}`;      // YAML timestamp
+    }
+    return ` ${typeof value === 'string' ? quote(value) : String(value)}`;
+}
+
+/* ==================================================================
+   TOML
+   ================================================================== */
+
+/**
+ * TOML has no null – null settings are left out. Children become arrays
+ * of tables (`[[structure.children.children]]`), which TOML attaches to
+ * the most recent parent table, so nesting survives a round trip.
+ */
+export function formatTOML(
+    entry: FileEntry,
+    cfg: Required<StructureConfig>,
+    genTime: number,
+    processed: number
+): string {
+    const lines: string[] = [];
+    tomlTable({ meta: generationMeta(entry, cfg, genTime, processed), structure: entry }, [], lines);
+    return lines.join('\n').replace(/^\n/, '') + '\n';
+}
+
+function tomlKey(key: string): string {
+    return /^[A-Za-z0-9_-]+$/.test(key) ? key : quote(key);
+}
+
+function isTableArray(value: unknown): value is Plain[] {
+    return Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+}
+
+function tomlInline(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.filter(v => v !== null && v !== undefined).map(tomlInline).join(', ')}]`;
+    }
+    if (isPlainObject(value)) {
+        const fields = Object.entries(value).filter(([, v]) => v !== null && v !== undefined);
+        return fields.length ? `{ ${fields.map(([k, v]) => `${tomlKey(k)} = ${tomlInline(v)}`).join(', ')} }` : '{}';
+    }
+    if (value instanceof Date) {
+        return value.toISOString();             // offset date-time
+    }
+    return typeof value === 'string' ? quote(value) : String(value);
+}
+
+/** Key/values first, then sub-tables – TOML requires that order within a table */
+function tomlTable(table: Plain, keys: string[], lines: string[]): void {
+    const nested: [string, Plain | Plain[]][] = [];
+    for (const [key, value] of Object.entries(table)) {
+        if (value === null || value === undefined) {
+            continue;
+        }
+        if (isTableArray(value) || (isPlainObject(value) && Object.keys(value).length)) {
+            nested.push([key, value]);
+        } else {
+            lines.push(`${tomlKey(key)} = ${tomlInline(value)}`);
+        }
+    }
+    for (const [key, value] of nested) {
+        const path = [...keys, tomlKey(key)];
+        const header = path.join('.');
+        if (Array.isArray(value)) {
+            for (const item of value) {
+                lines.push('', `[[${header}]]`);
+                tomlTable(item, path, lines);
+            }
+        } else {
+            lines.push('', `[${header}]`);
+            tomlTable(value, path, lines);
+        }
+    }
+}
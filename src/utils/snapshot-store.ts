@@ -0,0 +1,73 @@
+/* ==================================================================
+   SNAPSHOT STORE (NO VSCODE DEPENDENCIES)
+   Reads/writes named FileEntry snapshots in .vscode/structure-snapshots/
+   ================================================================== */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileEntry } from '../models/file-entry.interface';
+import { parseStructure } from './parsing';
+
+export const SNAPSHOTS_DIR = path.join('.vscode', 'structure-snapshots');
+
+export interface SnapshotInfo {
+    name: string;
+    createdAt: Date;
+    commit?: string;            // HEAD when the snapshot was taken
+    file: string;               // absolute path of the snapshot file
+}
+
+export interface Snapshot extends SnapshotInfo {
+    root: FileEntry;
+}
+
+export function snapshotsDirPath(workspaceRoot: string): string {
+    return path.join(workspaceRoot, SNAPSHOTS_DIR);
+}
+
+/**
+ * Write `root` as `<timestamp>_<name>.json` – the file names sort
+ * chronologically. The document is `{ snapshot, structure }`, so any
+ * structure reader (parseStructure, jq) can open it.
+ */
+export async function saveSnapshot(
+    workspaceRoot: string,
+    name: string,
+    root: FileEntry,
+    commit?: string,
+    createdAt = new Date()
+): Promise<SnapshotInfo> {
+    const dir = snapshotsDirPath(workspaceRoot);
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    const stamp = createdAt.toISOString().replace(/[:.]/g, '-');
+    const slug = name.trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'snapshot';
+    const file = path.join(dir, `${stamp}_${slug}.json`);
+
+    const snapshot = { name, createdAt: createdAt.toISOString(), commit };
+    await fs.promises.writeFile(file, JSON.stringify({ snapshot, structure: root }, null, 2), { encoding: 'utf8', flag: 'wx' });
+    return { name, createdAt, commit, file };
+}
+
+/** Snapshots stored in `workspaceRoot`, oldest first – unreadable files are skipped */
+export async function listSnapshots(workspaceRoot: string): Promise<SnapshotInfo[]> {
+    const dir = snapshotsDirPath(workspaceRoot);
+    const files = await fs.promises.readdir(dir).catch(() => [] as string[]);
+
+    const infos: SnapshotInfo[] = [];
+    for (const f of files.filter(f => f.endsWith('.json'))) {
+        const file = path.join(dir, f);
+        try {
+            const { snapshot } = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+            infos.push({ name: snapshot.name, createdAt: new Date(snapshot.createdAt), commit: snapshot.commit, file });
+        } catch {
+            // not a snapshot – leave it alone
+        }
+    }
+    return infos.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+export async function loadSnapshot(info: SnapshotInfo): Promise<Snapshot> {
+    const text = await fs.promises.readFile(info.file, 'utf8');
+    return { ...info, root: parseStructure(text, { format: 'json' }) };
+}
@@ -7,8 +7,11 @@
 import * as path from 'path';
 import { StreamEvent } from '../models/stream.interface';
 import { StructureConfig } from '../models/config.interface';
-import { FileEntry } from '../models/file-entry.interface';
+import { FileEntry, ScanError } from '../models/file-entry.interface';
 import { humanFileSize } from './fs-helpers';
+import { formatHTML } from './html-formatter';
+import { formatTOML, formatYAML } from './serializers';
+import { formatJSON, annotationSuffix, gitSuffix, linkSuffix, errorSuffix, errorSummary, xmlErrors, truncationMarker, omittedMarker, csvCells, CSV_HEADER, CSV_GIT_HEADER, xmlAttributes, xmlAnnotations, diagramLabel, mermaidNode, dotNode, DOT_HEADER, DiagramNodeKind } from './formatting';
 
 /* ==================================================================
    STREAMING FORMATTER CLASS
@@ -16,7 +19,11 @@ import { humanFileSize } from './fs-helpers';
 
 export class StreamingFormatter {
     private readonly cfg: Required<StructureConfig>;
-    private jsonBuffer: any[] = []; // For JSON format, we need to buffer
+    private diagramStack: string[] = [];    // node ids of the open directories (mermaid / dot)
+    private nextNodeId = 0;
+    private treeStack: FileEntry[] = [];        // buffered formats need the whole tree – open directories
+    private root = '';
+    private errors: ScanError[] = [];           // entries that could not be read – summarised at the end
 
     constructor(cfg: StructureConfig) {
         this.cfg = {
@@ -24,15 +31,28 @@ export class StreamingFormatter {
             extensionFilter: cfg.extensionFilter ?? null,
             excludeFolders: cfg.excludeFolders ?? null,
             excludePatterns: cfg.excludePatterns ?? null,
+            includePatterns: cfg.includePatterns ?? null,
+            editorExcludes: cfg.editorExcludes ?? null,
+            filterExpression: cfg.filterExpression ?? null,
             maxDepth: cfg.maxDepth ?? 0,
             respectGitignore: cfg.respectGitignore ?? true,
+            respectStructureIgnore: cfg.respectStructureIgnore ?? true,
+            followSymlinks: cfg.followSymlinks ?? false,
+            maxItems: cfg.maxItems ?? 0,
+            maxDurationMs: cfg.maxDurationMs ?? 0,
+            maxEntriesPerDirectory: cfg.maxEntriesPerDirectory ?? 0,
             includeSize: cfg.includeSize ?? false,
             includePermissions: cfg.includePermissions ?? false,
             includeModifiedDate: cfg.includeModifiedDate ?? false,
+            sizeMode: cfg.sizeMode ?? 'apparent',
+            includeGitInfo: cfg.includeGitInfo ?? false,
+            gitChurn: cfg.gitChurn ?? false,
             sortBy: cfg.sortBy ?? 'name',
             outputFormat: cfg.outputFormat ?? 'tree',
+            diskUsageTopN: cfg.diskUsageTopN ?? 20,
             useWorker: cfg.useWorker ?? false,
             useStreaming: cfg.useStreaming ?? false,
+            workerPoolSize: cfg.workerPoolSize ?? 1,
             iconStyle: cfg.iconStyle ?? 'emoji',
             customIcons: cfg.customIcons ?? {},
             compressLargeDirs: cfg.compressLargeDirs ?? true,
@@ -46,22 +66,54 @@ export class StreamingFormatter {
      * Format a single stream event into output text
      */
     public format(event: StreamEvent): string {
+        this.track(event);
         switch (this.cfg.outputFormat) {
             case 'tree':
                 return this.formatTreeEvent(event);
             case 'json':
-                return this.formatJSONEvent(event);
+                return this.formatBufferedEvent(event, formatJSON);
             case 'markdown':
                 return this.formatMarkdownEvent(event);
             case 'csv':
                 return this.formatCSVEvent(event);
             case 'xml':
                 return this.formatXMLEvent(event);
+            case 'html':
+                return this.formatBufferedEvent(event, formatHTML);
+            case 'yaml':
+                return this.formatBufferedEvent(event, formatYAML);
+            case 'toml':
+                return this.formatBufferedEvent(event, formatTOML);
+            case 'mermaid':
+            case 'dot':
+                return this.formatDiagramEvent(event, this.cfg.outputFormat);
             default:
                 return this.formatTreeEvent(event);
         }
     }
 
+    /** Remember the root and every entry that could not be read */
+    private track(event: StreamEvent): void {
+        if (event.kind === 'start') {
+            this.root = event.root;
+            this.errors = [];
+        } else if ((event.kind === 'file' || event.kind === 'directory-open') && event.entry.error) {
+            this.errors.push({ path: event.entry.path, error: event.entry.error });
+        }
+    }
+
+    /** `└── … (incomplete – scan stopped: …)` / `└── … N more entries` for the text formats */
+    private closingMarker(event: StreamEvent & { kind: 'omitted' | 'stopped' }): string {
+        const marker = event.kind === 'stopped' ? truncationMarker(event.reason) : omittedMarker(event.count);
+        return `${event.prefix}└── ${marker}\n`;
+    }
+
+    /** Error summary lines for the text formats, with a leading blank line */
+    private summaryText(): string {
+        const summary = errorSummary(this.errors, this.root);
+        return summary.length ? `\n${summary.join('\n')}\n` : '';
+    }
+
     /* ==================================================================
        TREE FORMAT
        ================================================================== */
@@ -69,13 +121,13 @@ export class StreamingFormatter {
     private formatTreeEvent(event: StreamEvent): string {
         switch (event.kind) {
             case 'start':
-                return `📁 ${path.basename(event.root)}\n${'─'.repeat(50)}\n`;
+                return `📁 ${event.name ?? path.basename(event.root)}\n${'─'.repeat(50)}\n`;
 
             case 'file':
             case 'directory-open': {
                 const connector = event.isLast ? '└── ' : '├── ';
                 const icon = this.getIcon(event.entry);
-                let line = `${event.prefix}${connector}${icon}${event.entry.name}`;
+                let line = `${event.prefix}${connector}${icon}${event.entry.name}${linkSuffix(event.entry)}`;
 
                 // Add metadata
                 if (this.cfg.includeSize && event.entry.size !== undefined) {
@@ -87,12 +139,17 @@ export class StreamingFormatter {
                 if (this.cfg.includeModifiedDate && event.entry.modified) {
                     line += ` ⏰ ${event.entry.modified.toISOString().split('T')[0]}`;
                 }
+                line += gitSuffix(event.entry) + annotationSuffix(event.entry) + errorSuffix(event.entry);
 
                 return line + '\n';
             }
 
+            case 'omitted':
+            case 'stopped':
+                return this.closingMarker(event);
+
             case 'end':
-                return `\n⏱️  Generated in ${event.durationMs} ms\n📊 Total items: ${event.totalItems}\n`;
+                return `${this.summaryText()}\n⏱️  Generated in ${event.durationMs} ms\n📊 Total items: ${event.totalItems}\n`;
 
             default:
                 return '';
@@ -100,30 +157,56 @@ export class StreamingFormatter {
     }
 
     /* ==================================================================
-       JSON FORMAT (requires buffering)
+       TREE FORMATS (JSON / HTML / YAML / TOML – require buffering the tree)
        ================================================================== */
 
-    private formatJSONEvent(event: StreamEvent): string {
+    private formatBufferedEvent(
+        event: StreamEvent,
+        render: (root: FileEntry, cfg: Required<StructureConfig>, genTime: number, processed: number) => string
+    ): string {
         switch (event.kind) {
             case 'start':
-                this.jsonBuffer = [];
-                return '{\n  "meta": {\n    "root": "' + event.root + '",\n';
+                this.treeStack = [{ name: event.name ?? path.basename(event.root), path: event.root, type: 'directory', children: [] }];
+                return '';
 
             case 'file':
-            case 'directory-open':
-                this.jsonBuffer.push({
-                    name: event.entry.name,
-                    path: event.entry.path,
-                    type: event.entry.type,
-                    size: event.entry.size,
-                    modified: event.entry.modified
-                });
+                this.treeStack[this.treeStack.length - 1]?.children!.push({ ...event.entry });
+                return '';
+
+            case 'directory-open': {
+                const dir: FileEntry = { ...event.entry, children: [] };
+                this.treeStack[this.treeStack.length - 1]?.children!.push(dir);
+                this.treeStack.push(dir);
+                return '';
+            }
+
+            case 'directory-close':
+                this.treeStack.pop();
+                return '';
+
+            case 'omitted': {
+                const dir = this.treeStack[this.treeStack.length - 1];
+                if (dir) {
+                    dir.omitted = event.count;
+                }
                 return '';
+            }
+
+            case 'stopped': {
+                const dir = this.treeStack[this.treeStack.length - 1];
+                if (dir) {
+                    dir.truncated = true;
+                }
+                return '';
+            }
 
             case 'end':
-                const meta = `    "generationTime": "${event.durationMs}ms",\n    "totalItems": ${event.totalItems}\n  },\n`;
-                const items = `  "items": ${JSON.stringify(this.jsonBuffer, null, 2)}\n}`;
-                return meta + items;
+                if (this.treeStack[0] && event.truncation) {
+                    this.treeStack[0].truncation = event.truncation;
+                }
+                return this.treeStack.length
+                    ? render(this.treeStack[0], this.cfg, event.durationMs, event.totalItems)
+                    : '';
 
             default:
                 return '';
@@ -137,17 +220,21 @@ export class StreamingFormatter {
     private formatMarkdownEvent(event: StreamEvent): string {
         switch (event.kind) {
             case 'start':
-                return `# 📁 ${path.basename(event.root)}\n\n**Generated:** ${new Date().toISOString()}\n\n## Directory tree\n\`\`\`\n`;
+                return `# 📁 ${event.name ?? path.basename(event.root)}\n\n**Generated:** ${new Date().toISOString()}\n\n## Directory tree\n\`\`\`\n`;
 
             case 'file':
             case 'directory-open': {
                 const connector = event.isLast ? '└── ' : '├── ';
                 const icon = this.getIcon(event.entry);
-                return `${event.prefix}${connector}${icon}${event.entry.name}\n`;
+                return `${event.prefix}${connector}${icon}${event.entry.name}${linkSuffix(event.entry)}${errorSuffix(event.entry)}\n`;
             }
 
+            case 'omitted':
+            case 'stopped':
+                return this.closingMarker(event);
+
             case 'end':
-                return `\`\`\`\n\n**Generation time:** ${event.durationMs} ms\n**Items processed:** ${event.totalItems}\n`;
+                return `${this.summaryText()}\`\`\`\n\n**Generation time:** ${event.durationMs} ms\n**Items processed:** ${event.totalItems}\n`;
 
             default:
                 return '';
@@ -158,22 +245,19 @@ export class StreamingFormatter {
        CSV FORMAT
        ================================================================== */
 
+    /** The tree is not known up front – git columns follow the config */
+    private get withGit(): boolean {
+        return this.cfg.includeGitInfo || this.cfg.gitChurn;
+    }
+
     private formatCSVEvent(event: StreamEvent): string {
         switch (event.kind) {
             case 'start':
-                return 'Path,Type,Size (bytes),Permissions,Modified\n';
+                return (this.withGit ? [...CSV_HEADER, ...CSV_GIT_HEADER] : CSV_HEADER).join(',') + '\n';
 
             case 'file':
-            case 'directory-open': {
-                const row = [
-                    `"${event.entry.path}"`,
-                    event.entry.type,
-                    event.entry.size?.toString() ?? '',
-                    event.entry.permissions ?? '',
-                    event.entry.modified?.toISOString() ?? ''
-                ].join(',');
-                return row + '\n';
-            }
+            case 'directory-open':
+                return csvCells(event.entry, this.withGit).join(',') + '\n';
 
             default:
                 return '';
@@ -190,35 +274,86 @@ export class StreamingFormatter {
                 return `<?xml version="1.0" encoding="UTF-8"?>\n<folderStructure generated="${new Date().toISOString()}">\n`;
 
             case 'directory-open': {
-                const attrs = this.buildXMLAttributes(event.entry);
-                return `  <node ${attrs}>\n`;
+                const attrs = xmlAttributes(event.entry);
+                return `  <node ${attrs}>\n${xmlAnnotations(event.entry, '    ')}`;
             }
 
             case 'file': {
-                const attrs = this.buildXMLAttributes(event.entry);
-                return `  <node ${attrs} />\n`;
+                const attrs = xmlAttributes(event.entry);
+                const annotations = xmlAnnotations(event.entry, '    ');
+                return annotations ? `  <node ${attrs}>\n${annotations}  </node>\n` : `  <node ${attrs} />\n`;
             }
 
             case 'directory-close':
                 return `  </node>\n`;
 
+            case 'omitted':
+            case 'stopped':
+                return `  <!-- ${event.kind === 'stopped' ? truncationMarker(event.reason) : omittedMarker(event.count)} -->\n`;
+
             case 'end':
-                return `</folderStructure>\n<!-- Generated in ${event.durationMs}ms -->\n`;
+                return `${xmlErrors(this.errors, '  ')}</folderStructure>\n<!-- Generated in ${event.durationMs}ms -->\n`;
 
             default:
                 return '';
         }
     }
 
-    private buildXMLAttributes(entry: FileEntry): string {
-        const attrs = [
-            `name="${entry.name}"`,
-            `type="${entry.type}"`,
-            entry.size !== undefined ? `size="${entry.size}"` : '',
-            entry.permissions ? `perm="${entry.permissions}"` : '',
-            entry.modified ? `mod="${entry.modified.toISOString()}"` : ''
-        ];
-        return attrs.filter(Boolean).join(' ');
+    /* ==================================================================
+       DIAGRAM FORMATS (Mermaid / DOT – no totals, so labels are not weighted)
+       ================================================================== */
+
+    private formatDiagramEvent(event: StreamEvent, format: 'mermaid' | 'dot'): string {
+        switch (event.kind) {
+            case 'start': {
+                this.nextNodeId = 0;
+                this.diagramStack = [];
+                const root = { name: event.name ?? path.basename(event.root), path: event.root, type: 'directory' as const };
+                const lines = format === 'dot' ? [...DOT_HEADER, ''] : ['graph TD', ''];
+                return lines.join('\n') + this.diagramNode(format, null, 'directory', diagramLabel(root, this.cfg));
+            }
+
+            case 'file':
+                return this.diagramNode(format, this.diagramParent(), 'file', diagramLabel(event.entry, this.cfg));
+
+            case 'directory-open': {
+                const parent = this.diagramParent();
+                let out = this.diagramNode(format, parent, 'directory', diagramLabel(event.entry, this.cfg));
+                if (event.collapsed) {
+                    out += this.diagramNode(format, this.diagramParent(), 'collapsed', `… ${event.collapsed} items`);
+                }
+                return out;
+            }
+
+            case 'directory-close':
+                this.diagramStack.pop();
+                return '';
+
+            case 'end':
+                return format === 'dot'
+                    ? `}\n// Generated in ${event.durationMs}ms\n`
+                    : `%% Generated in ${event.durationMs}ms\n`;
+
+            default:
+                return '';
+        }
+    }
+
+    /** Emit one node (and its edge); directories stay open until directory-close */
+    private diagramNode(format: 'mermaid' | 'dot', parent: string | null, kind: DiagramNodeKind, label: string): string {
+        const id = `n${this.nextNodeId++}`;
+        if (kind === 'directory') {
+            this.diagramStack.push(id);
+        }
+        if (format === 'dot') {
+            return `    ${dotNode(id, label, kind)}\n` + (parent ? `    ${parent} -> ${id};\n` : '');
+        }
+        const node = mermaidNode(id, label, kind);
+        return parent ? `    ${parent} --> ${node}\n` : `    ${node}\n`;
+    }
+
+    private diagramParent(): string | null {
+        return this.diagramStack[this.diagramStack.length - 1] ?? null;
     }
 
     /* ==================================================================
@@ -0,0 +1,34 @@
+/* ==================================================================
+   TEMPLATE STORE (NO VSCODE DEPENDENCIES)
+   Reads/writes .vscode/folder-navigator-templates.json
+   Shared by the extension commands and the CLI
+   ================================================================== */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { StructureConfig } from '../models/config.interface';
+
+export const TEMPLATES_FILE = path.join('.vscode', 'folder-navigator-templates.json');
+
+export function templatesFilePath(workspaceRoot: string): string {
+    return path.join(workspaceRoot, TEMPLATES_FILE);
+}
+
+/** Templates stored in `workspaceRoot` – an empty object if there are none */
+export async function readTemplates(workspaceRoot: string): Promise<Record<string, StructureConfig>> {
+    try {
+        const data = await fs.promises.readFile(templatesFilePath(workspaceRoot), 'utf8');
+        return JSON.parse(data);
+    } catch {
+        return {};
+    }
+}
+
+export async function writeTemplates(
+    workspaceRoot: string,
+    templates: Record<string, StructureConfig>
+): Promise<void> {
+    const file = templatesFilePath(workspaceRoot);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, JSON.stringify(templates, null, 2), 'utf8');
+}
@@ -0,0 +1,83 @@
+/* ==================================================================
+   TIMELINE FORMATTING
+   Renders the snapshot list and a TimelineComparison as markdown
+   ================================================================== */
+
+import { fileDelta, FolderChange, FolderTrend, sizeDelta, TimelineComparison } from '../core/timeline';
+import { humanFileSize } from './fs-helpers';
+import { SnapshotInfo } from './snapshot-store';
+
+function shortCommit(commit?: string): string {
+    return commit ? `\`${commit.slice(0, 8)}\`` : '–';
+}
+
+function signed(n: number, render: (abs: number) => string = String): string {
+    return n === 0 ? '±0' : `${n > 0 ? '+' : '−'}${render(Math.abs(n))}`;
+}
+
+/** `| # | Snapshot | Taken | Commit |` – one row per snapshot, oldest first */
+export function formatSnapshotList(snapshots: SnapshotInfo[]): string {
+    const lines = ['| # | Snapshot | Taken | Commit |', '| ---: | --- | --- | --- |'];
+    snapshots.forEach((s, i) => {
+        lines.push(`| ${i + 1} | ${s.name} | ${s.createdAt.toISOString().replace('T', ' ').slice(0, 16)} | ${shortCommit(s.commit)} |`);
+    });
+    return lines.join('\n');
+}
+
+const SECTIONS: [FolderTrend, string][] = [
+    ['appeared', '🆕 Appeared'],
+    ['disappeared', '🗑️ Disappeared'],
+    ['grew', '📈 Grew'],
+    ['shrank', '📉 Shrank']
+];
+
+function totalsCell(change: FolderChange, side: 'before' | 'after'): string {
+    const t = change[side];
+    return t ? `${humanFileSize(t.size)} / ${t.files}` : '–';
+}
+
+export function formatTimelineMarkdown(
+    snapshots: SnapshotInfo[],
+    from: SnapshotInfo,
+    to: SnapshotInfo,
+    cmp: TimelineComparison
+): string {
+    const t = cmp.total;
+    const lines = [
+        `# 🕰️ Structure Timeline`,
+        '',
+        '## Snapshots',
+        formatSnapshotList(snapshots),
+        '',
+        `## ${from.name} → ${to.name}`,
+        `**Total size:** ${humanFileSize(t.before?.size ?? 0)} → ${humanFileSize(t.after?.size ?? 0)} (${signed(sizeDelta(t), humanFileSize)})  `,
+        `**Files:** ${t.before?.files ?? 0} → ${t.after?.files ?? 0} (${signed(fileDelta(t))})`,
+        ''
+    ];
+
+    const changed = cmp.folders.filter(f => f.trend !== 'unchanged');
+    if (!changed.length) {
+        lines.push('_No folder changed between these snapshots._');
+    }
+    for (const [trend, title] of SECTIONS) {
+        const rows = changed.filter(f => f.trend === trend);
+        if (!rows.length) {
+            continue;
+        }
+        lines.push(
+            `### ${title} (${rows.length})`,
+            '| Folder | Before (size / files) | After (size / files) | Δ size | Δ files |',
+            '| --- | ---: | ---: | ---: | ---: |'
+        );
+        for (const f of rows) {
+            lines.push(
+                `| \`${f.path}/\` | ${totalsCell(f, 'before')} | ${totalsCell(f, 'after')} | ` +
+                `${signed(sizeDelta(f), humanFileSize)} | ${signed(fileDelta(f))} |`
+            );
+        }
+        lines.push('');
+    }
+
+    lines.push('_Generated by Folder Structure Navigator_');
+    return lines.join('\n');
+}
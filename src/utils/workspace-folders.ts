@@ -0,0 +1,112 @@
+/* ==================================================================
+   WORKSPACE FOLDERS
+   Which folder(s) a command works on – the explorer selection, the
+   only folder, a picked folder or, in multi-root workspaces, all of
+   them combined
+   ================================================================== */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { StructureGenerator, ProgressCallback, CancellationCheck } from '../core/generator';
+import { combineRoots } from '../core/multi-root';
+import { FileEntry } from '../models/file-entry.interface';
+import { StructureConfig } from '../models/config.interface';
+import { sourceForUri } from '../sources/workspace-fs-source';
+
+export type CommandTarget =
+    | { kind: 'folder'; uri: vscode.Uri }
+    | { kind: 'workspace'; folders: readonly vscode.WorkspaceFolder[] };
+
+/** The only workspace folder or a picked one – undefined (after telling the user) when none is open */
+export async function pickWorkspaceFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders?.length) {
+        vscode.window.showErrorMessage('Open a workspace folder first.');
+        return undefined;
+    }
+    return folders.length === 1 ? folders[0] : vscode.window.showWorkspaceFolderPick({ placeHolder });
+}
+
+/**
+ * Folder a command runs on: the explorer selection, else the only workspace
+ * folder, else a pick – which can offer every folder combined.
+ */
+export async function resolveCommandTarget(
+    uri: vscode.Uri | undefined,
+    placeHolder: string,
+    allowCombined = true
+): Promise<CommandTarget | undefined> {
+    if (uri) {
+        return { kind: 'folder', uri };
+    }
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders?.length) {
+        vscode.window.showErrorMessage('Open a workspace folder first.');
+        return undefined;
+    }
+    if (folders.length === 1) {
+        return { kind: 'folder', uri: folders[0].uri };
+    }
+    if (!allowCombined) {
+        const folder = await vscode.window.showWorkspaceFolderPick({ placeHolder });
+        return folder && { kind: 'folder', uri: folder.uri };
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        [
+            { label: `$(root-folder) All ${folders.length} workspace folders`, description: 'one combined structure', folder: undefined },
+            ...folders.map(folder => ({ label: `$(folder) ${folder.name}`, description: folder.uri.fsPath, folder }))
+        ],
+        { placeHolder }
+    );
+    if (!picked) {
+        return undefined;
+    }
+    return picked.folder ? { kind: 'folder', uri: picked.folder.uri } : { kind: 'workspace', folders };
+}
+
+/** Display name of the workspace (the `.code-workspace` file name, or VS Code's name for it) */
+export function workspaceName(): string {
+    return vscode.workspace.name?.replace(/ \(Workspace\)$/, '') ?? 'workspace';
+}
+
+/** Where combined outputs are saved: next to a saved `.code-workspace` file, else the first folder */
+export function workspaceOutputFolder(): vscode.Uri | undefined {
+    const file = vscode.workspace.workspaceFile;
+    if (file?.scheme === 'file') {
+        return vscode.Uri.file(path.dirname(file.fsPath));
+    }
+    return vscode.workspace.workspaceFolders?.[0]?.uri;
+}
+
+/**
+ * Scan every folder (each through its own source) into one tree with a
+ * root per folder – format it with `StructureGenerator.render`. A
+ * cancelled scan stops after the folder it was in.
+ */
+export async function scanWorkspaceFolders(
+    folders: readonly vscode.WorkspaceFolder[],
+    cfg: StructureConfig,
+    onProgress?: ProgressCallback,
+    isCancelled?: CancellationCheck
+): Promise<{ root: FileEntry; partial: boolean; itemsProcessed: number }> {
+    const roots: FileEntry[] = [];
+    let itemsProcessed = 0;
+    let partial = false;
+
+    for (const folder of folders) {
+        const { source, root } = sourceForUri(folder.uri);
+        const generator = new StructureGenerator(cfg, onProgress, isCancelled, { partialOnCancel: true, source });
+        roots.push({ ...await generator.scan(root), name: folder.name });
+        itemsProcessed += generator.itemsProcessed;
+        // budgets apply per folder; cancelling ends the whole scan
+        if (generator.truncation === 'cancelled') {
+            partial = true;
+            break;
+        }
+    }
+
+    const outputFolder = workspaceOutputFolder();
+    const rootPath = outputFolder ? sourceForUri(outputFolder).root : '';
+    return { root: combineRoots(workspaceName(), rootPath, roots), partial, itemsProcessed };
+}
@@ -0,0 +1,395 @@
+/* ==================================================================
+   LIVE STRUCTURE VIEW
+   Explorer sidebar tree backed by StructureGenerator's FileEntry model
+   ================================================================== */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { StructureGenerator } from '../core/generator';
+import { DirItem, FileEntry } from '../models/file-entry.interface';
+import { EntryFilter, STRUCTURE_IGNORE_FILE } from '../core/filters';
+import { StructureConfig } from '../models/config.interface';
+import { getConfigFromSettings } from '../utils/config';
+import { formatJSON, formatMarkdown, formatTree, getIcon } from '../utils/formatting';
+import { humanFileSize } from '../utils/fs-helpers';
+import { sourceForUri, uriForPath } from '../sources/workspace-fs-source';
+
+export const STRUCTURE_VIEW_ID = 'advanced-folder-structure-navigator.structureView';
+
+/** More changed folders than this in one debounce window rescan the whole workspace */
+const MAX_PARTIAL_REFRESHES = 20;
+
+/* ==================================================================
+   TREE DATA PROVIDER
+   ================================================================== */
+
+export class StructureTreeProvider implements vscode.TreeDataProvider<FileEntry>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<FileEntry | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    private roots: FileEntry[] | null = null;          // null = not scanned yet
+    private scanning: Promise<FileEntry[]> | null = null; // the one workspace scan in flight
+    private scanId = 0;                                // bumped to cancel running scans
+    private cfg: Required<StructureConfig> | null = null;
+    private readonly changed = new Set<string>();      // paths changed since the last refresh
+    private refreshTimer: NodeJS.Timeout | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        // keep the view in sync with the disk (debounced) – cache
+        // invalidation is done by the scan index watcher
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+        const onFsEvent = (uri: vscode.Uri) => {
+            const p = sourceForUri(uri).root;
+            // changes in folders the view does not show (.git, node_modules, …) are dropped here
+            if (this.roots ? this.visibleTarget(p) : this.scanning) {
+                this.changed.add(p);
+                this.scheduleRefresh();
+            }
+        };
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(onFsEvent),
+            watcher.onDidChange(onFsEvent),
+            watcher.onDidDelete(onFsEvent),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.refresh()),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('advanced-folder-structure-navigator')) {
+                    this.refresh();
+                }
+            })
+        );
+    }
+
+    /** Drop the current snapshot (cancelling a scan in flight) – it is rebuilt lazily on the next getChildren */
+    refresh(): void {
+        this.scanId++;
+        this.scanning = null;
+        this.roots = null;
+        this.changed.clear();
+        this.changeEmitter.fire(undefined);
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => void this.refreshChanged(), 500);
+    }
+
+    /* -----------------------------------------------------------------
+       PARTIAL REFRESH – rescan only the folders holding changed paths
+       ----------------------------------------------------------------- */
+    private async refreshChanged(): Promise<void> {
+        // not shown yet, or a scan in flight – it applies the changes once done
+        if (!this.roots || !this.cfg) {
+            if (!this.scanning) {
+                this.changed.clear();
+            }
+            return;
+        }
+        const changed = [...this.changed];
+        this.changed.clear();
+
+        // the innermost shown folder of each change the view can show
+        const id = this.scanId;
+        const relevant: FolderTarget[] = [];
+        for (const p of changed) {
+            const target = this.visibleTarget(p);
+            if (target && await this.wouldShow(p, target)) {
+                relevant.push(target);
+            }
+        }
+        if (!relevant.length || id !== this.scanId) {
+            return;
+        }
+
+        // totals, sort order by size, query matches and git data span the
+        // whole tree – a change below a folder affects its ancestors too
+        const cfg = this.cfg;
+        if (cfg.includeSize || cfg.sortBy === 'size' || cfg.filterExpression || cfg.includeGitInfo || cfg.gitChurn) {
+            this.refresh();
+            return;
+        }
+
+        // a folder inside another one is rescanned with it
+        const targets = relevant
+            .sort((a, b) => a.depth - b.depth)
+            .filter((t, i, all) => !all.slice(0, i).some(o => o.entry === t.entry || isInside(t.entry.path, o.entry.path)));
+        if (targets.length > MAX_PARTIAL_REFRESHES) {
+            this.refresh();
+            return;
+        }
+
+        for (const { entry, depth, root, uri } of targets) {
+            try {
+                const { source } = sourceForUri(uri);
+                const generator = new StructureGenerator(cfg, undefined, () => id !== this.scanId, { source });
+                const sub = await generator.scanSubtree(entry.path, depth, root);
+                if (id !== this.scanId) {
+                    return;
+                }
+                entry.children = sub.children;
+                entry.error = sub.error;
+                entry.omitted = sub.omitted;
+                entry.truncated = sub.truncated;
+                if (sub.modified) {
+                    entry.modified = sub.modified;
+                }
+                this.changeEmitter.fire(entry);
+            } catch {
+                // superseded by a full refresh, or the folder is gone – the full scan sorts it out
+                if (id === this.scanId) {
+                    this.refresh();
+                }
+                return;
+            }
+        }
+    }
+
+    /**
+     * The shown folder a change at `p` belongs to – null unless `p` sits
+     * directly in a shown folder (or below one cut off by maxDepth while
+     * sizes are totalled). Anything deeper lies in a folder the view hides.
+     */
+    private visibleTarget(p: string): FolderTarget | null {
+        const target = this.folderHolding(p);
+        if (!target || !this.cfg) {
+            return null;
+        }
+        const { maxDepth, includeSize, sortBy } = this.cfg;
+        if (maxDepth && target.depth >= maxDepth) {
+            return includeSize || sortBy === 'size' ? target : null;
+        }
+        return isChildOf(p, target.entry.path) ? target : null;
+    }
+
+    /** Whether a change at `p` in `target` can show: a listed entry, an ignore file, or a new entry the filters let through */
+    private async wouldShow(p: string, target: FolderTarget): Promise<boolean> {
+        if (!isChildOf(p, target.entry.path)) {
+            return true;                        // below a maxDepth cut-off – counts towards totals
+        }
+        const name = path.posix.basename(normalize(p));
+        if (target.entry.children?.some(c => normalize(c.path) === normalize(p))) {
+            return true;
+        }
+        if (name === '.gitignore' || name === STRUCTURE_IGNORE_FILE) {
+            return true;                        // rules for the entries next to it
+        }
+        const { source } = sourceForUri(target.uri);
+        const stats = await source.lstat(p);
+        if (!stats) {
+            return false;                       // gone, and it was never listed
+        }
+        const item: DirItem = {
+            name,
+            isDirectory: () => stats.isDirectory(),
+            isFile: () => !stats.isDirectory(),
+            isSymbolicLink: () => false
+        };
+        const filter = new EntryFilter(this.cfg!, source, target.root);
+        return (await filter.apply([item], target.entry.path)).length > 0;
+    }
+
+    /** The deepest folder in the view that contains `p` (not `p` itself) */
+    private folderHolding(p: string): FolderTarget | null {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        for (const root of this.roots ?? []) {
+            if (!isInside(p, root.path)) {
+                continue;
+            }
+            const folder = folders.find(f => sourceForUri(f.uri).root === root.path);
+            if (!folder) {
+                return null;
+            }
+            let entry = root;
+            let depth = 0;
+            for (;;) {
+                const next = entry.children?.find(c => c.type === 'directory' && isInside(p, c.path));
+                if (!next) {
+                    return { entry, depth, root: root.path, uri: folder.uri };
+                }
+                entry = next;
+                depth++;
+            }
+        }
+        return null;
+    }
+
+    /** Effective config used for icons and for copying subtrees */
+    get config(): Required<StructureConfig> | null {
+        return this.cfg;
+    }
+
+    getTreeItem(entry: FileEntry): vscode.TreeItem {
+        const cfg = this.cfg!;
+        const isDir = entry.type === 'directory';
+
+        const item = new vscode.TreeItem(
+            `${getIcon(entry, cfg)}${entry.name}`,
+            isDir && entry.children?.length
+                ? vscode.TreeItemCollapsibleState.Collapsed
+                : vscode.TreeItemCollapsibleState.None
+        );
+
+        const details: string[] = [];
+        if (entry.size !== undefined && !isDir) {
+            details.push(humanFileSize(entry.size));
+        }
+        if (entry.modified) {
+            details.push(entry.modified.toISOString().split('T')[0]);
+        }
+        if (entry.error) {
+            details.push(`⚠ ${entry.error}`);
+        }
+        item.description = details.join(' · ');
+        item.tooltip = entry.error ? `${entry.path}\n⚠ ${entry.error}` : entry.path;
+        item.resourceUri = this.uriOf(entry);
+        item.contextValue = isDir ? 'structureDirectory' : 'structureFile';
+
+        if (!isDir) {
+            item.command = {
+                command: 'vscode.open',
+                title: 'Open File',
+                arguments: [item.resourceUri]
+            };
+        }
+        return item;
+    }
+
+    /** Entry paths are local paths or, in remote and virtual workspaces, URI paths */
+    private uriOf(entry: FileEntry): vscode.Uri {
+        const folder = vscode.workspace.workspaceFolders?.find(f => entry.path.startsWith(sourceForUri(f.uri).root));
+        return folder ? uriForPath(folder.uri, entry.path) : vscode.Uri.file(entry.path);
+    }
+
+    async getChildren(entry?: FileEntry): Promise<FileEntry[]> {
+        if (entry) {
+            return entry.children ?? [];
+        }
+        if (!this.roots) {
+            // overlapping calls share the scan in flight
+            this.scanning ??= this.scanWorkspace();
+            const scan = this.scanning;
+            const roots = await scan;
+            if (scan !== this.scanning) {
+                // refreshed meanwhile (or already stored by another caller)
+                return this.getChildren();
+            }
+            this.roots = roots;
+            this.scanning = null;
+            // the scan may have read folders before they changed
+            if (this.changed.size) {
+                this.scheduleRefresh();
+            }
+        }
+        return this.roots;
+    }
+
+    /* -----------------------------------------------------------------
+       SCAN every workspace folder with the active settings
+       ----------------------------------------------------------------- */
+    private async scanWorkspace(): Promise<FileEntry[]> {
+        const id = ++this.scanId;
+        const cancelled = () => id !== this.scanId;
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const settings = await getConfigFromSettings();
+
+        // the view shows modified dates and never collapses folders; sizes
+        // follow the settings – totals walk everything below maxDepth
+        const cfg: StructureConfig = {
+            ...settings,
+            outputFormat: 'tree',
+            includeModifiedDate: true,
+            compressLargeDirs: false
+        };
+
+        const roots: FileEntry[] = [];
+        for (const folder of folders) {
+            const { source, root: rootPath } = sourceForUri(folder.uri);
+            try {
+                // an invalid filterExpression throws here
+                const generator = new StructureGenerator(cfg, undefined, cancelled, { source });
+                this.cfg = generator.config;
+                const root = await generator.scan(rootPath);
+                roots.push({ ...root, name: folder.name });
+            } catch (e) {
+                if (cancelled()) {
+                    return [];
+                }
+                vscode.window.showWarningMessage(
+                    `Live Structure: could not scan ${folder.name}: ${e instanceof Error ? e.message : String(e)}`
+                );
+            }
+        }
+        this.cfg ??= new StructureGenerator({ ...cfg, filterExpression: null }).config;
+        return roots;
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.changeEmitter.dispose();
+    }
+}
+
+/* ==================================================================
+   COPY SUBTREE COMMANDS
+   ================================================================== */
+
+export async function copySubtree(
+    provider: StructureTreeProvider,
+    entry: FileEntry | undefined,
+    format: 'tree' | 'markdown' | 'json'
+): Promise<void> {
+    const cfg = provider.config;
+    if (!entry || !cfg) {
+        vscode.window.showErrorMessage('Select an entry in the Live Structure view first.');
+        return;
+    }
+
+    const count = countEntries(entry);
+    let text: string;
+    switch (format) {
+        case 'markdown':
+            text = formatMarkdown(entry, cfg, 0, count);
+            break;
+        case 'json':
+            text = formatJSON(entry, cfg, 0, count);
+            break;
+        default:
+            text = formatTree(entry, cfg);
+    }
+
+    await vscode.env.clipboard.writeText(text);
+    vscode.window.showInformationMessage(`Copied **${entry.name}** as ${format}`);
+}
+
+interface FolderTarget {
+    entry: FileEntry;
+    depth: number;
+    root: string;        // scanned path of the workspace folder
+    uri: vscode.Uri;     // the workspace folder
+}
+
+/** `/`-separated path without a trailing slash (paths from a source may use the OS separator) */
+function normalize(p: string): string {
+    return p.split(path.sep).join('/').replace(/\/+$/, '');
+}
+
+/** `p` lies below `dir` */
+function isInside(p: string, dir: string): boolean {
+    return normalize(p).startsWith(`${normalize(dir)}/`);
+}
+
+/** `p` sits directly in `dir` */
+function isChildOf(p: string, dir: string): boolean {
+    const child = normalize(p);
+    return isInside(p, dir) && child.lastIndexOf('/') === normalize(dir).length;
+}
+
+function countEntries(entry: FileEntry): number {
+    return (entry.children ?? []).reduce((n, c) => n + 1 + countEntries(c), 0);
+}